@@ -0,0 +1,425 @@
+import {Select} from 'enquirer/lib/prompts';
+import path from 'path';
+import {ConfigError, ConfigLoader, Settings, configFileName, getMetadataProviderOptions, getNamingScheme} from './config';
+import {EpisodeOrder, episodeOrders} from './episodeorder';
+import {FileBrowser} from './filebrowser';
+import {namingPresets, validateFolderTemplate} from './filenametemplate';
+import {InboxWatcher} from './inboxwatcher';
+import {Journal, JournalBatch, journalFolderName} from './journal';
+import {LibraryReportFormat, libraryReportFormats} from './libraryreport';
+import {LibraryScanner} from './libraryscanner';
+import {LibrarySorter} from './librarysorter';
+import {MetadataProvider, MetadataProviderName, createMetadataProvider} from './providers';
+import {ReviewQueue} from './reviewqueue';
+import {SeriesSidecar, applySeriesSidecar, readSeriesSidecar, seriesSidecarFileName} from './seriessidecar';
+import {HeadlessStandardizer} from './standardizer';
+
+const defaultWatchInterval = 60;
+
+const usage = `usage:
+  series-rename [--dry-run]            browse the current directory
+  series-rename standardize <dir> [--series-id <id>] [--lang <language>] [--yes] [--dry-run]
+                                  [--accept-confidence <percent>]
+                                       standardize a series folder without prompts
+  series-rename scan [dir] [--format <format>] [--output <file>]
+                                       report non-standard names, missing episodes,
+                                       duplicates and stray files of a whole library
+  series-rename watch <inbox> --library <dir> [--interval <seconds>] [--once]
+                                       sort finished downloads from the inbox into
+                                       the library, uncertain ones into a review queue
+  series-rename journal list [--dir <dir>]
+                                       list all recorded batches
+  series-rename journal undo [batch] [--dir <dir>]
+                                       undo a batch (defaults to the last one)
+
+options:
+  --dry-run     standardize only prints the rename plan instead of renaming files
+  --series-id   tvdb id of the series. Defaults to the id in ${seriesSidecarFileName}
+  --lang        language of the episode names
+  --yes         apply the renames. Without it, standardize only prints the plan
+  --accept-confidence
+                also rename unmatched videos whose title or air date match an episode
+                with at least this confidence (0-100). Otherwise they are only suggested
+  --provider    metadata provider: tvdb, tmdb or local
+  --metadata    JSON or tvshow.nfo file for the local provider
+  --template    naming preset (${Object.keys(namingPresets).join(', ')}) or a template
+                like '{series} - S{season:00}E{episode:00} - {title}{ext}'
+  --order       episode numbering: aired, dvd or absolute
+  --season-folder
+                template like 'Season {season:00}'. Episodes that aren't in a folder
+                of their season are moved into such a folder, which is created if needed
+  --offline     only use cached metadata and never ask tvdb or tmdb
+  --refresh     fetch all metadata again instead of using the cache
+  --format      format of the scan report: ${libraryReportFormats.join(', ')}
+  --output      file to write the scan report to instead of printing it
+  --library     library that watch sorts into. Inbox and library must be on the
+                same filesystem
+  --interval    seconds between two looks at the inbox (default ${defaultWatchInterval}).
+                Downloads that changed within this time are left alone
+  --once        look at the inbox once instead of watching it
+  --profile     profile of the config files to use
+  --dir         folder whose journal is used (default: current directory). The journal
+                is kept in the browsed folder, the standardized series folder or the
+                library of watch
+
+defaults for all options are read from ~/${configFileName} and from ${configFileName}
+files in the start directory and its parents. provider, language, order and template
+of a series folder are read from its ${seriesSidecarFileName}.
+api keys are read from TVDB_API_KEY and TMDB_API_KEY or the credentials in the config`;
+
+// flags that never take a value. All other options consume the following argument
+const booleanFlags = ['dry-run', 'yes', 'offline', 'refresh', 'once'];
+
+type ParsedArgs = {
+  positionals: Array<string>,
+  options: {[name: string]: string | boolean},
+}
+
+export class Cli {
+
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string = process.cwd()) {
+    this.workingDirectory = workingDirectory;
+  }
+
+  public async run(args: Array<string>): Promise<void> {
+    const {positionals, options} = this.parseArgs(args);
+    const [command, ...commandArgs] = positionals;
+
+    if (command === 'journal') {
+      await this.runJournalCommand(commandArgs, options);
+      return;
+    }
+
+    if (command !== undefined && !['standardize', 'scan', 'watch'].includes(command)) {
+      console.log(usage);
+      process.exitCode = 1;
+      return;
+    }
+
+    // standardize, scan and watch read the configs of their directory and never ask for a profile, as they are meant for scripts.
+    // watch reads them from the library, as that is where the downloads end up
+    let startDirectory = command !== undefined && commandArgs[0] !== undefined
+      ? path.resolve(this.workingDirectory, commandArgs[0])
+      : this.workingDirectory;
+    if (command === 'watch' && typeof options.library === 'string') {
+      startDirectory = path.resolve(this.workingDirectory, options.library);
+    }
+
+    let settings: Settings;
+    let sidecar: SeriesSidecar;
+    let metadataProvider: MetadataProvider;
+    try {
+      // the file browser reads the sidecars itself, as it can standardize any folder
+      sidecar = command === 'standardize' ? await readSeriesSidecar(startDirectory) : undefined;
+      settings = await this.loadSettings(startDirectory, options, command === undefined, sidecar);
+      metadataProvider = createMetadataProvider(getMetadataProviderOptions(settings, options.refresh === true));
+    } catch (error) {
+      console.log(error.message);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (command === undefined) {
+      new FileBrowser(this.workingDirectory, {
+        dryRun: options['dry-run'] === true,
+        metadataProvider: metadataProvider,
+        settings: settings,
+      }).start();
+      return;
+    }
+
+    if (command === 'scan') {
+      await this.runScanCommand(startDirectory, options, metadataProvider, settings);
+      return;
+    }
+
+    if (command === 'watch') {
+      await this.runWatchCommand(commandArgs, options, metadataProvider, settings);
+      return;
+    }
+
+    await this.runStandardizeCommand(commandArgs, options, metadataProvider, settings, sidecar);
+  }
+
+  /**
+   * Loads the config files and the sidecar of the series folder. Options given on the command line override them.
+   */
+  private async loadSettings(
+    startDirectory: string,
+    options: ParsedArgs['options'],
+    promptForProfile: boolean,
+    sidecar: SeriesSidecar,
+  ): Promise<Settings> {
+    const configLoader = new ConfigLoader(startDirectory);
+    let profileName = typeof options.profile === 'string' ? options.profile : undefined;
+    if (profileName === undefined && promptForProfile) {
+      profileName = await this.promptProfile(await configLoader.getProfileNames());
+    }
+
+    const config = applySeriesSidecar(await configLoader.load(profileName), sidecar);
+    const settings: Settings = {
+      ...config,
+      language: typeof options.lang === 'string' ? options.lang : config.language,
+      provider: typeof options.provider === 'string' ? options.provider as MetadataProviderName : config.provider,
+      metadataFile: typeof options.metadata === 'string' ? path.resolve(this.workingDirectory, options.metadata) : config.metadataFile,
+      template: typeof options.template === 'string' ? options.template : config.template,
+      seasonFolder: typeof options['season-folder'] === 'string' ? options['season-folder'] : config.seasonFolder,
+      order: typeof options.order === 'string' ? options.order as EpisodeOrder : config.order,
+      offline: options.offline === true || config.offline,
+    };
+
+    if (settings.offline && options.refresh === true) {
+      throw new ConfigError('--refresh needs a connection and can\'t be combined with offline mode');
+    }
+
+    if (!episodeOrders.includes(settings.order)) {
+      throw new ConfigError(`--order must be one of ${episodeOrders.join(', ')}`);
+    }
+
+    // fail early on invalid templates given on the command line
+    getNamingScheme(settings);
+    if (settings.seasonFolder !== undefined) {
+      validateFolderTemplate(settings.seasonFolder);
+    }
+
+    return settings;
+  }
+
+  private async promptProfile(profileNames: Array<string>): Promise<string> {
+    if (profileNames.length === 0) {
+      return undefined;
+    }
+
+    const profilePrompt = new Select({
+      message: 'profile',
+      choices: [
+        {name: '-', message: '(no profile)', value: '-'},
+        ...profileNames.map((profileName: string) => {
+          return {name: profileName, message: profileName, value: profileName};
+        }),
+      ],
+      footer: 'esc = no profile',
+    });
+
+    let profileName: string;
+    try {
+      profileName = await profilePrompt.run();
+    } catch {
+      // aborted, so no profile
+    }
+    profilePrompt.stop();
+    console.clear();
+
+    return profileName !== '-' ? profileName : undefined;
+  }
+
+  /**
+   * Prints a JSON summary to stdout. Exits with 1 if anything needs manual
+   * attention, that is unmatched video files, conflicts or errors.
+   */
+  private async runStandardizeCommand(
+    args: Array<string>,
+    options: ParsedArgs['options'],
+    metadataProvider: MetadataProvider,
+    settings: Settings,
+    sidecar: SeriesSidecar,
+  ): Promise<void> {
+    const [seriesDirectory] = args;
+    const seriesId = options['series-id'] === undefined && sidecar !== undefined
+      ? sidecar.seriesId
+      : parseInt(`${options['series-id']}`);
+    const acceptConfidence = options['accept-confidence'] !== undefined
+      ? Number(options['accept-confidence'])
+      : undefined;
+    const isValidConfidence = acceptConfidence === undefined || (acceptConfidence >= 0 && acceptConfidence <= 100);
+    if (seriesDirectory === undefined || isNaN(seriesId) || !isValidConfidence) {
+      console.log(usage);
+      process.exitCode = 1;
+      return;
+    }
+
+    const seriesPath = path.resolve(this.workingDirectory, seriesDirectory);
+    const standardizer = new HeadlessStandardizer(this.getJournal(seriesPath), metadataProvider);
+    try {
+      const summary = await standardizer.standardize(seriesPath, {
+        seriesId: seriesId,
+        language: settings.language,
+        namingScheme: getNamingScheme(settings),
+        videoFileExtensions: settings.videoFileExtensions,
+        companionFileExtensions: settings.companionFileExtensions,
+        seasonFolder: settings.seasonFolder,
+        order: settings.order,
+        apply: options.yes === true && options['dry-run'] !== true,
+        acceptConfidence: acceptConfidence,
+      });
+
+      console.log(JSON.stringify(summary, null, 2));
+      if (summary.unmatched.length > 0 || summary.conflicts.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.log(JSON.stringify({error: error.message}, null, 2));
+      process.exitCode = 1;
+    }
+  }
+
+  /**
+   * Exits with 1 if the library has any issues.
+   */
+  private async runScanCommand(
+    libraryDirectory: string,
+    options: ParsedArgs['options'],
+    metadataProvider: MetadataProvider,
+    settings: Settings,
+  ): Promise<void> {
+    const format = typeof options.format === 'string' ? options.format as LibraryReportFormat : 'text';
+    if (!libraryReportFormats.includes(format)) {
+      console.log(`--format must be one of ${libraryReportFormats.join(', ')}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      const report = await new LibraryScanner(settings, metadataProvider).scan(libraryDirectory);
+      if (typeof options.output === 'string') {
+        await report.export(path.resolve(this.workingDirectory, options.output), format);
+        console.log(`${report.series.length} series: ${report.summarize()}`);
+      } else {
+        console.log(report.format(format));
+      }
+
+      if (report.issueCount > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.log(error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  /**
+   * Runs until the process is stopped, unless --once is given.
+   */
+  private async runWatchCommand(
+    args: Array<string>,
+    options: ParsedArgs['options'],
+    metadataProvider: MetadataProvider,
+    settings: Settings,
+  ): Promise<void> {
+    const [inboxDirectory] = args;
+    const interval = options.interval !== undefined ? Number(options.interval) : defaultWatchInterval;
+    if (inboxDirectory === undefined || typeof options.library !== 'string' || !(interval >= 0)) {
+      console.log(usage);
+      process.exitCode = 1;
+      return;
+    }
+
+    const libraryDirectory = path.resolve(this.workingDirectory, options.library);
+    const watcher = new InboxWatcher(
+      path.resolve(this.workingDirectory, inboxDirectory),
+      new LibrarySorter(libraryDirectory, settings, metadataProvider),
+      new ReviewQueue(libraryDirectory),
+      this.getJournal(libraryDirectory),
+      {
+        videoFileExtensions: settings.videoFileExtensions,
+        interval: interval,
+        log: (message: string) => {
+          console.log(`${new Date().toLocaleString()}  ${message}`);
+        },
+      },
+    );
+
+    try {
+      if (options.once === true) {
+        await watcher.poll();
+      } else {
+        await watcher.run();
+      }
+    } catch (error) {
+      console.log(error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  private async runJournalCommand(args: Array<string>, options: ParsedArgs['options']): Promise<void> {
+    const [subCommand, batchId] = args;
+    const journal = this.getJournal(typeof options.dir === 'string' ? path.resolve(this.workingDirectory, options.dir) : this.workingDirectory);
+
+    if (subCommand === 'list') {
+      const batches = await journal.getBatches();
+      if (batches.length === 0) {
+        console.log('the journal is empty');
+      }
+
+      for (const batch of batches) {
+        console.log(this.formatBatch(batch));
+      }
+      return;
+    }
+
+    if (subCommand === 'undo') {
+      const batchToUndo = batchId === undefined
+        ? await journal.getLastUndoableBatch()
+        : {id: batchId};
+
+      if (batchToUndo === undefined) {
+        console.log('nothing to undo');
+        return;
+      }
+
+      try {
+        const result = await journal.undo(batchToUndo.id);
+        console.log(`undid ${result.restoredCount} of ${result.operationCount} operations of ${this.formatBatch(result.batch)}`);
+        for (const error of result.errors) {
+          console.log(`  failed: ${error}`);
+        }
+        if (result.errors.length > 0) {
+          console.log('the failed operations stay in the journal, undo the batch again to retry them');
+          process.exitCode = 1;
+        }
+      } catch (error) {
+        console.log(error.message);
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    console.log(usage);
+    process.exitCode = 1;
+  }
+
+  // the journal belongs to the folder that is worked on, not to where the command is started from
+  private getJournal(directory: string): Journal {
+    return new Journal(path.join(directory, journalFolderName));
+  }
+
+  private parseArgs(args: Array<string>): ParsedArgs {
+    const result: ParsedArgs = {positionals: [], options: {}};
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg.startsWith('--')) {
+        result.positionals.push(arg);
+        continue;
+      }
+
+      const [name, inlineValue] = arg.substring(2).split(/=(.*)/);
+      if (inlineValue !== undefined) {
+        result.options[name] = inlineValue;
+      } else if (booleanFlags.includes(name) || i + 1 >= args.length) {
+        result.options[name] = true;
+      } else {
+        result.options[name] = args[++i];
+      }
+    }
+
+    return result;
+  }
+
+  private formatBatch(batch: JournalBatch): string {
+    const date = new Date(batch.timestamp).toLocaleString();
+    const undone = batch.undone ? ' (undone)' : '';
+    return `${batch.id}  ${date}  ${batch.description}, ${batch.entries.length} operations${undone}`;
+  }
+}
@@ -0,0 +1,171 @@
+import {promises as fsPromises} from 'fs';
+import {EpisodeOrder, getEpisodeNumber, getSeasonNumber} from './episodeorder';
+import {Episode, EpisodeMapping, SeasonMapping, Series} from './types';
+
+export type CompletenessExportFormat = 'text' | 'csv';
+
+export type EpisodeStatus = 'present' | 'missing' | 'unaired';
+
+export type EpisodeCompleteness = {
+  episode: Episode,
+  seasonNumber: number,
+  episodeNumber: number,
+  status: EpisodeStatus,
+  // more than one if the episode is there twice
+  files: Array<string>,
+};
+
+export type SeasonCompleteness = {
+  // 0 for specials
+  seasonNumber: number,
+  episodes: Array<EpisodeCompleteness>,
+  // videos in the folder of the season that match no episode
+  extraFiles: Array<string>,
+  presentCount: number,
+  missingCount: number,
+  unairedCount: number,
+};
+
+/**
+ * Compares the episodes of a series with the files of its folder, season by season.
+ * Episodes without an air date or with one in the future are unaired, not missing.
+ */
+export class SeriesCompleteness {
+
+  public readonly seriesName: string;
+  // specials last
+  public readonly seasons: Array<SeasonCompleteness>;
+
+  private constructor(seriesName: string, seasons: Array<SeasonCompleteness>) {
+    this.seriesName = seriesName;
+    this.seasons = seasons;
+  }
+
+  public static fromSeasonMapping(seriesDetails: Series, seasonMapping: SeasonMapping, order: EpisodeOrder): SeriesCompleteness {
+    const videoMappings = Object.values(seasonMapping)
+      .map((season: SeasonMapping[number]) => {
+        return season.episodeMappings;
+      })
+      .flat()
+      .filter((episodeMapping: EpisodeMapping) => {
+        return episodeMapping.value.isVideo;
+      });
+
+    const filesByEpisode = new Map<number, Array<string>>();
+    for (const episodeMapping of videoMappings) {
+      for (const episode of episodeMapping.value.episodes) {
+        filesByEpisode.set(episode.id, [...(filesByEpisode.get(episode.id) || []), episodeMapping.value.originalPath]);
+      }
+    }
+
+    const today = new Date().toISOString().substring(0, 10);
+    const seasons = new Map<number, SeasonCompleteness>();
+    const getSeason = (seasonNumber: number): SeasonCompleteness => {
+      if (!seasons.has(seasonNumber)) {
+        seasons.set(seasonNumber, {seasonNumber: seasonNumber, episodes: [], extraFiles: [], presentCount: 0, missingCount: 0, unairedCount: 0});
+      }
+
+      return seasons.get(seasonNumber);
+    };
+
+    for (const episode of seriesDetails.episodes) {
+      const files = filesByEpisode.get(episode.id) || [];
+      const hasAired = typeof episode.firstAired === 'string' && episode.firstAired.length > 0 && episode.firstAired <= today;
+      const status: EpisodeStatus = files.length > 0 ? 'present' : hasAired ? 'missing' : 'unaired';
+      const season = getSeason(getSeasonNumber(episode, order));
+      season.episodes.push({
+        episode: episode,
+        seasonNumber: season.seasonNumber,
+        episodeNumber: getEpisodeNumber(episode, order),
+        status: status,
+        files: files,
+      });
+      if (status === 'present') {
+        season.presentCount++;
+      } else if (status === 'missing') {
+        season.missingCount++;
+      } else {
+        season.unairedCount++;
+      }
+    }
+
+    for (const episodeMapping of videoMappings) {
+      if (episodeMapping.value.episode === undefined) {
+        getSeason(episodeMapping.value.seasonNumber).extraFiles.push(episodeMapping.value.originalPath);
+      }
+    }
+
+    for (const season of seasons.values()) {
+      season.episodes.sort((episode1: EpisodeCompleteness, episode2: EpisodeCompleteness) => {
+        return episode1.episodeNumber - episode2.episodeNumber;
+      });
+    }
+
+    const sortedSeasons = Array.from(seasons.values()).sort((season1: SeasonCompleteness, season2: SeasonCompleteness) => {
+      if (season1.seasonNumber === 0 || season2.seasonNumber === 0) {
+        return season2.seasonNumber - season1.seasonNumber;
+      }
+
+      return season1.seasonNumber - season2.seasonNumber;
+    });
+
+    return new SeriesCompleteness(seriesDetails.seriesName, sortedSeasons);
+  }
+
+  public get missingEpisodes(): Array<EpisodeCompleteness> {
+    return this.seasons
+      .map((season: SeasonCompleteness) => {
+        return season.episodes;
+      })
+      .flat()
+      .filter((episode: EpisodeCompleteness) => {
+        return episode.status === 'missing';
+      });
+  }
+
+  /**
+   * One missing episode per line, e.g. 'Show S01E03 Title (2019-01-15)'.
+   */
+  public toText(): string {
+    return this.missingEpisodes
+      .map((missingEpisode: EpisodeCompleteness) => {
+        return `${this.seriesName} ${formatEpisodeNumber(missingEpisode)} ${missingEpisode.episode.episodeName} (${missingEpisode.episode.firstAired})`;
+      })
+      .join('\n');
+  }
+
+  public toCSV(): string {
+    const rows = [
+      ['series', 'season', 'episode', 'title', 'aired'],
+      ...this.missingEpisodes.map((missingEpisode: EpisodeCompleteness) => {
+        return [
+          this.seriesName,
+          `${missingEpisode.seasonNumber}`,
+          `${missingEpisode.episodeNumber}`,
+          missingEpisode.episode.episodeName || '',
+          missingEpisode.episode.firstAired,
+        ];
+      }),
+    ];
+
+    return rows
+      .map((row: Array<string>) => {
+        return row
+          .map((value: string) => {
+            return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+          })
+          .join(',');
+      })
+      .join('\n');
+  }
+
+  public async exportMissingEpisodes(filePath: string, format: CompletenessExportFormat): Promise<void> {
+    const content = format === 'csv' ? this.toCSV() : this.toText();
+    await fsPromises.writeFile(filePath, `${content}\n`);
+  }
+}
+
+// e.g. 'S01E03'
+export function formatEpisodeNumber(episode: {seasonNumber: number, episodeNumber: number}): string {
+  return `S${`${episode.seasonNumber}`.padStart(2, '0')}E${`${episode.episodeNumber}`.padStart(2, '0')}`;
+}
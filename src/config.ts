@@ -0,0 +1,513 @@
+import {promises as fsPromises} from 'fs';
+import os from 'os';
+import path from 'path';
+import {EpisodeOrder, episodeOrders} from './episodeorder';
+import {
+  FilenameTemplate,
+  NamingScheme,
+  ReplacementRule,
+  filesystemReplacements,
+  namingPresets,
+  resolveNamingScheme,
+  validateFolderTemplate,
+} from './filenametemplate';
+import {MetadataProviderName, MetadataProviderOptions, metadataProviderNames} from './providers';
+
+export const configFileName = '.series-rename.json';
+
+export type ReplacementSetting = {
+  find: string,
+  replace: string,
+  // find is a regular expression instead of plain text
+  regex?: boolean,
+};
+
+export type KeyBindingAction =
+  'toggleSelection'
+  | 'selectAll'
+  | 'selectPattern'
+  | 'rename'
+  | 'bulkRename'
+  | 'movie'
+  | 'createFolder'
+  | 'delete'
+  | 'move'
+  | 'update'
+  | 'hoist'
+  | 'purge'
+  | 'standardize'
+  | 'scan'
+  | 'duplicates'
+  | 'sortIntoLibrary'
+  | 'review'
+  | 'undo'
+  | 'exit';
+
+export type KeyBindings = {[action in KeyBindingAction]: string};
+
+export type Credentials = {
+  tvdbApiKey?: string,
+  tmdbApiKey?: string,
+};
+
+export type Settings = {
+  language: string,
+  provider: MetadataProviderName,
+  metadataFile: string,
+  // a preset name or a template
+  template: string,
+  // replaces the replacements of the template when set
+  replacements: Array<ReplacementSetting>,
+  // e.g. 'Season {season:00}'. Episodes without season folder are moved into such folders
+  seasonFolder: string,
+  // numbering used for matching and naming episodes
+  order: EpisodeOrder,
+  // e.g. '{title}< ({year})>< - part{part}>{ext}'. Movies get the filesystem replacements like custom templates
+  movieTemplate: string,
+  // movie folders are renamed to this, e.g. '{title}< ({year})>'
+  movieFolder: string,
+  videoFileExtensions: Array<string>,
+  // subtitles, nfos and thumbnails that are renamed together with their video
+  companionFileExtensions: Array<string>,
+  // languages, searches and episode lists of tvdb and tmdb are cached here
+  cacheDirectory: string,
+  // hours until cached metadata is fetched again
+  cacheTtl: number,
+  // only use cached metadata, e.g. without connectivity
+  offline: boolean,
+  credentials: Credentials,
+  keyBindings: KeyBindings,
+};
+
+type SettingsFile = Partial<Settings> & {
+  profiles?: {[profileName: string]: Partial<Settings>},
+};
+
+export type Config = Settings & {
+  // undefined, if no profile is selected
+  profile: string,
+};
+
+export class ConfigError extends Error {}
+
+export const defaultKeyBindings: KeyBindings = {
+  toggleSelection: ' ',
+  selectAll: 'a',
+  selectPattern: 'g',
+  rename: 'r',
+  bulkRename: 'b',
+  movie: 'o',
+  createFolder: 'c',
+  delete: 'd',
+  move: 'm',
+  update: 'u',
+  hoist: 'h',
+  purge: 'p',
+  standardize: 's',
+  scan: 'l',
+  duplicates: 'f',
+  sortIntoLibrary: 'i',
+  review: 'q',
+  undo: 'z',
+  exit: 'e',
+};
+
+export const defaultSettings: Settings = {
+  language: 'de',
+  provider: 'tvdb',
+  metadataFile: undefined,
+  template: 'default',
+  replacements: undefined,
+  seasonFolder: undefined,
+  order: 'aired',
+  movieTemplate: '{title}< ({year})>< - {edition}>< - part{part}>{ext}',
+  movieFolder: '{title}< ({year})>',
+  videoFileExtensions: ['.mp4', '.mkv', '.avi'],
+  companionFileExtensions: ['.srt', '.ass', '.ssa', '.sub', '.idx', '.vtt', '.sup', '.nfo', '.jpg', '.jpeg', '.png', '.tbn'],
+  cacheDirectory: path.join(os.homedir(), '.cache', 'series-rename'),
+  cacheTtl: 24,
+  offline: false,
+  credentials: {},
+  keyBindings: defaultKeyBindings,
+};
+
+/**
+ * Reads the global config (in the home directory) and all per-directory configs
+ * from the filesystem root down to the start directory. Settings of deeper
+ * folders override those of their parents, a selected profile overrides all of them.
+ */
+export class ConfigLoader {
+
+  private startDirectory: string;
+  private globalConfigFile: string;
+  private settingsFiles: Promise<Array<SettingsFile>>;
+
+  constructor(startDirectory: string, globalConfigFile: string = path.join(os.homedir(), configFileName)) {
+    this.startDirectory = path.resolve(startDirectory);
+    this.globalConfigFile = globalConfigFile;
+  }
+
+  public async getProfileNames(): Promise<Array<string>> {
+    const profileNames = new Set<string>();
+    for (const settingsFile of await this.getSettingsFiles()) {
+      for (const profileName of Object.keys(settingsFile.profiles || {})) {
+        profileNames.add(profileName);
+      }
+    }
+
+    return Array.from(profileNames);
+  }
+
+  public async load(profileName?: string): Promise<Config> {
+    const settingsFiles = await this.getSettingsFiles();
+    let settings = defaultSettings;
+    for (const settingsFile of settingsFiles) {
+      settings = this.mergeSettings(settings, settingsFile);
+    }
+
+    if (profileName !== undefined) {
+      const profiles = settingsFiles
+        .map((settingsFile: SettingsFile) => {
+          return (settingsFile.profiles || {})[profileName];
+        })
+        .filter((profile: Partial<Settings>) => {
+          return profile !== undefined;
+        });
+
+      if (profiles.length === 0) {
+        throw new ConfigError(`profile '${profileName}' not found. Known profiles are: ${(await this.getProfileNames()).join(', ')}`);
+      }
+
+      for (const profile of profiles) {
+        settings = this.mergeSettings(settings, profile);
+      }
+    }
+
+    // bindings can come from different files, so duplicates are only visible after merging
+    this.validateKeyBindings(settings.keyBindings);
+
+    return {...settings, profile: profileName};
+  }
+
+  private getSettingsFiles(): Promise<Array<SettingsFile>> {
+    if (this.settingsFiles === undefined) {
+      this.settingsFiles = this.readSettingsFiles();
+    }
+
+    return this.settingsFiles;
+  }
+
+  private async readSettingsFiles(): Promise<Array<SettingsFile>> {
+    const directoryConfigFiles: Array<string> = [];
+    let directory = this.startDirectory;
+    while (true) {
+      directoryConfigFiles.unshift(path.join(directory, configFileName));
+      const parentDirectory = path.dirname(directory);
+      if (parentDirectory === directory) {
+        break;
+      }
+      directory = parentDirectory;
+    }
+
+    const configFiles = [
+      this.globalConfigFile,
+      ...directoryConfigFiles.filter((configFile: string) => {
+        return configFile !== this.globalConfigFile;
+      }),
+    ];
+
+    const settingsFiles = await Promise.all(configFiles.map((configFile: string) => {
+      return this.readSettingsFile(configFile);
+    }));
+
+    return settingsFiles.filter((settingsFile: SettingsFile) => {
+      return settingsFile !== undefined;
+    });
+  }
+
+  private async readSettingsFile(configFile: string): Promise<SettingsFile> {
+    let content: string;
+    try {
+      content = await fsPromises.readFile(configFile, 'utf8');
+    } catch {
+      return undefined;
+    }
+
+    let settingsFile: SettingsFile;
+    try {
+      settingsFile = JSON.parse(content);
+    } catch (error) {
+      throw new ConfigError(`${configFile}: invalid JSON (${error.message})`);
+    }
+
+    if (typeof settingsFile !== 'object' || settingsFile === null || Array.isArray(settingsFile)) {
+      throw new ConfigError(`${configFile}: must contain a JSON object`);
+    }
+
+    const {profiles, ...settings} = settingsFile;
+    this.validateSettings(settings, configFile);
+    this.resolvePaths(settingsFile, configFile);
+
+    if (profiles !== undefined) {
+      if (typeof profiles !== 'object' || profiles === null || Array.isArray(profiles)) {
+        throw new ConfigError(`${configFile}: "profiles" must be an object of profile names to settings`);
+      }
+
+      for (const [profileName, profile] of Object.entries(profiles)) {
+        this.validateSettings(profile, `${configFile} (profile '${profileName}')`);
+        this.resolvePaths(profile, configFile);
+      }
+    }
+
+    return settingsFile;
+  }
+
+  // relative paths are relative to the config file they are written in
+  private resolvePaths(settings: Partial<Settings>, configFile: string): void {
+    if (settings.metadataFile !== undefined) {
+      settings.metadataFile = path.resolve(path.dirname(configFile), settings.metadataFile);
+    }
+    if (settings.cacheDirectory !== undefined) {
+      settings.cacheDirectory = path.resolve(path.dirname(configFile), settings.cacheDirectory);
+    }
+  }
+
+  private mergeSettings(settings: Settings, override: Partial<Settings>): Settings {
+    const {profiles, ...overrideSettings} = override as SettingsFile;
+    return {
+      ...settings,
+      ...overrideSettings,
+      credentials: {...settings.credentials, ...overrideSettings.credentials},
+      keyBindings: {...settings.keyBindings, ...overrideSettings.keyBindings},
+    };
+  }
+
+  private validateSettings(settings: Partial<Settings>, source: string): void {
+    const fail = (message: string): never => {
+      throw new ConfigError(`${source}: ${message}`);
+    };
+
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      fail('settings must be an object');
+    }
+
+    for (const key of Object.keys(settings)) {
+      if (!Object.keys(defaultSettings).includes(key)) {
+        fail(`unknown setting "${key}". Known settings are ${Object.keys(defaultSettings).join(', ')}, profiles`);
+      }
+    }
+
+    if (settings.language !== undefined && (typeof settings.language !== 'string' || settings.language.length === 0)) {
+      fail('"language" must be a language abbreviation like "de"');
+    }
+
+    if (settings.provider !== undefined && !metadataProviderNames.includes(settings.provider)) {
+      fail(`"provider" must be one of ${metadataProviderNames.join(', ')}`);
+    }
+
+    if (settings.metadataFile !== undefined && typeof settings.metadataFile !== 'string') {
+      fail('"metadataFile" must be a path');
+    }
+
+    if (settings.template !== undefined) {
+      if (typeof settings.template !== 'string') {
+        fail(`"template" must be a preset (${Object.keys(namingPresets).join(', ')}) or a template`);
+      }
+
+      try {
+        resolveNamingScheme(settings.template);
+      } catch (error) {
+        fail(error.message);
+      }
+    }
+
+    if (settings.replacements !== undefined) {
+      if (!Array.isArray(settings.replacements)) {
+        fail('"replacements" must be an array like [{"find": "ä", "replace": "ae"}]');
+      }
+
+      settings.replacements.forEach((replacement: ReplacementSetting, index: number) => {
+        if (typeof replacement !== 'object' || replacement === null) {
+          fail(`"replacements[${index}]" must be an object like {"find": "ä", "replace": "ae"}`);
+        }
+        if (typeof replacement.find !== 'string' || replacement.find.length === 0) {
+          fail(`"replacements[${index}].find" must be a non-empty string`);
+        }
+        if (typeof replacement.replace !== 'string') {
+          fail(`"replacements[${index}].replace" must be a string`);
+        }
+        if (replacement.regex !== undefined && typeof replacement.regex !== 'boolean') {
+          fail(`"replacements[${index}].regex" must be true or false`);
+        }
+        if (replacement.regex) {
+          try {
+            new RegExp(replacement.find);
+          } catch (error) {
+            fail(`"replacements[${index}].find" is no valid regular expression (${error.message})`);
+          }
+        }
+      });
+    }
+
+    if (settings.order !== undefined && !episodeOrders.includes(settings.order)) {
+      fail(`"order" must be one of ${episodeOrders.join(', ')}`);
+    }
+
+    if (settings.seasonFolder !== undefined) {
+      if (typeof settings.seasonFolder !== 'string') {
+        fail('"seasonFolder" must be a folder template like "Season {season:00}"');
+      }
+
+      try {
+        validateFolderTemplate(settings.seasonFolder);
+      } catch (error) {
+        fail(error.message);
+      }
+    }
+
+    if (settings.movieTemplate !== undefined) {
+      if (typeof settings.movieTemplate !== 'string') {
+        fail('"movieTemplate" must be a template like "{title}< ({year})>{ext}"');
+      }
+
+      try {
+        new FilenameTemplate(settings.movieTemplate);
+      } catch (error) {
+        fail(error.message);
+      }
+    }
+
+    if (settings.movieFolder !== undefined) {
+      if (typeof settings.movieFolder !== 'string') {
+        fail('"movieFolder" must be a folder template like "{title}< ({year})>"');
+      }
+
+      try {
+        validateFolderTemplate(settings.movieFolder);
+      } catch (error) {
+        fail(error.message);
+      }
+    }
+
+    for (const extensionsSetting of ['videoFileExtensions', 'companionFileExtensions']) {
+      const extensions: Array<string> = settings[extensionsSetting];
+      if (extensions === undefined) {
+        continue;
+      }
+
+      const extensionsAreValid = Array.isArray(extensions) && extensions.every((extension: string) => {
+        return typeof extension === 'string' && /^\.[^.\s]+$/.test(extension);
+      });
+
+      if (!extensionsAreValid) {
+        fail(`"${extensionsSetting}" must be an array of extensions like [".mkv", ".mp4"]`);
+      }
+    }
+
+    if (settings.cacheDirectory !== undefined && (typeof settings.cacheDirectory !== 'string' || settings.cacheDirectory.length === 0)) {
+      fail('"cacheDirectory" must be a path');
+    }
+
+    if (settings.cacheTtl !== undefined && (typeof settings.cacheTtl !== 'number' || !(settings.cacheTtl >= 0))) {
+      fail('"cacheTtl" must be a number of hours');
+    }
+
+    if (settings.offline !== undefined && typeof settings.offline !== 'boolean') {
+      fail('"offline" must be true or false');
+    }
+
+    if (settings.credentials !== undefined) {
+      if (typeof settings.credentials !== 'object' || settings.credentials === null) {
+        fail('"credentials" must be an object like {"tvdbApiKey": "..."}');
+      }
+
+      for (const [key, value] of Object.entries(settings.credentials)) {
+        if (!['tvdbApiKey', 'tmdbApiKey'].includes(key)) {
+          fail(`unknown credential "${key}". Known credentials are tvdbApiKey, tmdbApiKey`);
+        }
+        if (typeof value !== 'string') {
+          fail(`"credentials.${key}" must be a string`);
+        }
+      }
+    }
+
+    if (settings.keyBindings !== undefined) {
+      if (typeof settings.keyBindings !== 'object' || settings.keyBindings === null) {
+        fail('"keyBindings" must be an object like {"rename": "r"}');
+      }
+
+      for (const [action, key] of Object.entries(settings.keyBindings)) {
+        if (!Object.keys(defaultKeyBindings).includes(action)) {
+          fail(`unknown key binding "${action}". Known actions are ${Object.keys(defaultKeyBindings).join(', ')}`);
+        }
+        // the space is the default of toggleSelection
+        if (typeof key !== 'string' || !/^[a-z ]$/.test(key)) {
+          fail(`"keyBindings.${action}" must be a single lowercase letter or a space`);
+        }
+      }
+    }
+  }
+
+  private validateKeyBindings(keyBindings: KeyBindings): void {
+    const actionsByKey = new Map<string, string>();
+    for (const [action, key] of Object.entries(keyBindings)) {
+      if (actionsByKey.has(key)) {
+        throw new ConfigError(`key bindings: "${action}" and "${actionsByKey.get(key)}" are both bound to '${key}'`);
+      }
+      actionsByKey.set(key, action);
+    }
+  }
+}
+
+/**
+ * The naming scheme of the configured template, with the configured replacements if there are any.
+ */
+export function getNamingScheme(settings: Settings): NamingScheme {
+  const namingScheme = resolveNamingScheme(settings.template);
+  if (settings.replacements === undefined) {
+    return namingScheme;
+  }
+
+  return {
+    template: namingScheme.template,
+    replacements: getReplacementRules(settings.replacements),
+  };
+}
+
+/**
+ * The naming scheme of movie files, with the configured replacements if there are any.
+ */
+export function getMovieNamingScheme(settings: Settings): NamingScheme {
+  return {
+    template: settings.movieTemplate,
+    replacements: settings.replacements !== undefined ? getReplacementRules(settings.replacements) : filesystemReplacements,
+  };
+}
+
+/**
+ * The options to create the configured metadata provider with.
+ */
+export function getMetadataProviderOptions(settings: Settings, refresh: boolean = false): MetadataProviderOptions {
+  return {
+    provider: settings.provider,
+    metadataFile: settings.metadataFile,
+    tvdbApiKey: settings.credentials.tvdbApiKey,
+    tmdbApiKey: settings.credentials.tmdbApiKey,
+    cache: {
+      cacheDirectory: settings.cacheDirectory,
+      ttlHours: settings.cacheTtl,
+      offline: settings.offline,
+      refresh: refresh,
+    },
+  };
+}
+
+function getReplacementRules(replacements: Array<ReplacementSetting>): Array<ReplacementRule> {
+  return replacements.map((replacement: ReplacementSetting): ReplacementRule => {
+    const escapedFind = replacement.regex
+      ? replacement.find
+      : replacement.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    return {regex: new RegExp(escapedFind, 'g'), replacement: replacement.replace};
+  });
+}
@@ -0,0 +1,225 @@
+import {Stats, promises as fsPromises} from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+import {formatEpisodeNumber} from './completeness';
+import {Settings} from './config';
+import {getEpisodeNumber, getSeasonNumber} from './episodeorder';
+import {parseFileName} from './filenameparser';
+import {LibraryScanner, MatchedSeries} from './libraryscanner';
+import {MetadataProvider} from './providers';
+import {readSeriesSidecar} from './seriessidecar';
+import {EpisodeMapping, SeasonMapping} from './types';
+
+export type DuplicateReason = 'identical' | 'same-episode';
+
+export type DuplicateFile = {
+  path: string,
+  size: number,
+  // from the file name, e.g. '1080p'. Undefined if the name doesn't say
+  resolution: string,
+  // the extension without dot, e.g. 'mkv'
+  container: string,
+  // e.g. 'Show S01E02 Title', undefined for files of unknown series
+  episode: string,
+};
+
+export type DuplicateGroup = {
+  reason: DuplicateReason,
+  // e.g. 'identical content' or the episode
+  description: string,
+  files: Array<DuplicateFile>,
+};
+
+// bytes read from the start and from the end of a file, to compare files of equal size
+const partialHashLength = 64 * 1024;
+
+/**
+ * Finds videos that are in a library more than once: files with the same content,
+ * even under different names, and files of the same episode, e.g. in two qualities
+ * or in two folders of the same series.
+ */
+export class DuplicateFinder {
+
+  private settings: Settings;
+  private libraryScanner: LibraryScanner;
+
+  constructor(settings: Settings, metadataProvider: MetadataProvider) {
+    this.settings = settings;
+    this.libraryScanner = new LibraryScanner(settings, metadataProvider);
+  }
+
+  /**
+   * Identical files first. Episodes whose files are all identical aren't listed twice.
+   */
+  public async find(libraryDirectory: string): Promise<Array<DuplicateGroup>> {
+    const filesBySeries = await this.libraryScanner.groupFilesBySeries(libraryDirectory);
+    const videoFiles = Array.from(filesBySeries.values())
+      .flat()
+      .filter((filePath: string) => {
+        return this.settings.videoFileExtensions.includes(path.extname(filePath).toLowerCase());
+      })
+      .sort();
+
+    const episodesByPath = await this.matchEpisodes(Array.from(filesBySeries.keys()).sort());
+    const files: Array<DuplicateFile> = [];
+    // one after another, a library can have more videos than files may be open at once
+    for (const filePath of videoFiles) {
+      let fileStats: Stats;
+      try {
+        fileStats = await fsPromises.stat(filePath);
+      } catch {
+        // e.g. removed since the scan or a broken link, there is nothing to compare
+        continue;
+      }
+
+      const episode = episodesByPath.get(filePath);
+      files.push({
+        path: filePath,
+        size: fileStats.size,
+        resolution: parseFileName(path.basename(filePath)).resolution,
+        container: path.extname(filePath).substring(1).toLowerCase(),
+        episode: episode !== undefined ? episode.description : undefined,
+      });
+    }
+
+    const identicalGroups = await this.findIdenticalFiles(files);
+    const episodeGroups = this.groupBy(files, (file: DuplicateFile) => {
+      const episode = episodesByPath.get(file.path);
+      return episode !== undefined ? episode.key : undefined;
+    })
+      .filter((episodeFiles: Array<DuplicateFile>) => {
+        return !identicalGroups.some((identicalGroup: DuplicateGroup) => {
+          return episodeFiles.every((file: DuplicateFile) => {
+            return identicalGroup.files.includes(file);
+          });
+        });
+      })
+      .map((episodeFiles: Array<DuplicateFile>): DuplicateGroup => {
+        return {reason: 'same-episode', description: episodeFiles[0].episode, files: episodeFiles};
+      });
+
+    return [...identicalGroups, ...episodeGroups];
+  }
+
+  // only files of equal size are hashed, reading every video completely would take ages
+  private async findIdenticalFiles(files: Array<DuplicateFile>): Promise<Array<DuplicateGroup>> {
+    const groups: Array<DuplicateGroup> = [];
+    const sameSizeGroups = this.groupBy(files, (file: DuplicateFile) => {
+      // empty files are broken downloads rather than duplicates
+      return file.size > 0 ? `${file.size}` : undefined;
+    });
+
+    for (const sameSizeFiles of sameSizeGroups) {
+      const hashes = new Map<DuplicateFile, string>();
+      for (const file of sameSizeFiles) {
+        try {
+          hashes.set(file, await this.hashPartially(file));
+        } catch {
+          // unreadable files are left out, like the files that can't be stat'ed
+        }
+      }
+
+      groups.push(...this.groupBy(sameSizeFiles, (file: DuplicateFile) => {
+        return hashes.get(file);
+      }).map((identicalFiles: Array<DuplicateFile>): DuplicateGroup => {
+        return {reason: 'identical', description: 'identical content', files: identicalFiles};
+      }));
+    }
+
+    return groups;
+  }
+
+  private async hashPartially(file: DuplicateFile): Promise<string> {
+    const fileHandle = await fsPromises.open(file.path, 'r');
+    try {
+      const length = Math.min(partialHashLength, file.size);
+      const start = Buffer.alloc(length);
+      const end = Buffer.alloc(length);
+      await fileHandle.read(start, 0, length, 0);
+      await fileHandle.read(end, 0, length, file.size - length);
+
+      return crypto.createHash('sha1').update(start).update(end).digest('hex');
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  /**
+   * The episode of every video in a folder with a remembered series. Episodes are the same
+   * across folders, if the folders remember the same series of the same provider.
+   */
+  private async matchEpisodes(seriesDirectories: Array<string>): Promise<Map<string, {key: string, description: string}>> {
+    const episodesByPath = new Map<string, {key: string, description: string}>();
+
+    // one after another, so that the provider isn't flooded with requests
+    for (const seriesDirectory of seriesDirectories) {
+      let matchedSeries: MatchedSeries;
+      try {
+        const sidecar = await readSeriesSidecar(seriesDirectory);
+        matchedSeries = sidecar !== undefined
+          ? await this.libraryScanner.matchSeries(seriesDirectory, sidecar)
+          : undefined;
+      } catch {
+        // the library scan reports such folders, they only can't be compared by episode
+        continue;
+      }
+
+      if (matchedSeries === undefined) {
+        continue;
+      }
+
+      const {seriesSettings, seriesDetails, seasonMapping} = matchedSeries;
+      const videoMappings = Object.values(seasonMapping)
+        .map((season: SeasonMapping[number]) => {
+          return season.episodeMappings;
+        })
+        .flat()
+        .filter((episodeMapping: EpisodeMapping) => {
+          return episodeMapping.value.isVideo && episodeMapping.value.episode !== undefined;
+        });
+
+      for (const episodeMapping of videoMappings) {
+        const episode = episodeMapping.value.episode;
+        const episodeNumber = formatEpisodeNumber({
+          seasonNumber: getSeasonNumber(episode, seriesSettings.order),
+          episodeNumber: getEpisodeNumber(episode, seriesSettings.order),
+        });
+
+        episodesByPath.set(episodeMapping.value.originalPath, {
+          key: `${seriesSettings.provider}/${seriesDetails.id}/${episode.id}`,
+          description: `${seriesDetails.seriesName} ${episodeNumber} ${episode.episodeName}`,
+        });
+      }
+    }
+
+    return episodesByPath;
+  }
+
+  // groups with more than one file, files without key are left out
+  private groupBy(files: Array<DuplicateFile>, getKey: (file: DuplicateFile) => string): Array<Array<DuplicateFile>> {
+    const groups = new Map<string, Array<DuplicateFile>>();
+    for (const file of files) {
+      const key = getKey(file);
+      if (key !== undefined) {
+        groups.set(key, [...(groups.get(key) || []), file]);
+      }
+    }
+
+    return Array.from(groups.values()).filter((group: Array<DuplicateFile>) => {
+      return group.length > 1;
+    });
+  }
+}
+
+// e.g. '1.4 GB'
+export function formatFileSize(size: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let unitIndex = 0;
+  let unitSize = size;
+  while (unitSize >= 1024 && unitIndex < units.length - 1) {
+    unitSize /= 1024;
+    unitIndex++;
+  }
+
+  return `${unitIndex === 0 ? unitSize : unitSize.toFixed(1)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,208 @@
+import path from 'path';
+import {EpisodeOrder, getEpisodeNumber, getSeasonNumber} from './episodeorder';
+import {FileNameInterpretation, parseFileName} from './filenameparser';
+import {MetadataProvider} from './providers';
+import {Episode, EpisodeMatch, Series} from './types';
+
+// matches below this aren't suggested at all
+const minimumConfidence = 40;
+// matches at or above this can be accepted in bulk
+export const highConfidence = 80;
+
+// titles are also searched in this language, release names are often english
+const fallbackLanguage = 'en';
+
+const titleWeight = 70;
+const airDateWeight = 50;
+const seasonWeight = 10;
+const episodeNumberWeight = 10;
+// titles shorter than this (without spaces) are found in too many names by chance
+const fullTitleLength = 8;
+// a runner-up this close makes the best match doubtful
+const ambiguityDistance = 15;
+const ambiguityPenalty = 20;
+
+type ScoredEpisode = {episode: Episode, score: number, reasons: Array<string>};
+
+/**
+ * Compares a file name with the titles (in every loaded language) and air dates of all
+ * episodes of a series, for files whose numbers are missing or don't exist.
+ */
+export class EpisodeMatcher {
+
+  private seriesDetails: Series;
+  private order: EpisodeOrder;
+  // all known titles per episode id
+  private titles = new Map<number, Array<string>>();
+
+  /**
+   * @param translations the same series in other languages, for their episode titles
+   */
+  constructor(seriesDetails: Series, translations: Array<Series>, order: EpisodeOrder) {
+    this.seriesDetails = seriesDetails;
+    this.order = order;
+    for (const series of [seriesDetails, ...translations]) {
+      for (const episode of series.episodes) {
+        const titles = this.titles.get(episode.id) || [];
+        if (episode.episodeName && !titles.includes(episode.episodeName)) {
+          titles.push(episode.episodeName);
+        }
+        this.titles.set(episode.id, titles);
+      }
+    }
+  }
+
+  /**
+   * Undefined if no episode is a likely enough match.
+   * @param seasonNumber the season of the folder, undefined for the series folder
+   */
+  public match(fileName: string, seasonNumber: number): EpisodeMatch {
+    const parsedFileName = parseFileName(fileName);
+    const seriesWords = normalizeWords(this.seriesDetails.seriesName);
+    // the name of the series isn't part of the title
+    const fileWords = normalizeWords(path.basename(fileName, path.extname(fileName))).filter((word: string) => {
+      return !seriesWords.includes(word);
+    });
+
+    const scoredEpisodes = this.seriesDetails.episodes
+      .map((episode: Episode) => {
+        return this.scoreEpisode(episode, fileWords, seasonNumber, parsedFileName.interpretations);
+      })
+      .filter((scoredEpisode: ScoredEpisode) => {
+        return scoredEpisode.score > 0;
+      })
+      .sort((scoredEpisode1: ScoredEpisode, scoredEpisode2: ScoredEpisode) => {
+        return scoredEpisode2.score - scoredEpisode1.score;
+      });
+
+    const [bestEpisode, runnerUp] = scoredEpisodes;
+    if (bestEpisode === undefined) {
+      return undefined;
+    }
+
+    const reasons = [...bestEpisode.reasons];
+    let confidence = bestEpisode.score;
+    if (runnerUp !== undefined && bestEpisode.score - runnerUp.score < ambiguityDistance) {
+      confidence -= ambiguityPenalty;
+      reasons.push(`also close: ${runnerUp.episode.episodeName}`);
+    }
+
+    if (confidence < minimumConfidence) {
+      return undefined;
+    }
+
+    return {episode: bestEpisode.episode, confidence: Math.min(confidence, 100), reasons: reasons};
+  }
+
+  private scoreEpisode(
+    episode: Episode,
+    fileWords: Array<string>,
+    seasonNumber: number,
+    interpretations: Array<FileNameInterpretation>,
+  ): ScoredEpisode {
+    const reasons: Array<string> = [];
+    let score = 0;
+
+    // the best title of all languages counts
+    const titleScores = (this.titles.get(episode.id) || [])
+      .map((title: string) => {
+        return {title: title, score: scoreTitle(normalizeWords(title), fileWords)};
+      })
+      .sort((titleScore1: {score: number}, titleScore2: {score: number}) => {
+        return titleScore2.score - titleScore1.score;
+      });
+    if (titleScores.length > 0 && titleScores[0].score > 0) {
+      score += titleScores[0].score;
+      reasons.push(`title "${titleScores[0].title}"`);
+    }
+
+    const hasAirDate = interpretations.some((interpretation: FileNameInterpretation) => {
+      return interpretation.airDate !== undefined && interpretation.airDate === episode.firstAired;
+    });
+    if (hasAirDate) {
+      score += airDateWeight;
+      reasons.push(`aired ${episode.firstAired}`);
+    }
+
+    // season and number only support a title or an air date, they alone are what didn't match
+    if (score === 0) {
+      return {episode: episode, score: 0, reasons: reasons};
+    }
+
+    if (seasonNumber !== undefined && getSeasonNumber(episode, this.order) === seasonNumber) {
+      score += seasonWeight;
+      reasons.push('season of the folder');
+    }
+
+    const hasEpisodeNumber = interpretations.some((interpretation: FileNameInterpretation) => {
+      return interpretation.episodes.includes(getEpisodeNumber(episode, this.order));
+    });
+    if (hasEpisodeNumber) {
+      score += episodeNumberWeight;
+      reasons.push('episode number');
+    }
+
+    return {episode: episode, score: score, reasons: reasons};
+  }
+}
+
+/**
+ * The episodes in the fallback language, to match release names whose titles aren't translated.
+ * Resolves to an empty list if they are in the fallback language already or can't be loaded.
+ */
+export async function getTranslatedSeries(metadataProvider: MetadataProvider, seriesId: number, language: string): Promise<Array<Series>> {
+  if (language === fallbackLanguage) {
+    return [];
+  }
+
+  try {
+    return [await metadataProvider.getSeriesWithEpisodes(seriesId, fallbackLanguage)];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lowercase words without punctuation and accents. Umlauts are the same whether
+ * they are written as 'ü', 'ue' or 'u', e.g. 'Über' and 'Ueber' are both 'uber'.
+ */
+export function normalizeWords(text: string): Array<string> {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([aou])e/g, '$1')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word: string) => {
+      return word.length > 0;
+    });
+}
+
+// e.g. 'Making of: Part 1' is 'makingofpart1'
+export function normalizeTitle(title: string): string {
+  return normalizeWords(title).join('');
+}
+
+/**
+ * The whole title in the name scores fully, otherwise the share of its words that are in the name.
+ * Less than half of the words don't count.
+ */
+function scoreTitle(titleWords: Array<string>, fileWords: Array<string>): number {
+  const title = titleWords.join('');
+  if (title.length === 0) {
+    return 0;
+  }
+
+  const coverage = fileWords.join('').includes(title)
+    ? 1
+    : titleWords.filter((word: string) => {
+      return fileWords.includes(word);
+    }).length / titleWords.length;
+
+  if (coverage < 0.5) {
+    return 0;
+  }
+
+  return Math.round(titleWeight * coverage * Math.min(1, title.length / fullTitleLength));
+}
@@ -0,0 +1,804 @@
+import path from 'path';
+import {defaultSettings} from './config';
+import {EpisodeMatcher, normalizeTitle} from './episodematcher';
+import {EpisodeOrder, getEpisodeNumber, getSeasonNumber} from './episodeorder';
+import {FileNameInterpretation, parseFileName} from './filenameparser';
+import {
+  FilenameTemplate,
+  NamingScheme,
+  TemplateValues,
+  filesystemReplacements,
+  mediaTemplateTokens,
+  namingPresets,
+} from './filenametemplate';
+import {getFileNames, getFolderNames} from './fsutils';
+import {MediaInfo, MediaProber, findTruncation, getExpectedDuration, getMediaTemplateValues} from './mediaprobe';
+import {
+  ArrayPromptOption,
+  CompanionFile,
+  Episode,
+  EpisodeMapping,
+  EpisodeMatch,
+  FolderSeasonMatch,
+  SeasonMapping,
+  Series,
+} from './types';
+
+export type EpisodeNamerOptions = {
+  namingScheme?: NamingScheme,
+  videoFileExtensions?: Array<string>,
+  companionFileExtensions?: Array<string>,
+  // e.g. 'Season {season:00}'. Episodes of flat layouts are moved into these folders
+  seasonFolder?: string,
+  // defaults to aired
+  order?: EpisodeOrder,
+  // reads the content of videos, for the media tokens and to find truncated videos.
+  // Without a prober, videos are only read if the template uses media tokens
+  mediaProber?: MediaProber,
+};
+
+// folders like 'Season 1', 'Staffel 01' or 'S01', the number is the first group
+export const seasonFolderRegex = /^(?:season|staffel|series|s)[ ._-]*(\d+)$/i;
+
+// folders of season 0, whose names contain no number
+export const specialsFolderRegex = /^(specials?|extras?|bonus|featurettes?)$/i;
+
+// titles shorter than this are too common to identify a special, like 'Pilot'
+const minimumSpecialTitleLength = 6;
+
+// tags of subtitle names that are kept when the subtitle is renamed, e.g. 'de' or 'forced'
+const companionTagRegex = /^([a-z]{2}|ger|deu|eng|fre|fra|spa|ita|jpn|german|english|forced|sdh|cc|hi|default)$/i;
+
+/**
+ * Maps the files of a series folder to the episodes of a series and generates
+ * their standardized names.
+ */
+export class EpisodeNamer {
+
+  private filenameTemplate: FilenameTemplate;
+  private seasonFolderTemplate: FilenameTemplate;
+  private videoFileExtensions: Array<string>;
+  private companionFileExtensions: Array<string>;
+  private order: EpisodeOrder;
+  private mediaProber: MediaProber;
+  // of the videos of the folders that were named, by path
+  private mediaInfos = new Map<string, MediaInfo>();
+  // the typical runtime in seconds per folder, undefined if unknown
+  private expectedDurations = new Map<string, number>();
+
+  constructor(options: EpisodeNamerOptions = {}) {
+    this.filenameTemplate = FilenameTemplate.fromNamingScheme(options.namingScheme || namingPresets.default);
+    this.videoFileExtensions = options.videoFileExtensions || defaultSettings.videoFileExtensions;
+    this.companionFileExtensions = options.companionFileExtensions || defaultSettings.companionFileExtensions;
+    this.order = options.order || 'aired';
+    this.seasonFolderTemplate = options.seasonFolder !== undefined
+      ? new FilenameTemplate(options.seasonFolder, filesystemReplacements)
+      : undefined;
+
+    const usesMediaTokens = this.filenameTemplate.tokens.some((token: string) => {
+      return mediaTemplateTokens.includes(token);
+    });
+    this.mediaProber = options.mediaProber || (usesMediaTokens ? new MediaProber() : undefined);
+  }
+
+  public generateEpisodeSelection(seriesDetails: Series, targetSeason?: number): SeasonMapping {
+    const result = {};
+    for (const episode of seriesDetails.episodes) {
+      const season = getSeasonNumber(episode, this.order);
+      if (targetSeason !== undefined && season !== targetSeason) {
+        continue;
+      }
+      if (result[season] === undefined) {
+        result[season] = {episodeMappings: []}
+      }
+
+      result[season].episodeMappings.push(this.generateEpisodeMapping(seriesDetails, episode));
+    }
+  
+    return result;
+  }
+
+  private generateEpisodeMapping(seriesDetails: Series, episode: Episode): ArrayPromptOption {
+    const episodeCount = this.countEpisodes(seriesDetails, getSeasonNumber(episode, this.order));
+    const prefixedEpisodeNumber = this.generateEpisodeNumber(getEpisodeNumber(episode, this.order), episodeCount);
+    return {
+      name: `${episode.id}`,
+      message: `E${prefixedEpisodeNumber}: ${episode.episodeName}`,
+      value: episode,
+    }
+  } 
+
+  /**
+   * @param translations the same series in other languages. Their titles are used to
+   *                     suggest episodes for videos that can't be matched by number
+   */
+  public async generateEpisodeNames(seriesDirectory: string, seriesDetails: Series, translations: Array<Series> = []): Promise<SeasonMapping> {
+    const episodeMatcher = new EpisodeMatcher(seriesDetails, translations, this.order);
+    const folders = await getFolderNames(seriesDirectory);
+    
+    const seasonRegex = /\d+/;
+    const seasonFolders = folders.map((folderName: string): FolderSeasonMatch => {
+      if (specialsFolderRegex.test(folderName)) {
+        return {folderName: folderName, season: 0};
+      }
+
+      const folderSeasonNumber = folderName.match(seasonRegex);
+      if (folderSeasonNumber === null) {
+        return undefined;
+      }
+      return {
+        folderName: folderName,
+        season: parseInt(folderSeasonNumber[0]),
+      }
+    }).filter((folderSeasonInfo: FolderSeasonMatch): boolean => {
+      return folderSeasonInfo !== undefined;
+    });
+
+    const episodeMappings = await Promise.all(seasonFolders.map((folderSeasonInfo: FolderSeasonMatch): Promise<Array<ArrayPromptOption>> => {
+      const seasonFolder = path.join(seriesDirectory, folderSeasonInfo.folderName)
+      return this.generateEpisodeNamesForSeason(seasonFolder, folderSeasonInfo.season, seriesDetails, episodeMatcher);
+    }));
+
+    const result: SeasonMapping = {};
+    for (let i = 0; i < seasonFolders.length; i++) {
+      result[seasonFolders[i].season] = {
+        folderName: seasonFolders[i].folderName,
+        episodeMappings: episodeMappings[i],
+      }
+    }
+
+    // flat layouts: episodes directly in the series folder, or in the folder of another season
+    const misplacedEpisodeMappings = [
+      ...await this.generateEpisodeNamesForSeriesFolder(seriesDirectory, seriesDetails),
+      ...Object.values(result)
+        .map((season: {episodeMappings: Array<EpisodeMapping>}) => {
+          return season.episodeMappings;
+        })
+        .flat()
+        .filter((episodeMapping: EpisodeMapping) => {
+          return episodeMapping.value.episode !== undefined
+            && getSeasonNumber(episodeMapping.value.episode, this.order) !== episodeMapping.value.seasonNumber;
+        }),
+    ];
+
+    for (const episodeMapping of misplacedEpisodeMappings) {
+      const season = getSeasonNumber(episodeMapping.value.episode, this.order);
+      const seasonFolderName = result[season] !== undefined && result[season].folderName !== undefined
+        ? result[season].folderName
+        : this.generateSeasonFolderName(seriesDetails, season);
+
+      // files in the folder of another season are only moved if there is a folder to move them to
+      const folderSeason = result[episodeMapping.value.seasonNumber];
+      if (folderSeason !== undefined) {
+        if (seasonFolderName === undefined) {
+          continue;
+        }
+
+        folderSeason.episodeMappings = folderSeason.episodeMappings.filter((seasonEpisodeMapping: EpisodeMapping) => {
+          return seasonEpisodeMapping !== episodeMapping;
+        });
+      }
+
+      if (result[season] === undefined) {
+        result[season] = {folderName: seasonFolderName, episodeMappings: []};
+      }
+
+      // files in the series folder stay where they are, if there is no folder for their season
+      const targetFolder = seasonFolderName !== undefined
+        ? path.join(seriesDirectory, seasonFolderName)
+        : seriesDirectory;
+
+      result[season].episodeMappings.push(this.moveEpisodeMapping(episodeMapping, targetFolder));
+      result[season].episodeMappings.sort(this.sortEpisodeMappings);
+    }
+
+    return result;
+  }
+
+  /**
+   * Moves the new name of a file into another folder, e.g. from the series folder
+   * into its season folder.
+   */
+  public moveEpisodeMapping(episodeMapping: EpisodeMapping, targetFolder: string): EpisodeMapping {
+    const fileName = path.basename(episodeMapping.value.originalPath);
+    const updatedFileName = path.basename(episodeMapping.value.updatedPath);
+    const updatedPath = path.join(targetFolder, updatedFileName);
+    const isMoved = path.dirname(episodeMapping.value.originalPath) !== targetFolder;
+    const episodeNumbers = episodeMapping.value.episodeNumber.split('-');
+
+    const movedEpisodeMapping = {
+      ...episodeMapping,
+      message: `E${episodeNumbers.join('-E')}: ${fileName} > ${isMoved ? `${path.basename(targetFolder)}/` : ''}${updatedFileName}`,
+      value: {
+        ...episodeMapping.value,
+        updatedPath: updatedPath,
+        rename: episodeMapping.value.originalPath !== updatedPath,
+        seasonNumber: getSeasonNumber(episodeMapping.value.episode, this.order),
+        seasonFolder: targetFolder,
+      },
+    };
+
+    return this.renameCompanions(movedEpisodeMapping, episodeMapping.value.companions);
+  }
+
+  /**
+   * Only video files whose names contain the season and that match an episode are
+   * picked up, the series folder may contain all kinds of other files.
+   */
+  private async generateEpisodeNamesForSeriesFolder(seriesDirectory: string, seriesDetails: Series): Promise<Array<EpisodeMapping>> {
+    const episodeMappings = await this.generateEpisodeNamesForFolder(seriesDirectory, undefined, seriesDetails, []);
+    return episodeMappings.filter((episodeMapping: EpisodeMapping) => {
+      return episodeMapping.value.episode !== undefined;
+    });
+  }
+
+  // undefined, if no folders should be created for flat layouts
+  private generateSeasonFolderName(seriesDetails: Series, season: number): string {
+    if (this.seasonFolderTemplate === undefined) {
+      return undefined;
+    }
+
+    return this.seasonFolderTemplate.render({
+      series: seriesDetails.seriesName,
+      seriesId: seriesDetails.id,
+      year: seriesDetails.firstAired ? parseInt(seriesDetails.firstAired.substring(0, 4)) : undefined,
+      season: season,
+    });
+  }
+
+  private async generateEpisodeNamesForSeason(
+    seasonFolder: string,
+    season: number,
+    seriesDetails: Series,
+    episodeMatcher: EpisodeMatcher,
+  ): Promise<Array<EpisodeMapping>> {
+    const episodesInSeason = this.getEpisodesInSeason(seriesDetails, season);
+    const episodeMappings = await this.generateEpisodeNamesForFolder(seasonFolder, season, seriesDetails, episodesInSeason, episodeMatcher);
+    return episodeMappings.sort(this.sortEpisodeMappings);
+  }
+
+  /**
+   * Companion files are not listed on their own, but as part of their video.
+   * Without a matcher, nothing is suggested for unmatched videos.
+   */
+  private async generateEpisodeNamesForFolder(
+    folder: string,
+    season: number,
+    seriesDetails: Series,
+    episodesInSeason: Array<Episode>,
+    episodeMatcher?: EpisodeMatcher,
+    onlyVideoFileNames?: Array<string>,
+  ): Promise<Array<EpisodeMapping>> {
+    // the other videos are left out, but all companions are kept, as they can belong to any video
+    const fileNames = (await getFileNames(folder)).filter((fileName: string) => {
+      return onlyVideoFileNames === undefined
+        || !this.videoFileExtensions.includes(path.extname(fileName).toLowerCase())
+        || onlyVideoFileNames.includes(fileName);
+    });
+    const videoFileNames = fileNames.filter((fileName: string) => {
+      return this.videoFileExtensions.includes(path.extname(fileName).toLowerCase());
+    });
+    const companionFileNames = fileNames.filter((fileName: string) => {
+      return this.companionFileExtensions.includes(path.extname(fileName).toLowerCase());
+    });
+
+    await this.probeVideos(folder, season, seriesDetails, videoFileNames);
+
+    const companionsByVideo = this.groupCompanions(folder, videoFileNames, companionFileNames);
+    const groupedCompanionPaths = new Set(Array.from(companionsByVideo.values())
+      .flat()
+      .map((companion: CompanionFile) => {
+        return companion.originalPath;
+      }));
+
+    return fileNames
+      .filter((fileName: string) => {
+        return !groupedCompanionPaths.has(path.join(folder, fileName));
+      })
+      .map((fileName: string) => {
+        const episodeMapping = this.generateEpisodeName(seriesDetails, folder, season, fileName, episodesInSeason, undefined, episodeMatcher);
+        return this.renameCompanions(episodeMapping, companionsByVideo.get(fileName) || []);
+      });
+  }
+
+  /**
+   * Names videos outside of a series folder, e.g. downloads, whose season is only known
+   * from their names. The new paths are in the same folder.
+   * @param videoFileNames only these videos of the folder, e.g. one download among others.
+   * Their companions are found among all files of the folder
+   */
+  public async generateEpisodeNamesForDownload(
+    folder: string,
+    videoFileNames: Array<string>,
+    seriesDetails: Series,
+    translations: Array<Series> = [],
+  ): Promise<Array<EpisodeMapping>> {
+    const episodeMatcher = new EpisodeMatcher(seriesDetails, translations, this.order);
+    return this.generateEpisodeNamesForFolder(folder, undefined, seriesDetails, [], episodeMatcher, videoFileNames);
+  }
+
+  /**
+   * Specials vary too much in length to compare them with the runtime of the series.
+   */
+  private async probeVideos(folder: string, season: number, seriesDetails: Series, videoFileNames: Array<string>): Promise<void> {
+    if (this.mediaProber === undefined) {
+      return;
+    }
+
+    const mediaInfos: Array<MediaInfo> = [];
+    // one after another, a folder of a network share would be flooded otherwise
+    for (const videoFileName of videoFileNames) {
+      const mediaInfo = await this.mediaProber.probe(path.join(folder, videoFileName));
+      this.mediaInfos.set(path.join(folder, videoFileName), mediaInfo);
+      mediaInfos.push(mediaInfo);
+    }
+
+    this.expectedDurations.set(folder, season !== 0 ? getExpectedDuration(seriesDetails.runtime, mediaInfos) : undefined);
+  }
+
+  /**
+   * A companion belongs to the video whose name it starts with, like `Show.e03.de.forced.srt`
+   * to `Show.e03.mkv`. Otherwise it belongs to the only video with the same episode in its name,
+   * then its language and forced/SDH tags are kept, e.g. `Show.S01E03.German.forced.srt`.
+   */
+  private groupCompanions(folder: string, videoFileNames: Array<string>, companionFileNames: Array<string>): Map<string, Array<CompanionFile>> {
+    const companionsByVideo = new Map<string, Array<CompanionFile>>();
+    const addCompanion = (videoFileName: string, companionFileName: string, suffix: string): void => {
+      const companions = companionsByVideo.get(videoFileName) || [];
+      const originalPath = path.join(folder, companionFileName);
+      companions.push({originalPath: originalPath, updatedPath: originalPath, rename: false, suffix: suffix});
+      companionsByVideo.set(videoFileName, companions);
+    };
+
+    const videoStems = videoFileNames.map((videoFileName: string) => {
+      return {videoFileName: videoFileName, stem: path.basename(videoFileName, path.extname(videoFileName))};
+    });
+
+    for (const companionFileName of companionFileNames) {
+      // the longest name wins, for videos like `Show.e03.mkv` and `Show.e03.extended.mkv`
+      const prefixMatch = videoStems
+        .filter(({stem}: {stem: string}) => {
+          return companionFileName.startsWith(stem) && ['.', '-'].includes(companionFileName.charAt(stem.length));
+        })
+        .sort((videoStem1: {stem: string}, videoStem2: {stem: string}) => {
+          return videoStem2.stem.length - videoStem1.stem.length;
+        })[0];
+
+      if (prefixMatch !== undefined) {
+        addCompanion(prefixMatch.videoFileName, companionFileName, companionFileName.substring(prefixMatch.stem.length));
+        continue;
+      }
+
+      const companionEpisode = this.describeEpisode(companionFileName);
+      const episodeMatches = videoFileNames.filter((videoFileName: string) => {
+        return companionEpisode !== undefined && this.describeEpisode(videoFileName) === companionEpisode;
+      });
+
+      if (episodeMatches.length === 1) {
+        addCompanion(episodeMatches[0], companionFileName, this.generateCompanionSuffix(companionFileName));
+      }
+    }
+
+    return companionsByVideo;
+  }
+
+  // e.g. '1/3,4' for season 1 episodes 3 and 4, undefined if the name has no episode
+  private describeEpisode(fileName: string): string {
+    const interpretation = parseFileName(fileName).interpretations[0];
+    if (interpretation === undefined || interpretation.episodes.length === 0) {
+      return undefined;
+    }
+
+    return `${interpretation.season}/${interpretation.episodes.join(',')}`;
+  }
+
+  // the language, forced and SDH tags at the end of the name, followed by the extension
+  private generateCompanionSuffix(companionFileName: string): string {
+    const extension = path.extname(companionFileName);
+    const nameParts = path.basename(companionFileName, extension).split('.');
+    const tags: Array<string> = [];
+    while (nameParts.length > 1 && companionTagRegex.test(nameParts[nameParts.length - 1])) {
+      tags.unshift(nameParts.pop());
+    }
+
+    const tagSuffix = tags
+      .map((tag: string) => {
+        return `.${tag}`;
+      })
+      .join('');
+
+    return `${tagSuffix}${extension}`;
+  }
+
+  /**
+   * Leaves the given files (the video or its companions) with their current names,
+   * e.g. to resolve conflicts.
+   */
+  public keepOriginalNames(episodeMapping: EpisodeMapping, filePaths: Set<string>): EpisodeMapping {
+    const keepVideoName = filePaths.has(episodeMapping.value.originalPath);
+    const fileName = path.basename(episodeMapping.value.originalPath);
+
+    return {
+      ...episodeMapping,
+      message: keepVideoName ? `--- ${fileName} (kept)` : episodeMapping.message,
+      value: {
+        ...episodeMapping.value,
+        updatedPath: keepVideoName ? episodeMapping.value.originalPath : episodeMapping.value.updatedPath,
+        rename: keepVideoName ? false : episodeMapping.value.rename,
+        companions: episodeMapping.value.companions.map((companion: CompanionFile): CompanionFile => {
+          if (!keepVideoName && !filePaths.has(companion.originalPath)) {
+            return companion;
+          }
+
+          return {...companion, updatedPath: companion.originalPath, rename: false};
+        }),
+      },
+    };
+  }
+
+  /**
+   * Gives the companions of a video the new name of the video, followed by their suffix.
+   * Companions of videos without episode keep their names.
+   */
+  public renameCompanions(episodeMapping: EpisodeMapping, companions: Array<CompanionFile>): EpisodeMapping {
+    const updatedPath = episodeMapping.value.updatedPath;
+    const updatedStem = path.join(path.dirname(updatedPath), path.basename(updatedPath, path.extname(updatedPath)));
+
+    return {
+      ...episodeMapping,
+      value: {
+        ...episodeMapping.value,
+        companions: companions.map((companion: CompanionFile): CompanionFile => {
+          const updatedCompanionPath = episodeMapping.value.episode !== undefined
+            ? `${updatedStem}${companion.suffix}`
+            : companion.originalPath;
+
+          return {
+            ...companion,
+            updatedPath: updatedCompanionPath,
+            rename: companion.originalPath !== updatedCompanionPath,
+          };
+        }),
+      },
+    };
+  }
+
+  // an arrow function, so that it can be passed to sort()
+  public sortEpisodeMappings = (episodeMapping1: EpisodeMapping, episodeMapping2: EpisodeMapping): number => {
+    const episode1 = episodeMapping1.value.episode !== undefined
+      ? getEpisodeNumber(episodeMapping1.value.episode, this.order)
+      : undefined;
+
+    const episode2 = episodeMapping2.value.episode !== undefined
+      ? getEpisodeNumber(episodeMapping2.value.episode, this.order)
+      : undefined;
+      
+    if (episode1 === episode2) {
+      return 0;
+    }
+    
+    if (episode1 === undefined) {
+      return 1
+    }
+
+    if (episode2 === undefined) {
+      return -1;
+    }
+
+    return episode1 - episode2;
+  }
+
+  public generateEpisodeName(
+    seriesDetails: Series,
+    seasonFolder: string,
+    seasonNumber: number,
+    fileName: string,
+    episodesInSeason: Array<Episode>,
+    forceEpisodeNumbers?: Array<number>,
+    episodeMatcher?: EpisodeMatcher,
+  ): EpisodeMapping {
+    const fileExtension = path.extname(fileName).toLowerCase();
+    const fileIsVideo = this.videoFileExtensions.includes(fileExtension);
+    if (!fileIsVideo) {
+      return this.unchangedEpisodeMapping(seasonFolder, seasonNumber, fileName, false);
+    }
+
+    const episodes = forceEpisodeNumbers !== undefined
+      ? this.findEpisodesByNumber(seriesDetails, seasonNumber, forceEpisodeNumbers)
+      : this.findEpisodes(seriesDetails, seasonNumber, fileName);
+
+    if (episodes.length === 0) {
+      const unchangedEpisodeMapping = this.unchangedEpisodeMapping(seasonFolder, seasonNumber, fileName, true);
+      const suggestion = episodeMatcher !== undefined ? episodeMatcher.match(fileName, seasonNumber) : undefined;
+      return suggestion !== undefined
+        ? this.suggestEpisode(seriesDetails, unchangedEpisodeMapping, suggestion)
+        : unchangedEpisodeMapping;
+    }
+
+    return this.createEpisodeMapping(seriesDetails, seasonFolder, seasonNumber, fileName, episodes, episodesInSeason);
+  }
+
+  /**
+   * Unmatched videos keep their names until their suggestion is accepted, the
+   * suggested name is only shown.
+   */
+  private suggestEpisode(seriesDetails: Series, episodeMapping: EpisodeMapping, suggestion: EpisodeMatch): EpisodeMapping {
+    const fileName = path.basename(episodeMapping.value.originalPath);
+    const suggestedEpisodeMapping = this.createEpisodeMapping(
+      seriesDetails,
+      episodeMapping.value.seasonFolder,
+      episodeMapping.value.seasonNumber,
+      fileName,
+      [suggestion.episode],
+      this.getEpisodesInSeason(seriesDetails, episodeMapping.value.seasonNumber),
+    );
+
+    return {
+      ...episodeMapping,
+      message: `?${suggestion.confidence}%: ${fileName} > ${suggestedEpisodeMapping.name} (${suggestion.reasons.join(', ')})`,
+      value: {
+        ...episodeMapping.value,
+        suggestion: suggestion,
+      },
+    };
+  }
+
+  /**
+   * Renames a video to the episode that was suggested for it, together with its companions.
+   */
+  public acceptSuggestion(seriesDetails: Series, episodeMapping: EpisodeMapping): EpisodeMapping {
+    const acceptedEpisodeMapping = this.createEpisodeMapping(
+      seriesDetails,
+      episodeMapping.value.seasonFolder,
+      episodeMapping.value.seasonNumber,
+      path.basename(episodeMapping.value.originalPath),
+      [episodeMapping.value.suggestion.episode],
+      this.getEpisodesInSeason(seriesDetails, episodeMapping.value.seasonNumber),
+    );
+
+    return this.renameCompanions(acceptedEpisodeMapping, episodeMapping.value.companions);
+  }
+
+  private getEpisodesInSeason(seriesDetails: Series, season: number): Array<Episode> {
+    return seriesDetails.episodes.filter((episode: Episode) => {
+      return getSeasonNumber(episode, this.order) === season;
+    });
+  }
+
+  private createEpisodeMapping(
+    seriesDetails: Series,
+    seasonFolder: string,
+    seasonNumber: number,
+    fileName: string,
+    episodes: Array<Episode>,
+    episodesInSeason: Array<Episode>,
+  ): EpisodeMapping {
+    const fileExtension = path.extname(fileName).toLowerCase();
+    // differs from the season of the folder, if the file name says so
+    const episodeSeason = getSeasonNumber(episodes[0], this.order);
+    const episodeCount = episodeSeason === seasonNumber && this.order !== 'absolute'
+      ? episodesInSeason.length
+      : this.countEpisodes(seriesDetails, episodeSeason);
+
+    const prefixedEpisodeNumbers = episodes.map((episode: Episode) => {
+      return this.generateEpisodeNumber(getEpisodeNumber(episode, this.order), episodeCount);
+    });
+    const mediaInfo = this.mediaInfos.get(path.join(seasonFolder, fileName));
+    const sanatizedName = this.generateEpisodeFileName(fileExtension, seriesDetails, episodes, episodeCount, mediaInfo);
+    return {
+      name: sanatizedName,
+      message: `E${prefixedEpisodeNumbers.join('-E')}: ${fileName} > ${sanatizedName}`,
+      value: {
+        originalPath: path.join(seasonFolder, fileName),
+        updatedPath: path.join(seasonFolder, sanatizedName),
+        episode: episodes[0],
+        episodes: episodes,
+        rename: fileName !== sanatizedName,
+        isVideo: true,
+        episodeNumber: prefixedEpisodeNumbers.join('-'),
+        seasonNumber: seasonNumber,
+        seasonFolder: seasonFolder,
+        companions: [],
+        mediaInfo: mediaInfo,
+        truncation: findTruncation(mediaInfo, this.expectedDurations.get(seasonFolder)),
+      }
+    }
+  }
+
+  /**
+   * The episodes of the first interpretation of the file name that fits the series.
+   * Numbers that aren't episodes are ignored, as long as one of them is.
+   */
+  private findEpisodes(seriesDetails: Series, seasonNumber: number, fileName: string): Array<Episode> {
+    const parsedFileName = parseFileName(fileName);
+    if (seasonNumber === 0 || parsedFileName.season === 0) {
+      const special = this.findSpecial(seriesDetails, fileName, parsedFileName.interpretations);
+      if (special !== undefined) {
+        return [special];
+      }
+    }
+
+    for (const interpretation of parsedFileName.interpretations) {
+      const episodes = this.findInterpretedEpisodes(seriesDetails, seasonNumber, interpretation);
+      if (episodes.length > 0) {
+        return episodes;
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Specials are numbered differently almost everywhere, so their air date and title
+   * are more reliable than the number in the file name. The longest matching title wins.
+   */
+  private findSpecial(seriesDetails: Series, fileName: string, interpretations: Array<FileNameInterpretation>): Episode {
+    const specials = seriesDetails.episodes.filter((episode: Episode) => {
+      return getSeasonNumber(episode, this.order) === 0;
+    });
+
+    const airDates = interpretations.map((interpretation: FileNameInterpretation) => {
+      return interpretation.airDate;
+    });
+    const airedSpecials = specials.filter((special: Episode) => {
+      return airDates.includes(special.firstAired);
+    });
+
+    // several specials on the same day are told apart by their titles
+    if (airedSpecials.length === 1) {
+      return airedSpecials[0];
+    }
+
+    const normalizedFileName = normalizeTitle(path.basename(fileName, path.extname(fileName)));
+    return (airedSpecials.length > 0 ? airedSpecials : specials)
+      .filter((special: Episode) => {
+        const normalizedTitle = normalizeTitle(special.episodeName || '');
+        return normalizedTitle.length >= minimumSpecialTitleLength && normalizedFileName.includes(normalizedTitle);
+      })
+      .sort((special1: Episode, special2: Episode) => {
+        return normalizeTitle(special2.episodeName).length - normalizeTitle(special1.episodeName).length;
+      })[0];
+  }
+
+  private findInterpretedEpisodes(seriesDetails: Series, seasonNumber: number, interpretation: FileNameInterpretation): Array<Episode> {
+    if (interpretation.airDate !== undefined) {
+      // several episodes can air on the same day, those of the folder's season are preferred
+      const airedEpisodes = seriesDetails.episodes
+        .filter((episode: Episode) => {
+          return episode.firstAired === interpretation.airDate;
+        })
+        .sort((episode1: Episode, episode2: Episode) => {
+          return Number(getSeasonNumber(episode2, this.order) === seasonNumber) - Number(getSeasonNumber(episode1, this.order) === seasonNumber);
+        });
+
+      return airedEpisodes.slice(0, 1);
+    }
+
+    // a season in the file name wins over the season of the folder
+    const season = interpretation.season !== undefined ? interpretation.season : seasonNumber;
+    return this.findEpisodesByNumber(seriesDetails, season, interpretation.episodes);
+  }
+
+  // absolute numbers are unique over all seasons, so the season doesn't matter for them
+  private findEpisodesByNumber(seriesDetails: Series, season: number, episodeNumbers: Array<number>): Array<Episode> {
+    return episodeNumbers
+      .map((episodeNumber: number) => {
+        return seriesDetails.episodes.find((episode: Episode) => {
+          return (this.order === 'absolute' || getSeasonNumber(episode, this.order) === season)
+            && getEpisodeNumber(episode, this.order) === episodeNumber;
+        });
+      })
+      .filter((episode: Episode) => {
+        return episode !== undefined;
+      });
+  }
+
+  // absolute numbers count through all seasons, so their width depends on all episodes
+  private countEpisodes(seriesDetails: Series, season: number): number {
+    return seriesDetails.episodes.filter((episode: Episode) => {
+      return this.order === 'absolute'
+        ? typeof episode.absoluteNumber === 'number'
+        : getSeasonNumber(episode, this.order) === season;
+    }).length;
+  }
+
+  private generateEpisodeNumber(episodeNumber: number, episodesInSeason: number) {
+    if (episodesInSeason < 100) {
+      return this.twoZero(episodeNumber);
+    }
+    return this.threeZero(episodeNumber);
+  }
+
+  private unchangedEpisodeMapping(seasonFolder: string, seasonNumber: number, fileName: string, isVideo: boolean): EpisodeMapping {
+    const mediaInfo = isVideo ? this.mediaInfos.get(path.join(seasonFolder, fileName)) : undefined;
+    return {
+      name: fileName,
+      message: `--- ${fileName}`,
+      value: {
+        originalPath: path.join(seasonFolder, fileName),
+        updatedPath: path.join(seasonFolder, fileName),
+        episode: undefined,
+        episodes: [],
+        rename: false,
+        isVideo: isVideo,
+        episodeNumber: undefined,
+        seasonNumber: seasonNumber,
+        seasonFolder: seasonFolder,
+        companions: [],
+        mediaInfo: mediaInfo,
+        truncation: findTruncation(mediaInfo, this.expectedDurations.get(seasonFolder)),
+      }
+    }
+  }
+
+  /**
+   * @param episodes several episodes for multi-episode files. Their numbers are rendered
+   *                 as a range and their titles are joined, e.g. `S01E01-E02.Title1 & Title2`
+   * @param mediaInfo the content of the video, for the media tokens
+   */
+  public generateEpisodeFileName(
+    fileExtension: string,
+    seriesDetails: Series,
+    episodes: Array<Episode>,
+    episodesInSeason: number,
+    mediaInfo?: MediaInfo,
+  ): string {
+    const episode = episodes[0];
+    // a range is only rendered if every episode of the file has a number
+    const numbers = (getNumber: (fileEpisode: Episode) => number): number | Array<number> => {
+      const fileNumbers = episodes.map(getNumber);
+      if (fileNumbers.length === 1) {
+        return fileNumbers[0];
+      }
+
+      return fileNumbers.includes(undefined) ? undefined : fileNumbers;
+    };
+
+    const values: TemplateValues = {
+      series: seriesDetails.seriesName,
+      seriesId: seriesDetails.id,
+      year: seriesDetails.firstAired ? parseInt(seriesDetails.firstAired.substring(0, 4)) : undefined,
+      title: episodes
+        .map((fileEpisode: Episode) => {
+          return fileEpisode.episodeName;
+        })
+        .join(' & '),
+      season: getSeasonNumber(episode, this.order),
+      episode: numbers((fileEpisode: Episode) => {
+        return getEpisodeNumber(fileEpisode, this.order);
+      }),
+      absolute: numbers((fileEpisode: Episode) => {
+        return fileEpisode.absoluteNumber;
+      }),
+      dvdSeason: episode.dvdSeason,
+      dvdEpisode: numbers((fileEpisode: Episode) => {
+        return fileEpisode.dvdEpisodeNumber;
+      }),
+      airdate: episode.firstAired,
+      imdb: episode.imdbId,
+      productionCode: episode.productionCode,
+      id: episode.id,
+      ext: fileExtension,
+      ...getMediaTemplateValues(mediaInfo),
+    };
+
+    // seasons with 100 or more episodes get (at least) 3 digit episode numbers
+    return this.filenameTemplate.render(values, {episode: `${episodesInSeason}`.length});
+  }
+
+  private twoZero(input: number): string {
+    if (input < 10) {
+      return `0${input}`;
+    }
+
+    return `${input}`;
+  }
+
+  private threeZero(input: number): string {
+    if (input < 100) {
+      return `0${this.twoZero(input)}`;
+    }
+
+    return `${input}`;
+  }
+}
@@ -0,0 +1,37 @@
+import {Episode} from './types';
+
+/**
+ * How episodes are numbered, both when files are matched and when they are named.
+ * - aired: the broadcast order
+ * - dvd: the order of the DVD release. Episodes without DVD numbers keep their aired numbers
+ * - absolute: one continuous count over all seasons, e.g. for anime. Seasons and specials keep their aired numbers
+ */
+export type EpisodeOrder = 'aired' | 'dvd' | 'absolute';
+
+export const episodeOrders: Array<EpisodeOrder> = ['aired', 'dvd', 'absolute'];
+
+export function getSeasonNumber(episode: Episode, order: EpisodeOrder): number {
+  if (order === 'dvd' && hasDvdNumbers(episode)) {
+    return episode.dvdSeason;
+  }
+
+  return episode.airedSeason;
+}
+
+export function getEpisodeNumber(episode: Episode, order: EpisodeOrder): number {
+  if (order === 'dvd' && hasDvdNumbers(episode)) {
+    return episode.dvdEpisodeNumber;
+  }
+
+  // specials are not part of the absolute count
+  if (order === 'absolute' && episode.airedSeason !== 0) {
+    return episode.absoluteNumber;
+  }
+
+  return episode.airedEpisodeNumber;
+}
+
+// tvdb delivers null for missing numbers
+function hasDvdNumbers(episode: Episode): boolean {
+  return typeof episode.dvdSeason === 'number' && typeof episode.dvdEpisodeNumber === 'number';
+}
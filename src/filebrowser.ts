@@ -1,8 +1,74 @@
-import {promises as fsPromises, rename} from 'fs';
-import {Select, Input, Confirm} from 'enquirer/lib/prompts';
+import {Select, Input, Confirm, MultiSelect} from 'enquirer/lib/prompts';
 import path from 'path';
-import rimraf from 'rimraf';
-import TVDB from 'node-tvdb';
+import {
+  CompletenessExportFormat,
+  EpisodeCompleteness,
+  SeasonCompleteness,
+  SeriesCompleteness,
+  formatEpisodeNumber,
+} from './completeness';
+import {
+  KeyBindingAction,
+  KeyBindings,
+  Settings,
+  defaultSettings,
+  getMetadataProviderOptions,
+  getMovieNamingScheme,
+  getNamingScheme,
+} from './config';
+import {DuplicateFile, DuplicateFinder, DuplicateGroup, formatFileSize} from './duplicatefinder';
+import {getTranslatedSeries, highConfidence} from './episodematcher';
+import {EpisodeNamer} from './episodenamer';
+import {getEpisodeNumber, getSeasonNumber} from './episodeorder';
+import {parseMovieName} from './filenameparser';
+import {
+  filterAsync,
+  getAllFilesInFolder,
+  getFileNames,
+  getFolderNames,
+  isFolder,
+  parseNamePattern,
+  pathExists,
+  readFolder,
+} from './fsutils';
+import {Journal, journalFolderName} from './journal';
+import {LibraryReport, LibraryReportFormat, LibrarySeries} from './libraryreport';
+import {LibraryScanner} from './libraryscanner';
+import {
+  LibrarySorter,
+  SeriesCandidate,
+  SortPlan,
+  UnsortedFile,
+  formatSeriesCandidate,
+  formatSortPlans,
+  getSeriesCandidate,
+} from './librarysorter';
+import {MediaProber, describeMediaInfo} from './mediaprobe';
+import {MovieFolder, MovieNamer, formatMovie} from './movienamer';
+import {
+  PatternRenameScope,
+  formatPatternMatches,
+  formatPatternRenames,
+  getPatternRenameEntries,
+  getPatternRenames,
+  parseFindPattern,
+  planPatternRename,
+  validateReplacement,
+} from './patternrename';
+import {CachingProvider, MetadataProvider, createMetadataProvider} from './providers';
+import {PlannedRename, RenamePlan, RenamePlanEntry, RenamePlanFormat} from './renameplan';
+import {ReviewItem, ReviewQueue, toolFileNames} from './reviewqueue';
+import {SeriesSidecar, applySeriesSidecar, readSeriesSidecar, seriesSidecarFileName, writeSeriesSidecar} from './seriessidecar';
+import {
+  ArrayPromptOption,
+  CompanionFile,
+  Episode,
+  EpisodeMapping,
+  Movie,
+  SeasonMapping,
+  Series,
+  SeriesLanguage,
+} from './types';
 
 type KeyPressData = {
   sequence: string,
@@ -12,110 +78,37 @@ type KeyPressData = {
   shift: boolean,
 };
 
-type SeriesLanguage = {
-  id: number,
-  abbreviation: string,
-  name: string,
-  englishName: string,
-}
-
-type Episode = {
-  id: number,
-  airedSeason: number,
-  airedSeasonID: number,
-  airedEpisodeNumber: number,
-  episodeName: string,
-  firstAired: string,
-  overview: string,
-  productionCode: string,
-  showUrl: string,
-  lastUpdated: number,
-  dvdDiscid: string,
-  dvdSeason: number,
-  dvdEpisodeNumber: number
-  dvdChapter: number,
-  absoluteNumber: number,
-  filename: string,
-  seriesId: number,
-  lastUpdatedBy: number,
-  thumbAuthor: number,
-  thumbAdded: string,
-  thumbWidth: string,
-  thumbHeight: string,
-  imdbId: string,
-  siteRating: number,
-  siteRatingCount: number
-}
-
-type Series = {
-  aliases: Array<string>,
-  banner: string,
-  firsAired: string,
-  id: number,
-  network: string,
-  overview: string,
-  seriesName: string,
-  slug: string,
-  status: string,
-  episodes: Array<Episode>
-}
-
-type ArrayPromptOption = {
-  name: string,
-  message: string,
-  value: any,
-  disabled?: boolean,
-}
-
-type FolderSeasonMatch = {
-  folderName: string,
-  season: number,
-}
-
-interface EpisodeMapping extends ArrayPromptOption {
-  value: {
-    originalPath: string,
-    updatedPath: string,
-    rename: boolean,
-    episode: Episode,
-    episodeNumber: string,
-    seasonNumber: number,
-    seasonFolder: string,
-  }
-}
-
-interface SeasonMapping {
-  [season: number]: {
-    folderName?: string,
-    episodeMappings: Array<EpisodeMapping>
-  }
-}
-
-const tvdb = new TVDB(process.env.TVDB_API_KEY);
+export type FileBrowserOptions = {
+  // run the standardize flow up to the rename preview, but only print the plan
+  dryRun?: boolean,
+  // defaults to tvdb
+  metadataProvider?: MetadataProvider,
+  // defaults to the built-in default settings
+  settings?: Settings,
+};
 
-const videoFileExtensions = ['.mp4', '.mkv', '.avi'];
-const episodeRegexes = [
-  {regex: /[eE]\d+/, numberStart: 1},
-  {regex: /[xX]\d+/, numberStart: 1},
-  {regex: /\d+/, numberStart: 0}
+// in the order they are shown in the footer of the folder selection
+const folderSelectionActions: Array<{action: KeyBindingAction, label: string}> = [
+  {action: 'toggleSelection', label: 'Select'},
+  {action: 'selectAll', label: 'All'},
+  {action: 'selectPattern', label: 'Glob/regex select'},
+  {action: 'rename', label: 'Rename'},
+  {action: 'bulkRename', label: 'Bulk rename'},
+  {action: 'createFolder', label: 'Create folder'},
+  {action: 'delete', label: 'Delete'},
+  {action: 'move', label: 'Move'},
+  {action: 'update', label: 'Update'},
+  {action: 'hoist', label: 'Hoist files'},
+  {action: 'purge', label: 'Purge non-videos'},
+  {action: 'standardize', label: 'Standardize names'},
+  {action: 'movie', label: 'Movie names'},
+  {action: 'scan', label: 'Library scan'},
+  {action: 'duplicates', label: 'Find duplicates'},
+  {action: 'sortIntoLibrary', label: 'Sort into library'},
+  {action: 'review', label: 'Review queue'},
+  {action: 'undo', label: 'undo'},
+  {action: 'exit', label: 'Exit'},
 ];
-const episodeReplaces = [
-  {regex: /ä/g, replacement: 'ae'},
-  {regex: /ö/g, replacement: 'oe'},
-  {regex: /ü/g, replacement: 'ue'},
-  {regex: /ß/g, replacement: 'ss'},
-  {regex: /Ä/g, replacement: 'AE'},
-  {regex: /Ö/g, replacement: 'OE'},
-  {regex: /Ü/g, replacement: 'UE'},
-  {regex: /\?/g, replacement: ''},
-  {regex: /,/g, replacement: ''},
-  {regex: /: /g, replacement: '-'},
-  {regex: /:/g, replacement: '-'},
-  {regex: /"/g, replacement: '\''},
-  {regex: / /g, replacement: '.'},
-  {regex: /\//g, replacement: '_'},
-  {regex: /\t/g, replacement: ''},
-]
 
 export class FileBrowser {
 
@@ -124,7 +117,12 @@ export class FileBrowser {
   private highlightedFolder: string = '..';
   private currentPrompt:
     'folder-selection'
+    | 'select-pattern'
     | 'rename'
+    | 'pattern-scope'
+    | 'pattern-find'
+    | 'pattern-replace'
+    | 'pattern-preview'
     | 'create-folder'
     | 'delete-folder'
     | 'series-language'
@@ -132,23 +130,50 @@ export class FileBrowser {
     | 'series-suggestions'
     | 'episode-renames'
     | 'assign-episode'
+    | 'rename-preview'
+    | 'export-plan'
+    | 'completeness'
+    | 'export-missing-episodes'
+    | 'movie-name'
+    | 'movie-suggestions'
+    | 'movie-preview'
+    | 'scanning'
+    | 'library-report'
+    | 'export-report'
+    | 'duplicates'
+    | 'resolve-duplicates'
+    | 'move-duplicates'
+    | 'sort-library'
+    | 'sort-preview'
+    | 'review-queue'
+    | 'review-item'
+    | 'review-search'
     | 'move-folder'
     | 'non-video-purge'
-    | 'hoist-files';
+    | 'hoist-files'
+    | 'undo';
 
   private filesPrompt: Select;
   private confirmDeletePrompt: Confirm;
   private confirmHoistPrompt: Confirm;
   private moveFolderPrompt: Select;
   private confirmPurgePrompt: Confirm;
+  private confirmUndoPrompt: Confirm;
   private seriesLanguagePrompt: Select;
   private seriesNamePrompt: Input;
   private seriesSelectionPrompt: Select;
   private episodeRenamePrompt: Select;
-  private episodeAssignPrompt: Select;
+  private episodeAssignPrompt: MultiSelect;
+  private renamePreviewPrompt: Select;
+  private libraryReportPrompt: Select;
+  private completenessPrompt: Select;
+
+  // absolute paths of the selected entries of the current directory
+  private selectedPaths = new Set<string>();
 
-  private currentFolderToMove: string;
-  private currentMoveTarget: string;
+  private currentPathsToMove: Array<string>;
+  private currentMoveTargetDirectory: string;
+  private currentMoveTargetIsAcceptable: boolean;
 
   private currentSeriesDirectory: string;
   private currentSeriesLanguage: SeriesLanguage;
@@ -156,10 +181,43 @@ export class FileBrowser {
   private currentSeries: Series;
   private currentEpisodeRenames: SeasonMapping;
   private currentEpisodeAssign: EpisodeMapping;
-
-  constructor(startDirectory: string = process.cwd()) {
+  private currentRenamePlan: RenamePlan;
+  private currentLibraryReport: LibraryReport;
+  private currentCompleteness: SeriesCompleteness;
+  private currentDuplicateGroups: Array<DuplicateGroup>;
+  private currentReviewQueue: ReviewQueue;
+  // the library of the last sort, offered again for the next one
+  private currentLibraryDirectory: string;
+
+  private journal: Journal;
+  private episodeNamer: EpisodeNamer;
+  private movieNamer: MovieNamer;
+  private metadataProvider: MetadataProvider;
+  // shared by all namers, so that videos are only read again after they changed
+  private mediaProber = new MediaProber();
+  // the media info of the folder view by path, every video is only read once per session
+  private mediaDescriptions = new Map<string, string>();
+  private settings: Settings;
+  // the settings and provider of the series folder that is standardized, with its sidecar applied
+  private seriesSettings: Settings;
+  private seriesMetadataProvider: MetadataProvider;
+  private dryRun: boolean;
+
+  constructor(startDirectory: string = process.cwd(), options: FileBrowserOptions = {}) {
     this.startDirectory = startDirectory;
+    this.dryRun = options.dryRun === true;
+    this.metadataProvider = options.metadataProvider || createMetadataProvider();
+    this.settings = options.settings || defaultSettings;
+    this.useSeriesSettings(this.settings);
+    this.movieNamer = new MovieNamer({
+      namingScheme: getMovieNamingScheme(this.settings),
+      movieFolder: this.settings.movieFolder,
+      videoFileExtensions: this.settings.videoFileExtensions,
+      companionFileExtensions: this.settings.companionFileExtensions,
+      mediaProber: this.mediaProber,
+    });
     this.currentDirectory = this.startDirectory;
+    this.journal = new Journal(path.join(this.startDirectory, journalFolderName));
   }
 
   public async start(): Promise<void> {
@@ -168,74 +226,429 @@ export class FileBrowser {
     this.promptMainMenu();
   }
 
+  /**
+   * Switches the naming and the metadata provider to the settings of a series folder.
+   */
+  private useSeriesSettings(seriesSettings: Settings): void {
+    this.seriesSettings = seriesSettings;
+    this.seriesMetadataProvider = seriesSettings.provider === this.metadataProvider.name
+      ? this.metadataProvider
+      : createMetadataProvider(getMetadataProviderOptions(seriesSettings));
+    this.episodeNamer = new EpisodeNamer({
+      namingScheme: getNamingScheme(seriesSettings),
+      videoFileExtensions: seriesSettings.videoFileExtensions,
+      companionFileExtensions: seriesSettings.companionFileExtensions,
+      seasonFolder: seriesSettings.seasonFolder,
+      order: seriesSettings.order,
+      mediaProber: this.mediaProber,
+    });
+  }
+
   private async promptMainMenu(): Promise<void> {
     this.currentPrompt = 'folder-selection';
     const [files, folders] = await Promise.all([
-      this.getFileNames(this.currentDirectory),
-      this.getFolderNames(this.currentDirectory),
+      getFileNames(this.currentDirectory),
+      getFolderNames(this.currentDirectory),
     ])
 
+    // selected entries are marked, files can be selected but not opened
     const folderOptions = folders.map((folderName: string) => {
-      return {name: folderName, message: folderName, value: folderName, disabled: false}
+      return {name: folderName, message: this.markSelection(folderName, folderName), value: folderName, disabled: false}
     });
 
-    const fileOptopns = files.map((folderName: string) => {
-      return {name: folderName, message: folderName, value: folderName, disabled: ''}
-    });
+    // one after another, like the namers probe their videos
+    const fileOptopns: Array<ArrayPromptOption> = [];
+    for (const fileName of files) {
+      fileOptopns.push({name: fileName, message: this.markSelection(fileName, await this.describeFile(fileName)), value: fileName, disabled: false});
+    }
 
     const options = [
-      {name: '..', message: '..', value: '..'},
+      {name: '..', message: this.markSelection('..', '..'), value: '..'},
       ...folderOptions,
       ...fileOptopns,
     ]
 
+    const header = [
+      this.dryRun ? `${this.currentDirectory} (dry run)` : this.currentDirectory,
+      this.selectedPaths.size > 0 ? `${this.selectedPaths.size} selected` : undefined,
+    ];
+
     this.filesPrompt = new Select({
       message: null,
       choices: options,
-      header: this.currentDirectory,
+      header: header.filter(Boolean).join('\n'),
       initial: this.highlightedFolder,
-      footer: '[R]ename, [C]reate folder, [D]elete, [M]ove, [U]pdate, [H]oist files, [P]urge non-videos, [S]tandardize names, [E]xit',
+      footer: this.generateFolderSelectionFooter(this.settings.keyBindings),
     });
 
     const selectedFolder = await this.filesPrompt.run();
     this.filesPrompt.stop();
+    if (files.includes(selectedFolder)) {
+      this.highlightedFolder = selectedFolder;
+      console.clear();
+      this.promptMainMenu();
+      return;
+    }
+
     if (selectedFolder === '..') {
       this.highlightedFolder = path.basename(this.currentDirectory);
     } else {
       this.highlightedFolder = '..';
     }
     this.currentDirectory = path.join(this.currentDirectory, selectedFolder);
+    this.selectedPaths.clear();
     console.clear();
     this.promptMainMenu();
   }
 
-  private async promptRename(filePath: string) {
-    this.currentPrompt = 'rename';
+  // e.g. '* Season 1' for a selected entry
+  private markSelection(entryName: string, message: string): string {
+    if (this.selectedPaths.size === 0) {
+      return message;
+    }
+
+    return `${this.selectedPaths.has(path.join(this.currentDirectory, entryName)) ? '*' : ' '} ${message}`;
+  }
+
+  /**
+   * The selected entries, or the highlighted one if nothing is selected.
+   */
+  private getTargetPaths(): Array<string> {
+    if (this.selectedPaths.size > 0) {
+      return Array.from(this.selectedPaths);
+    }
+
+    return [path.join(this.currentDirectory, this.highlightedFolder)];
+  }
+
+  private toggleSelection(entryPath: string): void {
+    // the parent can't be selected
+    if (path.dirname(entryPath) !== this.currentDirectory) {
+      return;
+    }
+
+    if (this.selectedPaths.has(entryPath)) {
+      this.selectedPaths.delete(entryPath);
+    } else {
+      this.selectedPaths.add(entryPath);
+    }
+    console.clear();
+    this.promptMainMenu();
+  }
+
+  // selects all entries, or none if all are selected already
+  private async toggleSelectAll(): Promise<void> {
+    const entryPaths = (await readFolder(this.currentDirectory)).map((entryName: string) => {
+      return path.join(this.currentDirectory, entryName);
+    });
+    const allSelected = entryPaths.every((entryPath: string) => {
+      return this.selectedPaths.has(entryPath);
+    });
+
+    this.selectedPaths.clear();
+    if (!allSelected) {
+      entryPaths.forEach((entryPath: string) => {
+        this.selectedPaths.add(entryPath);
+      });
+    }
+    console.clear();
+    this.promptMainMenu();
+  }
 
-    const directory = path.dirname(filePath);
-    const filename = path.basename(filePath);
+  /**
+   * Adds the entries whose names match a glob like `*.mkv` or a regular expression like `/s\d+e\d+/i`.
+   */
+  private async promptSelectPattern(directory: string): Promise<void> {
+    this.currentPrompt = 'select-pattern';
 
-    const renamePrompt = new Input({
-      message: `rename ${filename}`,
-      header: directory,
+    const patternPrompt = new Input({
+      message: 'select',
+      header: `${directory}\nglob like *.mkv or regular expression like /^season \\d+$/i`,
       footer: 'esc = abort',
-      initial: filename,
     });
 
+    let pattern: string;
+    try {
+      pattern = await patternPrompt.run();
+    } catch {
+      // aborted
+    }
+    patternPrompt.stop();
+    console.clear();
+
+    if (pattern !== undefined && pattern.length > 0) {
+      let namePattern: RegExp;
+      try {
+        namePattern = parseNamePattern(pattern);
+      } catch (error) {
+        console.log(error.message);
+        this.promptSelectPattern(directory);
+        return;
+      }
+
+      const matchingNames = (await readFolder(directory)).filter((entryName: string) => {
+        return namePattern.test(entryName);
+      });
+      matchingNames.forEach((entryName: string) => {
+        this.selectedPaths.add(path.join(directory, entryName));
+      });
+      console.log(`${matchingNames.length} ${matchingNames.length === 1 ? 'entry matches' : 'entries match'} ${pattern}`);
+    }
+
+    this.promptMainMenu();
+  }
+
+  // videos with what their content says, e.g. 'Show.S01E01.mkv  [1080p h264, AAC 2.0 en, 42 min]'
+  private async describeFile(fileName: string): Promise<string> {
+    if (!this.settings.videoFileExtensions.includes(path.extname(fileName).toLowerCase())) {
+      return fileName;
+    }
+
+    const filePath = path.join(this.currentDirectory, fileName);
+    if (!this.mediaDescriptions.has(filePath)) {
+      const mediaInfo = await this.mediaProber.probe(filePath);
+      this.mediaDescriptions.set(filePath, mediaInfo !== undefined ? describeMediaInfo(mediaInfo) : undefined);
+    }
+
+    const mediaDescription = this.mediaDescriptions.get(filePath);
+    return mediaDescription !== undefined ? `${fileName}  [${mediaDescription}]` : fileName;
+  }
+
+  /**
+   * Asks for the new names of the entries one after the other, as one batch of the journal.
+   */
+  private async promptRename(filePaths: Array<string>) {
+    this.currentPrompt = 'rename';
+
+    const batch = this.journal.beginBatch(`rename ${describeEntries(filePaths)}`);
+    for (const [index, filePath] of filePaths.entries()) {
+      const directory = path.dirname(filePath);
+      const filename = path.basename(filePath);
+
+      const renamePrompt = new Input({
+        message: `rename ${filename}`,
+        header: filePaths.length > 1 ? `${directory} (${index + 1} of ${filePaths.length})` : directory,
+        footer: filePaths.length > 1 ? 'esc = skip' : 'esc = abort',
+        initial: filename,
+      });
+
+      console.clear();
+      try {
+        const newName = await renamePrompt.run();
+        renamePrompt.stop();
+        const oldPath = path.join(directory, filename);
+        const newPath = path.join(directory, newName);
+        await this.journal.rename(batch, 'rename', oldPath, newPath);
+        this.highlightedFolder = newName;
+      } catch (error) {
+        renamePrompt.stop();
+        // probably just aborted
+      }
+    }
+
+    await this.journal.commit(batch);
+    this.selectedPaths.clear();
+
+    console.clear();
+    this.promptMainMenu();
+  }
+
+  /**
+   * Renames the selected entries, or the entries of the folder or its subtree, by a find and replace pattern.
+   */
+  private async promptPatternRename(directory: string): Promise<void> {
+    let scope: PatternRenameScope = 'selection';
+    if (this.selectedPaths.size === 0) {
+      this.currentPrompt = 'pattern-scope';
+      const scopePrompt = new Select({
+        message: 'rename',
+        choices: [
+          {name: 'folder', message: 'the entries of this folder', value: 'folder'},
+          {name: 'subtree', message: 'all files in this folder and its subfolders', value: 'subtree'},
+        ],
+        header: directory,
+        footer: 'esc = back',
+      });
+
+      try {
+        scope = await scopePrompt.run();
+      } catch {
+        scope = undefined;
+      }
+      scopePrompt.stop();
+      console.clear();
+
+      if (scope === undefined) {
+        this.promptMainMenu();
+        return;
+      }
+    }
+
+    const entryPaths = await getPatternRenameEntries(directory, scope, Array.from(this.selectedPaths));
+    if (entryPaths.length === 0) {
+      console.log('nothing to rename');
+      this.promptMainMenu();
+      return;
+    }
+
+    this.promptPatternFind(directory, entryPaths, '', '');
+  }
+
+  private async promptPatternFind(directory: string, entryPaths: Array<string>, find: string, replacement: string): Promise<void> {
+    this.currentPrompt = 'pattern-find';
+
+    // the matching names are shown while typing
+    const findPrompt = new Input({
+      message: 'find',
+      initial: find,
+      header: () => {
+        const pattern = findPrompt.input || find;
+        let preview: string;
+        try {
+          preview = formatPatternMatches(directory, entryPaths, parseFindPattern(pattern), getPreviewLineCount());
+        } catch (error) {
+          preview = error.message;
+        }
+
+        return [
+          `${directory} (${entryPaths.length} ${entryPaths.length === 1 ? 'entry' : 'entries'})`,
+          'regular expression like /-(\\w+)(\\.\\w+)$/, text to replace everywhere or nothing for the whole name',
+          '',
+          preview || 'no name matches',
+          '',
+        ].join('\n');
+      },
+      footer: 'esc = back',
+    });
+
+    let pattern: string;
+    try {
+      pattern = await findPrompt.run();
+    } catch {
+      // back to the folder view
+    }
+    findPrompt.stop();
     console.clear();
+
+    if (pattern === undefined) {
+      this.promptMainMenu();
+      return;
+    }
+
     try {
-      const newName = await renamePrompt.run();
-      renamePrompt.stop();
-      const oldPath = path.join(directory, filename);
-      const newPath = path.join(directory, newName);
-      await fsPromises.rename(oldPath, newPath);
-      this.highlightedFolder = newName;
+      parseFindPattern(pattern);
     } catch (error) {
-      renamePrompt.stop();
-      // probably just aborted
+      console.log(error.message);
+      this.promptPatternFind(directory, entryPaths, pattern, replacement);
+      return;
+    }
+
+    this.promptPatternReplace(directory, entryPaths, pattern, replacement);
+  }
+
+  private async promptPatternReplace(directory: string, entryPaths: Array<string>, find: string, replacement: string): Promise<void> {
+    this.currentPrompt = 'pattern-replace';
+    const findRegex = parseFindPattern(find);
+
+    // the new names and the names that can't be used are shown while typing
+    const replacePrompt = new Input({
+      message: 'replace',
+      initial: replacement,
+      header: () => {
+        const pattern = replacePrompt.input || replacement;
+        let preview: string;
+        try {
+          validateReplacement(pattern);
+          preview = formatPatternRenames(directory, getPatternRenames(entryPaths, findRegex, pattern), getPreviewLineCount());
+        } catch (error) {
+          preview = error.message;
+        }
+
+        return [
+          `${directory}, find ${find.length > 0 ? find : 'the whole name'}`,
+          '$1 or $<name> for groups, {n} or {n:00} counts per folder, {name}, {ext} and {parent}',
+          '',
+          preview || 'no name matches',
+          '',
+        ].join('\n');
+      },
+      footer: 'esc = back',
+    });
+
+    let pattern: string;
+    try {
+      pattern = await replacePrompt.run();
+    } catch {
+      // back to the find pattern
+    }
+    replacePrompt.stop();
+    console.clear();
+
+    if (pattern === undefined) {
+      this.promptPatternFind(directory, entryPaths, find, replacement);
+      return;
+    }
+
+    try {
+      validateReplacement(pattern);
+    } catch (error) {
+      console.log(error.message);
+      this.promptPatternReplace(directory, entryPaths, find, pattern);
+      return;
+    }
+
+    this.promptPatternPreview(directory, entryPaths, find, pattern);
+  }
+
+  private async promptPatternPreview(directory: string, entryPaths: Array<string>, find: string, replacement: string): Promise<void> {
+    this.currentPrompt = 'pattern-preview';
+    const plan = await planPatternRename(directory, entryPaths, parseFindPattern(find), replacement);
+
+    let applyOption: ArrayPromptOption;
+    if (this.dryRun) {
+      applyOption = {name: 'apply', message: 'print plan (dry run, nothing is renamed)', value: 'apply'};
+    } else {
+      applyOption = {
+        name: 'apply',
+        message: `apply ${plan.renameCount} renames`,
+        value: 'apply',
+        disabled: plan.conflictCount > 0 ? '(resolve conflicts first)' : plan.renameCount === 0 ? '(nothing to rename)' : false,
+      };
     }
 
+    const previewPrompt = new Select({
+      message: null,
+      choices: [applyOption, {name: 'back', message: 'change the replacement', value: 'back'}],
+      header: plan.toText(),
+      footer: 'esc = back',
+    });
+
+    let action: string;
+    try {
+      action = await previewPrompt.run();
+    } catch {
+      // back to the replacement
+    }
+    previewPrompt.stop();
     console.clear();
+
+    if (action === undefined || action === 'back') {
+      this.promptPatternReplace(directory, entryPaths, find, replacement);
+      return;
+    }
+
+    if (this.dryRun) {
+      console.log(plan.toText());
+    } else {
+      try {
+        const batch = await plan.apply(this.journal);
+        console.log(`renamed ${batch.entries.length} entries`);
+      } catch (error) {
+        console.log(`renaming failed: ${error.message}. The renames so far can be undone`);
+      }
+      this.selectedPaths.clear();
+    }
+
     this.promptMainMenu();
   }
 
@@ -249,36 +662,41 @@ export class FileBrowser {
     });
 
     console.clear();
+    const batch = this.journal.beginBatch(`create folder in ${targetDirectory}`);
     try {
       const folderName = await createFolderPrompt.run();
       createFolderPrompt.stop();
-      await fsPromises.mkdir(path.join(targetDirectory, folderName));
+      await this.journal.createFolder(batch, path.join(targetDirectory, folderName));
       this.highlightedFolder = folderName;
     } catch (error) {
       createFolderPrompt.stop();
       // probably just aborted
     }
 
+    await this.journal.commit(batch);
+
     console.clear();
     this.promptMainMenu();
   }
 
-  private async promptDeleteFolder(filePath: string) {
+  private async promptDeleteFolder(filePaths: Array<string>) {
     this.currentPrompt = 'delete-folder';
 
     this.confirmDeletePrompt = new Confirm({
-      message: `deleting ${filePath}. Are you sure?`,
+      message: `deleting ${describeEntries(filePaths)}. Are you sure?`,
       footer: 'esc = abort',
     });
 
     console.clear();
+    const batch = this.journal.beginBatch(`delete ${describeEntries(filePaths)}`);
     try {
       const userAgreed = await this.confirmDeletePrompt.run();
       this.confirmDeletePrompt.stop();
       if (userAgreed) {
-        await new Promise((resolve) => {
-          rimraf(filePath, resolve);
-        })
+        for (const filePath of filePaths) {
+          await this.journal.trash(batch, 'delete', filePath);
+        }
+        this.selectedPaths.clear();
         this.highlightedFolder = '..';
       }
     } catch (error) {
@@ -286,41 +704,64 @@ export class FileBrowser {
       // probably just aborted
     }
 
+    await this.journal.commit(batch);
+
     console.clear();
     this.promptMainMenu();
   }
 
-  private async hoistFiles(directory: string) {
+  /**
+   * Moves the files of the selected folders, or of all folders without a selection, into
+   * the directory and deletes the folders.
+   */
+  private async hoistFiles(directory: string, selectedPaths: Array<string>) {
     this.currentPrompt = 'hoist-files';
-    const files = await this.getAllFilesInFolder(directory);
+    const folders = selectedPaths.length > 0
+      ? await filterAsync(selectedPaths, isFolder)
+      : (await getFolderNames(directory)).map((folderName: string) => {
+        return path.join(directory, folderName);
+      });
+    const files = (await Promise.all(folders.map(getAllFilesInFolder))).flat();
     console.clear();
+
+    // files with the same name in different folders, or a name that is already taken, would replace each other
+    const plan = await RenamePlan.fromRenames(directory, `hoist files in ${directory}`, files.map((filePath: string): PlannedRename => {
+      return {originalPath: filePath, updatedPath: path.join(directory, path.basename(filePath)), conflicts: []};
+    }));
+    if (plan.conflictCount > 0) {
+      console.log(`can't hoist, ${plan.conflictCount} files would replace other files:`);
+      for (const entry of plan.entries) {
+        if (entry.conflicts.length > 0) {
+          console.log(`  ${path.relative(directory, entry.originalPath)}: ${entry.conflicts.join(', ')}`);
+        }
+      }
+      this.promptMainMenu();
+      return;
+    }
+
     this.confirmHoistPrompt = new Confirm({
       message: `hoisting ${files.length} files. Are you sure?`,
       footer: 'esc = abort',
     });
 
+    const batch = this.journal.beginBatch(`hoist files in ${directory}`);
     try {
       const userAgreed = await this.confirmHoistPrompt.run();
       this.confirmHoistPrompt.stop();
       if (userAgreed) {
+        // one after another, so that nothing is still running unjournaled when one of them fails
         // move all children to the target directory
-        await Promise.all(files.map((filePath: string) => {
+        for (const filePath of files) {
           const filename = path.basename(filePath);
           const targetFile = path.join(directory, filename);
-          if (filePath === targetFile) {
-            return undefined;
-          }
-
-          return fsPromises.rename(filePath, targetFile);
-        }));
+          await this.journal.rename(batch, 'hoist', filePath, targetFile);
+        }
 
         // delete all the now empty folders
-        const remainingFolders = await this.getFolderNames(directory);
-        await Promise.all(remainingFolders.map((folderName) => {
-          return new Promise((resolve) => {
-            rimraf(path.join(directory, folderName), resolve);
-          })
-        }));
+        for (const folder of folders) {
+          await this.journal.trash(batch, 'hoist', folder);
+        }
+        this.selectedPaths.clear();
         this.highlightedFolder = '..';
       }
     } catch (error) {
@@ -328,25 +769,36 @@ export class FileBrowser {
       // probably just aborted
     }
 
+    await this.journal.commit(batch);
+
     console.clear();
     this.promptMainMenu();
   }
 
-  private async promptMoveFolder(currentDirectory: string, folderToMove: string): Promise<void> {
+  private async promptMoveFolder(currentDirectory: string, pathsToMove: Array<string>): Promise<void> {
     this.currentPrompt = 'move-folder';
-    this.currentFolderToMove = folderToMove;
-    const folders = await this.getFolderNames(currentDirectory)
-    const folderNameToMove = path.basename(folderToMove);
-    this.currentMoveTarget = path.join(currentDirectory, folderNameToMove);
+    this.currentPathsToMove = pathsToMove;
+    this.currentMoveTargetDirectory = currentDirectory;
+    const [folders, existingNames] = await Promise.all([
+      getFolderNames(currentDirectory),
+      readFolder(currentDirectory),
+    ]);
 
-    const folderAlreadyExists = folders.some((folderName) => {
-      return folderName === folderNameToMove;
-    });
+    const conflictingNames = pathsToMove
+      .map((pathToMove: string) => {
+        return path.basename(pathToMove);
+      })
+      .filter((nameToMove: string) => {
+        return existingNames.includes(nameToMove);
+      });
 
-    const targetIsAcceptable = !folderAlreadyExists;
+    this.currentMoveTargetIsAcceptable = conflictingNames.length === 0;
 
     const folderOptions = folders.map((folderName: string) => {
-      const targetIsInsideSelf = path.join(currentDirectory, folderName).startsWith(folderToMove);
+      const folderPath = path.join(currentDirectory, folderName);
+      const targetIsInsideSelf = pathsToMove.some((pathToMove: string) => {
+        return folderPath === pathToMove || folderPath.startsWith(`${pathToMove}${path.sep}`);
+      });
       let folderIsDisabled: string | boolean = false;
       if (targetIsInsideSelf) {
         folderIsDisabled = '(can\'t move a folder into itself)';
@@ -359,11 +811,12 @@ export class FileBrowser {
       ...folderOptions,
     ]
 
-    const header = folderAlreadyExists
-      ? `move: ${folderToMove}\n  to: '${folderNameToMove}' already exists here. choose a different location.`
-      : `move: ${folderToMove}\n  to: ${path.join(currentDirectory, folderNameToMove)}`;
+    const movedEntries = describeEntries(pathsToMove);
+    const header = this.currentMoveTargetIsAcceptable
+      ? `move: ${movedEntries}\n  to: ${pathsToMove.length === 1 ? path.join(currentDirectory, path.basename(pathsToMove[0])) : currentDirectory}`
+      : `move: ${movedEntries}\n  to: '${conflictingNames.join('\', \'')}' already ${conflictingNames.length === 1 ? 'exists' : 'exist'} here. choose a different location.`;
 
-    const footer = targetIsAcceptable
+    const footer = this.currentMoveTargetIsAcceptable
       ? '[a]ccept, esc = abort'
       : 'esc = abort'
 
@@ -379,7 +832,7 @@ export class FileBrowser {
     try {
       const selectedFolder = await this.moveFolderPrompt.run();
       this.moveFolderPrompt.stop();
-      this.promptMoveFolder(path.join(currentDirectory, selectedFolder), folderToMove);
+      this.promptMoveFolder(path.join(currentDirectory, selectedFolder), pathsToMove);
     } catch {
       this.moveFolderPrompt.stop();
       console.clear();
@@ -387,19 +840,34 @@ export class FileBrowser {
     }
   }
 
-  private async moveFolder(folderToMove: string, target: string) {
-    await fsPromises.rename(folderToMove, target);
+  private async moveFolder(pathsToMove: Array<string>, targetDirectory: string) {
+    const batch = this.journal.beginBatch(`move ${describeEntries(pathsToMove)}`);
+    for (const pathToMove of pathsToMove) {
+      await this.journal.rename(batch, 'move', pathToMove, path.join(targetDirectory, path.basename(pathToMove)));
+    }
+    await this.journal.commit(batch);
+    this.selectedPaths.clear();
     console.clear();
     this.promptMainMenu();
   }
 
-  private async promptNonVideoPurge(folderToPurge: string): Promise<void> {
+  /**
+   * Deletes the non-videos in the selected folders and the selected non-videos, or in the
+   * whole folder without a selection.
+   */
+  private async promptNonVideoPurge(folderToPurge: string, selectedPaths: Array<string>): Promise<void> {
     this.currentPrompt = 'non-video-purge';
-    const files = await this.getAllFilesInFolder(folderToPurge);
+    const files = selectedPaths.length > 0
+      ? (await Promise.all(selectedPaths.map(async (selectedPath: string): Promise<Array<string>> => {
+        return await isFolder(selectedPath) ? getAllFilesInFolder(selectedPath) : [selectedPath];
+      }))).flat()
+      : await getAllFilesInFolder(folderToPurge);
     const nonVideoFiles = files.filter((filename: string) => {
       const fileExtension = path.extname(filename).toLowerCase();
-      const fileIsVideo = videoFileExtensions.includes(fileExtension);
-      return !fileIsVideo;
+      const fileIsVideo = this.settings.videoFileExtensions.includes(fileExtension);
+      // settings and the review queue of the tool aren't junk
+      const fileIsSetting = toolFileNames.includes(path.basename(filename));
+      return !fileIsVideo && !fileIsSetting;
     });
 
     console.clear();
@@ -408,65 +876,760 @@ export class FileBrowser {
       footer: 'esc = abort',
     });
 
+    const batch = this.journal.beginBatch(`purge non-videos in ${folderToPurge}`);
     try {
       const userAgreed = await this.confirmPurgePrompt.run();
       this.confirmPurgePrompt.stop();
       if (userAgreed) {
-        // delete all non-video-files
-        await Promise.all(nonVideoFiles.map((fileName: string) => {
-          return fsPromises.unlink(fileName);
-        }));
+        // delete all non-video-files, one after another like the hoisted files
+        for (const fileName of nonVideoFiles) {
+          await this.journal.trash(batch, 'purge', fileName);
+        }
+        this.selectedPaths.clear();
       }
     } catch (error) {
       this.confirmPurgePrompt.stop();
       // probably just aborted
     }
 
+    await this.journal.commit(batch);
+
     console.clear();
     this.promptMainMenu();
   }
 
-  private async promptSeriesRename(seriesDirectory: string): Promise<void> {
-    this.currentSeriesDirectory = seriesDirectory;
+  private async promptUndo(): Promise<void> {
+    this.currentPrompt = 'undo';
+    const batch = await this.journal.getLastUndoableBatch();
+
+    console.clear();
+    if (batch === undefined) {
+      console.log('nothing to undo');
+      this.promptMainMenu();
+      return;
+    }
+
+    this.confirmUndoPrompt = new Confirm({
+      message: `undo '${batch.description}' (${batch.entries.length} operations). Are you sure?`,
+      footer: 'esc = abort',
+    });
+
+    let undoMessage: string;
+    try {
+      const userAgreed = await this.confirmUndoPrompt.run();
+      this.confirmUndoPrompt.stop();
+      if (userAgreed) {
+        const result = await this.journal.undo(batch.id);
+        undoMessage = `undid ${result.restoredCount} of ${result.operationCount} operations`;
+        for (const error of result.errors) {
+          undoMessage = `${undoMessage}\n  failed: ${error}`;
+        }
+        if (result.errors.length > 0) {
+          undoMessage = `${undoMessage}\nthe failed operations stay in the journal, undo again to retry them`;
+        }
+      }
+    } catch (error) {
+      this.confirmUndoPrompt.stop();
+      // probably just aborted
+    }
+
     console.clear();
-    this.promptSeriesLanguage(seriesDirectory);
+    if (undoMessage !== undefined) {
+      console.log(undoMessage);
+    }
+    this.highlightedFolder = '..';
+    this.promptMainMenu();
   }
 
-  private async promptSeriesLanguage(seriesDirectory) {
-    this.currentPrompt = 'series-language';
-    this.currentEpisodeRenames = undefined;
-    const languages: Array<SeriesLanguage> = await tvdb.getLanguages();
-    
-    const options = languages.map((language: any) => {
+  private async scanLibrary(libraryDirectory: string): Promise<void> {
+    // keys pressed during the scan must not reach the folder selection anymore
+    this.currentPrompt = 'scanning';
+    console.clear();
+    console.log(`scanning ${libraryDirectory} ...`);
+
+    try {
+      this.currentLibraryReport = await new LibraryScanner(this.settings, this.metadataProvider).scan(libraryDirectory);
+    } catch (error) {
+      console.clear();
+      console.log(`scan failed: ${error.message}`);
+      this.promptMainMenu();
+      return;
+    }
+
+    console.clear();
+    this.promptLibraryReport(this.currentLibraryReport);
+  }
+
+  /**
+   * The summary of a library scan. Selecting a series standardizes it, the details can be exported.
+   */
+  private async promptLibraryReport(report: LibraryReport): Promise<void> {
+    this.currentPrompt = 'library-report';
+
+    const seriesWithIssues = report.series.filter((series: LibrarySeries) => {
+      return series.issues.length > 0;
+    });
+
+    const options = seriesWithIssues.map((series: LibrarySeries) => {
       return {
-        name: language.abbreviation,
-        message: language.englishName,
-        value: language,
+        name: series.seriesDirectory,
+        message: `${series.seriesName}: ${report.summarize(series)}`,
+        value: series.seriesDirectory,
       };
     });
-    this.seriesLanguagePrompt = new Select({
+
+    if (options.length === 0) {
+      options.push({name: '-', message: 'nothing to do', value: undefined});
+    }
+
+    this.libraryReportPrompt = new Select({
       message: null,
       choices: options,
-      header: `Folder: ${seriesDirectory}`,
-      initial: 'de',
-      footer: 'esc = abort',
+      header: `Library: ${report.libraryDirectory}\n${report.series.length} series: ${report.summarize()}`,
+      footer: 'enter = standardize, export as [j]son, [c]sv, [h]tml or [t]ext, esc = back',
     });
-  
+
+    let seriesDirectory: string;
     try {
-      await this.seriesLanguagePrompt.run();
-      this.currentSeriesLanguage = this.seriesLanguagePrompt.selected.value;
-      this.seriesLanguagePrompt.stop();
-      console.clear();
-      this.promptSeriesName(seriesDirectory, this.currentSeriesLanguage);
+      await this.libraryReportPrompt.run();
+      seriesDirectory = this.libraryReportPrompt.selected.value;
     } catch {
-      this.seriesLanguagePrompt.stop();
-      console.clear();
+      // back to the folder view
+    }
+    this.libraryReportPrompt.stop();
+    console.clear();
+
+    if (seriesDirectory === undefined) {
       this.promptMainMenu();
+      return;
     }
+
+    this.promptSeriesRename(seriesDirectory);
   }
 
-  private async promptSeriesName(seriesDirectory: string, seriesLanguage: SeriesLanguage) {
-    this.currentPrompt = 'series-name';
+  private async promptExportReport(report: LibraryReport, format: LibraryReportFormat): Promise<void> {
+    this.currentPrompt = 'export-report';
+
+    const fileExtension = format === 'text' ? 'txt' : format;
+    const exportPrompt = new Input({
+      message: 'export to',
+      header: `Exporting library report for ${report.libraryDirectory} as ${format}`,
+      footer: 'esc = abort',
+      initial: path.join(this.startDirectory, `${path.basename(report.libraryDirectory)}.library-report.${fileExtension}`),
+    });
+
+    let exportMessage: string;
+    try {
+      const exportPath = await exportPrompt.run();
+      exportPrompt.stop();
+      await report.export(exportPath, format);
+      exportMessage = `exported report to ${exportPath}`;
+    } catch (error) {
+      exportPrompt.stop();
+      // probably just aborted, but the export itself could have failed as well
+      if (error instanceof Error) {
+        exportMessage = `export failed: ${error.message}`;
+      }
+    }
+
+    console.clear();
+    if (exportMessage !== undefined) {
+      console.log(exportMessage);
+    }
+    this.promptLibraryReport(report);
+  }
+
+  private async findDuplicates(libraryDirectory: string): Promise<void> {
+    this.currentPrompt = 'scanning';
+    console.clear();
+    console.log(`searching duplicates in ${libraryDirectory} ...`);
+
+    try {
+      this.currentDuplicateGroups = await new DuplicateFinder(this.settings, this.metadataProvider).find(libraryDirectory);
+    } catch (error) {
+      console.clear();
+      console.log(`search failed: ${error.message}`);
+      this.promptMainMenu();
+      return;
+    }
+
+    console.clear();
+    this.promptDuplicates(libraryDirectory);
+  }
+
+  /**
+   * Lists the files of every group of duplicates below each other. Selecting a file keeps it
+   * and asks what to do with the others.
+   */
+  private async promptDuplicates(libraryDirectory: string): Promise<void> {
+    this.currentPrompt = 'duplicates';
+
+    const options = [];
+    this.currentDuplicateGroups.forEach((group: DuplicateGroup, groupIndex: number) => {
+      options.push({
+        name: `group${groupIndex}`,
+        message: `--- ${group.description} ---`,
+        value: undefined,
+        disabled: '',
+      }, ...group.files.map((file: DuplicateFile) => {
+        return {
+          name: `${groupIndex}:${file.path}`,
+          message: this.formatDuplicateFile(libraryDirectory, file),
+          value: {group: group, file: file},
+        };
+      }));
+    });
+
+    if (options.length === 0) {
+      options.push({name: '-', message: 'no duplicates found', value: undefined});
+    }
+
+    const groupCount = this.currentDuplicateGroups.length;
+    const duplicatesPrompt = new Select({
+      message: null,
+      choices: options,
+      header: `Library: ${libraryDirectory}\n${groupCount} ${groupCount === 1 ? 'group' : 'groups'} of duplicates`,
+      footer: 'enter = keep this file, esc = back',
+    });
+
+    let selection: {group: DuplicateGroup, file: DuplicateFile};
+    try {
+      await duplicatesPrompt.run();
+      selection = duplicatesPrompt.selected.value;
+    } catch {
+      // back to the folder view
+    }
+    duplicatesPrompt.stop();
+    console.clear();
+
+    if (selection === undefined) {
+      this.promptMainMenu();
+      return;
+    }
+
+    this.promptResolveDuplicates(libraryDirectory, selection.group, selection.file);
+  }
+
+  // e.g. '  1.4 GB  1080p  mkv   Show/Season 1/Show.S01E02.mkv'
+  private formatDuplicateFile(libraryDirectory: string, file: DuplicateFile): string {
+    return [
+      formatFileSize(file.size).padStart(9),
+      (file.resolution || '-').padEnd(5),
+      file.container.padEnd(4),
+      path.relative(libraryDirectory, file.path),
+    ].join('  ');
+  }
+
+  private async promptResolveDuplicates(libraryDirectory: string, group: DuplicateGroup, keptFile: DuplicateFile): Promise<void> {
+    this.currentPrompt = 'resolve-duplicates';
+
+    const otherFiles = group.files.filter((file: DuplicateFile) => {
+      return file !== keptFile;
+    });
+    const resolvePrompt = new Select({
+      message: null,
+      choices: [
+        {name: 'delete', message: `delete ${countDuplicates(otherFiles.length)}`, value: 'delete'},
+        {name: 'move', message: `move ${countDuplicates(otherFiles.length)} into another folder`, value: 'move'},
+      ],
+      header: [
+        `keep: ${this.formatDuplicateFile(libraryDirectory, keptFile)}`,
+        ...otherFiles.map((file: DuplicateFile) => {
+          return `      ${this.formatDuplicateFile(libraryDirectory, file)}`;
+        }),
+      ].join('\n'),
+      footer: 'deleted files are moved into the trash of the journal, esc = back',
+    });
+
+    let action: string;
+    try {
+      action = await resolvePrompt.run();
+    } catch {
+      // back to the duplicates
+    }
+    resolvePrompt.stop();
+    console.clear();
+
+    if (action === 'delete') {
+      this.resolveDuplicates(libraryDirectory, keptFile, otherFiles, undefined);
+    } else if (action === 'move') {
+      this.promptMoveDuplicates(libraryDirectory, keptFile, otherFiles);
+    } else {
+      this.promptDuplicates(libraryDirectory);
+    }
+  }
+
+  private async promptMoveDuplicates(libraryDirectory: string, keptFile: DuplicateFile, otherFiles: Array<DuplicateFile>): Promise<void> {
+    this.currentPrompt = 'move-duplicates';
+
+    const movePrompt = new Input({
+      message: 'move to',
+      header: `Moving ${countDuplicates(otherFiles.length)} of ${path.basename(keptFile.path)}, the folder is created if needed`,
+      footer: 'esc = abort',
+      // outside of the library, otherwise the next search finds them again
+      initial: path.join(path.dirname(libraryDirectory), `${path.basename(libraryDirectory)} duplicates`),
+    });
+
+    let targetDirectory: string;
+    try {
+      targetDirectory = await movePrompt.run();
+    } catch {
+      // aborted
+    }
+    movePrompt.stop();
+    console.clear();
+
+    if (targetDirectory === undefined) {
+      this.promptDuplicates(libraryDirectory);
+      return;
+    }
+
+    this.resolveDuplicates(libraryDirectory, keptFile, otherFiles, path.resolve(libraryDirectory, targetDirectory));
+  }
+
+  /**
+   * Deletes the duplicates, or moves them if there is a target directory, as one batch of the journal.
+   */
+  private async resolveDuplicates(
+    libraryDirectory: string,
+    keptFile: DuplicateFile,
+    otherFiles: Array<DuplicateFile>,
+    targetDirectory: string,
+  ): Promise<void> {
+    const operation = targetDirectory !== undefined ? 'move' : 'delete';
+    const batch = this.journal.beginBatch(`${operation} duplicates of ${keptFile.path}`);
+    const resolvedPaths = new Set<string>();
+
+    let resolveMessage: string;
+    try {
+      if (targetDirectory !== undefined && !(await isFolder(targetDirectory))) {
+        await this.journal.createFolder(batch, targetDirectory);
+      }
+
+      for (const file of otherFiles) {
+        if (targetDirectory === undefined) {
+          await this.journal.trash(batch, 'delete', file.path);
+        } else {
+          const targetPath = path.join(targetDirectory, path.basename(file.path));
+          if (await pathExists(targetPath)) {
+            throw new Error(`${targetPath} already exists`);
+          }
+          await this.journal.rename(batch, 'move', file.path, targetPath);
+        }
+        resolvedPaths.add(file.path);
+      }
+      resolveMessage = `${operation === 'move' ? 'moved' : 'deleted'} ${countDuplicates(resolvedPaths.size)}`;
+    } catch (error) {
+      resolveMessage = `${operation} failed after ${resolvedPaths.size} files: ${error.message}`;
+    }
+
+    await this.journal.commit(batch);
+
+    // the files are gone from every group they were in
+    this.currentDuplicateGroups = this.currentDuplicateGroups
+      .map((group: DuplicateGroup): DuplicateGroup => {
+        return {
+          ...group,
+          files: group.files.filter((file: DuplicateFile) => {
+            return !resolvedPaths.has(file.path);
+          }),
+        };
+      })
+      .filter((group: DuplicateGroup) => {
+        return group.files.length > 1;
+      });
+
+    console.clear();
+    console.log(resolveMessage);
+    this.promptDuplicates(libraryDirectory);
+  }
+
+  private async promptSortLibrary(inboxDirectory: string): Promise<void> {
+    this.currentPrompt = 'sort-library';
+
+    const libraryPrompt = new Input({
+      message: 'library',
+      header: `Sorting the videos of ${inboxDirectory} into series and season folders of a library`,
+      footer: 'esc = abort',
+      initial: this.currentLibraryDirectory || path.dirname(inboxDirectory),
+    });
+
+    let libraryDirectory: string;
+    try {
+      libraryDirectory = await libraryPrompt.run();
+    } catch {
+      // aborted
+    }
+    libraryPrompt.stop();
+    console.clear();
+
+    if (libraryDirectory === undefined) {
+      this.promptMainMenu();
+      return;
+    }
+
+    libraryDirectory = path.resolve(inboxDirectory, libraryDirectory);
+    if (!(await isFolder(libraryDirectory)) || libraryDirectory === inboxDirectory) {
+      console.log(libraryDirectory === inboxDirectory ? 'the library must be another folder' : `${libraryDirectory} isn't a folder`);
+      this.promptSortLibrary(inboxDirectory);
+      return;
+    }
+
+    this.currentLibraryDirectory = libraryDirectory;
+    console.log(`matching the videos of ${inboxDirectory} ...`);
+
+    let plans: Array<SortPlan>;
+    try {
+      plans = await new LibrarySorter(libraryDirectory, this.settings, this.metadataProvider).planInbox(inboxDirectory);
+    } catch (error) {
+      console.clear();
+      console.log(`matching failed: ${error.message}`);
+      this.promptMainMenu();
+      return;
+    }
+
+    console.clear();
+    this.promptSortPreview(inboxDirectory, libraryDirectory, plans);
+  }
+
+  /**
+   * Shows all folders and moves of all series in one plan. Videos that aren't sorted
+   * can be queued for review.
+   */
+  private async promptSortPreview(inboxDirectory: string, libraryDirectory: string, plans: Array<SortPlan>): Promise<void> {
+    this.currentPrompt = 'sort-preview';
+
+    const moveCount = plans.reduce((count: number, plan: SortPlan) => {
+      return count + plan.moves.length;
+    }, 0);
+    const unsorted = plans.flatMap((plan: SortPlan) => {
+      return plan.unsorted;
+    });
+
+    const choices: Array<ArrayPromptOption> = [];
+    if (this.dryRun) {
+      choices.push({name: 'apply', message: 'print plan (dry run, nothing is moved)', value: 'apply'});
+    } else {
+      choices.push({
+        name: 'apply',
+        message: `apply ${moveCount} moves`,
+        value: 'apply',
+        disabled: moveCount === 0 ? '(nothing to sort)' : false,
+      });
+      if (unsorted.length > 0) {
+        choices.push({name: 'review', message: `apply and queue ${unsorted.length} unsorted videos for review`, value: 'review'});
+      }
+    }
+
+    const previewPrompt = new Select({
+      message: null,
+      choices: choices,
+      header: formatSortPlans(plans, inboxDirectory, libraryDirectory),
+      footer: 'esc = back',
+    });
+
+    let action: string;
+    try {
+      action = await previewPrompt.run();
+    } catch {
+      // back to the folder view
+    }
+    previewPrompt.stop();
+    console.clear();
+
+    if (action === undefined) {
+      this.promptMainMenu();
+      return;
+    }
+
+    if (this.dryRun) {
+      console.log(formatSortPlans(plans, inboxDirectory, libraryDirectory));
+      this.promptMainMenu();
+      return;
+    }
+
+    const sorter = new LibrarySorter(libraryDirectory, this.settings, this.metadataProvider);
+    try {
+      await sorter.apply(plans, this.journal, `sort ${inboxDirectory} into ${libraryDirectory}`);
+      console.log(`moved ${moveCount} files`);
+    } catch (error) {
+      console.log(`sorting failed: ${error.message}. The moves so far can be undone`);
+    }
+
+    if (action === 'review') {
+      const added = Date.now();
+      await new ReviewQueue(libraryDirectory).add(unsorted.map((unsortedFile: UnsortedFile): ReviewItem => {
+        return {...unsortedFile, added: added};
+      }));
+      console.log(`queued ${unsorted.length} videos for review`);
+    }
+
+    this.promptMainMenu();
+  }
+
+  // the queue of the library the watch folder sorts into, found from any folder of the library
+  private async openReviewQueue(directory: string): Promise<void> {
+    this.currentReviewQueue = await ReviewQueue.find(directory);
+    console.clear();
+    if (this.currentReviewQueue === undefined) {
+      console.log('no review queue in this folder or its parents');
+      this.promptMainMenu();
+      return;
+    }
+
+    this.promptReviewQueue();
+  }
+
+  private async promptReviewQueue(): Promise<void> {
+    this.currentPrompt = 'review-queue';
+
+    const items = await this.currentReviewQueue.getItems();
+    const options = items.map((item: ReviewItem) => {
+      return {name: item.path, message: `${path.basename(item.path)}  (${item.reason})`, value: item};
+    });
+    if (options.length === 0) {
+      options.push({name: '-', message: 'the review queue is empty', value: undefined});
+    }
+
+    const reviewPrompt = new Select({
+      message: null,
+      choices: options,
+      header: `Review queue: ${this.currentReviewQueue.libraryDirectory}\n${items.length} ${items.length === 1 ? 'video' : 'videos'}`,
+      footer: 'enter = sort this video, esc = back',
+    });
+
+    let selectedItem: ReviewItem;
+    try {
+      await reviewPrompt.run();
+      selectedItem = reviewPrompt.selected.value;
+    } catch {
+      // back to the folder view
+    }
+    reviewPrompt.stop();
+    console.clear();
+
+    if (selectedItem === undefined) {
+      this.promptMainMenu();
+      return;
+    }
+
+    this.promptReviewItem(selectedItem);
+  }
+
+  /**
+   * Offers the series the watch folder considered, a search for another one, the folder
+   * of the video and dismissing it, which leaves the video where it is.
+   */
+  private async promptReviewItem(item: ReviewItem): Promise<void> {
+    this.currentPrompt = 'review-item';
+
+    if (!(await pathExists(item.path))) {
+      await this.currentReviewQueue.remove([item.path]);
+      console.log(`${item.path} doesn't exist anymore`);
+      this.promptReviewQueue();
+      return;
+    }
+
+    const itemPrompt = new Select({
+      message: null,
+      choices: [
+        ...item.candidates.map((series: SeriesCandidate, index: number) => {
+          return {name: `series${index}`, message: `sort into ${formatSeriesCandidate(series)}`, value: {action: 'sort', series: series}};
+        }),
+        {name: 'search', message: 'search another series', value: {action: 'search'}},
+        {name: 'open', message: 'open its folder', value: {action: 'open'}},
+        {name: 'dismiss', message: 'dismiss, the video stays where it is', value: {action: 'dismiss'}},
+      ],
+      header: `${item.path}\n${item.reason}`,
+      footer: 'esc = back',
+    });
+
+    let selection: {action: string, series?: SeriesCandidate};
+    try {
+      await itemPrompt.run();
+      selection = itemPrompt.selected.value;
+    } catch {
+      // back to the queue
+    }
+    itemPrompt.stop();
+    console.clear();
+
+    if (selection === undefined) {
+      this.promptReviewQueue();
+    } else if (selection.action === 'sort') {
+      this.sortReviewItem(item, selection.series);
+    } else if (selection.action === 'search') {
+      this.promptReviewSearch(item);
+    } else if (selection.action === 'open') {
+      this.currentDirectory = path.dirname(item.path);
+      this.highlightedFolder = '..';
+      this.promptMainMenu();
+    } else {
+      await this.currentReviewQueue.remove([item.path]);
+      this.promptReviewQueue();
+    }
+  }
+
+  private async promptReviewSearch(item: ReviewItem): Promise<void> {
+    this.currentPrompt = 'review-search';
+
+    const searchPrompt = new Input({
+      message: 'series name',
+      header: item.path,
+      footer: 'esc = back',
+      initial: item.candidates.length > 0 ? item.candidates[0].seriesName : undefined,
+    });
+
+    let seriesName: string;
+    try {
+      seriesName = await searchPrompt.run();
+    } catch {
+      // aborted
+    }
+    searchPrompt.stop();
+    console.clear();
+
+    let possibleSeries: Array<Series> = [];
+    if (seriesName !== undefined) {
+      try {
+        possibleSeries = await this.metadataProvider.searchSeries(seriesName, this.settings.language);
+      } catch (error) {
+        console.log(`search failed: ${error.message}`);
+      }
+    }
+
+    const candidates = possibleSeries.map((series: Series) => {
+      return getSeriesCandidate(series, this.metadataProvider.name);
+    });
+    if (seriesName !== undefined && candidates.length === 0) {
+      console.log('Series not found. Did you spell it correctly?');
+    }
+
+    this.promptReviewItem({...item, candidates: candidates.length > 0 ? candidates : item.candidates});
+  }
+
+  private async sortReviewItem(item: ReviewItem, series: SeriesCandidate): Promise<void> {
+    const sorter = new LibrarySorter(this.currentReviewQueue.libraryDirectory, this.settings, this.metadataProvider);
+
+    try {
+      const plan = await sorter.planForSeries([item.path], series);
+      if (plan.moves.length === 0) {
+        console.log(`not sorted: ${plan.unsorted[0].reason}`);
+        this.promptReviewItem(item);
+        return;
+      }
+
+      const videoMove = plan.moves[0];
+      const target = path.relative(this.currentReviewQueue.libraryDirectory, videoMove.targetPath);
+      if (this.dryRun) {
+        console.log(`would move ${path.basename(item.path)} to ${target} (dry run)`);
+      } else {
+        await sorter.apply([plan], this.journal, `sort ${path.basename(item.path)}`);
+        await this.currentReviewQueue.remove([item.path]);
+        console.log(`moved ${path.basename(item.path)} to ${target}`);
+      }
+    } catch (error) {
+      console.log(`sorting failed: ${error.message}`);
+    }
+
+    this.promptReviewQueue();
+  }
+
+  private async promptSeriesRename(seriesDirectory: string): Promise<void> {
+    this.currentSeriesDirectory = seriesDirectory;
+    console.clear();
+
+    let sidecar: SeriesSidecar;
+    try {
+      sidecar = await readSeriesSidecar(seriesDirectory);
+      this.useSeriesSettings(applySeriesSidecar(this.settings, sidecar));
+    } catch (error) {
+      console.log(`${error.message}\nThe series is searched again.`);
+      this.useSeriesSettings(this.settings);
+    }
+
+    if (sidecar === undefined || !(await this.loadSidecarSeries(seriesDirectory, sidecar))) {
+      this.promptSeriesLanguage(seriesDirectory);
+      return;
+    }
+
+    this.currentEpisodeRenames = undefined;
+    this.currentEpisodeAssign = undefined;
+    this.promptEpisodeRenames(seriesDirectory, this.currentSeriesLanguage, this.currentSeries);
+  }
+
+  /**
+   * Selects the language and series of the sidecar, like they were picked by hand.
+   * Resolves to false if the series couldn't be loaded.
+   */
+  private async loadSidecarSeries(seriesDirectory: string, sidecar: SeriesSidecar): Promise<boolean> {
+    const languageAbbreviation = this.seriesSettings.language;
+    let languages: Array<SeriesLanguage> = [];
+    try {
+      languages = await this.seriesMetadataProvider.getLanguages();
+    } catch {
+      // the abbreviation is all that is needed to load the series
+    }
+
+    let series: Series;
+    try {
+      series = await this.seriesMetadataProvider.getSeriesWithEpisodes(sidecar.seriesId, languageAbbreviation);
+    } catch (error) {
+      console.log(`Series ${sidecar.seriesId} of ${path.join(seriesDirectory, seriesSidecarFileName)} couldn't be loaded: ${error.message}`);
+      return false;
+    }
+
+    this.currentSeriesLanguage = languages.find((language: SeriesLanguage) => {
+      return language.abbreviation === languageAbbreviation;
+    }) || {id: undefined, abbreviation: languageAbbreviation, name: languageAbbreviation, englishName: languageAbbreviation};
+    this.currentSeriesName = series.seriesName;
+    this.currentSeries = series;
+    return true;
+  }
+
+  private async promptSeriesLanguage(seriesDirectory) {
+    this.currentPrompt = 'series-language';
+    this.currentEpisodeRenames = undefined;
+    let languages: Array<SeriesLanguage>;
+    try {
+      languages = await this.seriesMetadataProvider.getLanguages();
+    } catch (error) {
+      console.clear();
+      console.log(`Languages couldn't be loaded: ${error.message}`);
+      this.promptMainMenu();
+      return;
+    }
+
+    const options = languages.map((language: any) => {
+      return {
+        name: language.abbreviation,
+        message: language.englishName,
+        value: language,
+      };
+    });
+    this.seriesLanguagePrompt = new Select({
+      message: null,
+      choices: options,
+      header: `Folder: ${seriesDirectory}`,
+      initial: this.seriesSettings.language,
+      footer: 'esc = abort',
+    });
+  
+    try {
+      await this.seriesLanguagePrompt.run();
+      this.currentSeriesLanguage = this.seriesLanguagePrompt.selected.value;
+      this.seriesLanguagePrompt.stop();
+      console.clear();
+      this.promptSeriesName(seriesDirectory, this.currentSeriesLanguage);
+    } catch {
+      this.seriesLanguagePrompt.stop();
+      console.clear();
+      this.promptMainMenu();
+    }
+  }
+
+  private async promptSeriesName(seriesDirectory: string, seriesLanguage: SeriesLanguage) {
+    this.currentPrompt = 'series-name';
 
     const seriesName = path.basename(seriesDirectory);
 
@@ -495,8 +1658,12 @@ export class FileBrowser {
     this.currentEpisodeRenames = undefined;
     let possibleSeries: Array<Series>;
     try {
-      possibleSeries = await tvdb.getSeriesByName(seriesName, {lang: seriesLanguage.abbreviation})
+      possibleSeries = await this.seriesMetadataProvider.searchSeries(seriesName, seriesLanguage.abbreviation);
     } catch {
+      possibleSeries = [];
+    }
+
+    if (possibleSeries.length === 0) {
       console.clear();
       console.log('Series not found. Did you spell it correctly?');
       this.promptSeriesName(seriesDirectory, seriesLanguage);
@@ -522,6 +1689,7 @@ export class FileBrowser {
       this.currentSeries = this.seriesSelectionPrompt.selected.value;
       this.seriesSelectionPrompt.stop();
       console.clear();
+      await this.rememberSeries(seriesDirectory, seriesLanguage, this.currentSeries);
       this.promptEpisodeRenames(seriesDirectory, seriesLanguage, this.currentSeries);
     } catch {
       this.seriesSelectionPrompt.stop();
@@ -530,47 +1698,298 @@ export class FileBrowser {
     }
   }
 
+  /**
+   * Writes the sidecar, so that the next standardize of the folder jumps straight to the episode list.
+   */
+  private async rememberSeries(seriesDirectory: string, seriesLanguage: SeriesLanguage, series: Series): Promise<void> {
+    if (this.dryRun) {
+      return;
+    }
+
+    try {
+      await writeSeriesSidecar(seriesDirectory, {
+        seriesId: series.id,
+        seriesName: series.seriesName,
+        provider: this.seriesSettings.provider,
+        language: seriesLanguage.abbreviation,
+        order: this.seriesSettings.order,
+        template: this.seriesSettings.template,
+      });
+    } catch (error) {
+      console.log(`The series couldn't be remembered: ${error.message}`);
+    }
+  }
+
   private async promptEpisodeRenames(seriesDirectory: string, seriesLanguage: SeriesLanguage, selectedSeries: Series) {
     this.currentPrompt = 'episode-renames';
-    const seriesDetails = await tvdb.getSeriesAllById(selectedSeries.id, {lang: seriesLanguage.abbreviation});
+    let seriesDetails: Series;
+    try {
+      seriesDetails = await this.seriesMetadataProvider.getSeriesWithEpisodes(selectedSeries.id, seriesLanguage.abbreviation);
+    } catch (error) {
+      console.clear();
+      console.log(`Episodes couldn't be loaded: ${error.message}`);
+      this.promptSeriesName(seriesDirectory, seriesLanguage);
+      return;
+    }
     if (this.currentEpisodeRenames === undefined) {
-      this.currentEpisodeRenames = await this.generateEpisodeNames(seriesDirectory, seriesDetails);
+      const translations = await getTranslatedSeries(this.seriesMetadataProvider, selectedSeries.id, seriesLanguage.abbreviation);
+      this.currentEpisodeRenames = await this.episodeNamer.generateEpisodeNames(seriesDirectory, seriesDetails, translations);
     }
 
+    // conflicts are shown next to the files, so that they can be resolved by assigning other episodes
+    const plan = await RenamePlan.fromSeasonMapping(seriesDirectory, selectedSeries.seriesName, this.currentEpisodeRenames);
+    const conflictsByPath = new Map(plan.entries.map((entry: RenamePlanEntry): [string, Array<string>] => {
+      return [entry.originalPath, entry.conflicts];
+    }));
+    const conflictHint = (filePath: string): string => {
+      const conflicts = conflictsByPath.get(filePath) || [];
+      return conflicts.length > 0 ? `  ! ${conflicts.join(', ')}` : '';
+    };
+    const mediaHint = (episodeMapping: EpisodeMapping): string => {
+      const mediaInfo = episodeMapping.value.mediaInfo;
+      return [
+        mediaInfo !== undefined ? `  [${describeMediaInfo(mediaInfo)}]` : '',
+        episodeMapping.value.truncation !== undefined ? `  ! truncated: ${episodeMapping.value.truncation}` : '',
+      ].join('');
+    };
+
+    const confidentSuggestionCount = this.getConfidentSuggestions().length;
+
     const seasons = Object.keys(this.currentEpisodeRenames).sort();
     const options = [];
     for (const season of seasons) {
       options.push({
         name: `season${season}`,
-        message: `--- Season ${season} (${this.currentEpisodeRenames[season].folderName}) ---`,
+        message: `--- Season ${season} (${this.currentEpisodeRenames[season].folderName || 'series folder'}) ---`,
         value: `season${season}`,
         disabled: '',
-      }, ...this.currentEpisodeRenames[season].episodeMappings)
+      });
+
+      // companions are renamed with their video and can't be assigned on their own
+      for (const episodeMapping of this.currentEpisodeRenames[season].episodeMappings) {
+        options.push({
+          ...episodeMapping,
+          message: `${episodeMapping.message}${mediaHint(episodeMapping)}${conflictHint(episodeMapping.value.originalPath)}`,
+        }, ...episodeMapping.value.companions.map((companion: CompanionFile): ArrayPromptOption => {
+          const companionName = path.basename(companion.originalPath);
+          const companionMessage = companion.rename
+            ? `    ${companionName} > ${path.basename(companion.updatedPath)}`
+            : `    --- ${companionName}`;
+
+          return {
+            name: companion.originalPath,
+            message: `${companionMessage}${conflictHint(companion.originalPath)}`,
+            value: companion,
+            disabled: '',
+          };
+        }));
+      }
+    }
+    this.episodeRenamePrompt = new Select({
+      message: null,
+      choices: options,
+      header: `Folder: ${seriesDirectory}\nLanguage: ${seriesLanguage.englishName}\nSeries: ${selectedSeries.seriesName}`,
+      footer: [
+        plan.conflictCount > 0 ? `${plan.conflictCount} conflicts` : undefined,
+        '[a]ccept',
+        confidentSuggestionCount > 0 ? `accept ${confidentSuggestionCount} [m]atches of ${highConfidence}% or more` : undefined,
+        '[c]ompleteness',
+        this.seriesMetadataProvider instanceof CachingProvider ? '[r]efresh metadata' : undefined,
+        'esc = abort',
+      ]
+        .filter((footerPart: string) => {
+          return footerPart !== undefined;
+        })
+        .join(', '),
+      initial: this.currentEpisodeAssign ? this.currentEpisodeAssign.name : undefined,
+    });
+  
+    try {
+      await this.episodeRenamePrompt.run();
+      this.currentEpisodeAssign = this.episodeRenamePrompt.selected;
+      this.episodeRenamePrompt.stop();
+      console.clear();
+      this.promptEpisodeAssign(seriesDirectory, seriesLanguage, seriesDetails, this.currentEpisodeAssign);
+    } catch {
+      this.episodeRenamePrompt.stop();
+      console.clear();
+      this.promptSeriesName(seriesDirectory, seriesLanguage);
+    }
+  }
+
+  // suggestions for unmatched videos that are likely enough to be accepted without looking at each
+  private getConfidentSuggestions(): Array<EpisodeMapping> {
+    return Object.values(this.currentEpisodeRenames)
+      .map((season: SeasonMapping[number]) => {
+        return season.episodeMappings;
+      })
+      .flat()
+      .filter((episodeMapping: EpisodeMapping) => {
+        return episodeMapping.value.suggestion !== undefined && episodeMapping.value.suggestion.confidence >= highConfidence;
+      });
+  }
+
+  private async acceptConfidentSuggestions(seriesDirectory: string, seriesLanguage: SeriesLanguage, selectedSeries: Series): Promise<void> {
+    let seriesDetails: Series;
+    try {
+      seriesDetails = await this.seriesMetadataProvider.getSeriesWithEpisodes(selectedSeries.id, seriesLanguage.abbreviation);
+    } catch (error) {
+      console.log(`Episodes couldn't be loaded: ${error.message}`);
+      this.promptEpisodeRenames(seriesDirectory, seriesLanguage, selectedSeries);
+      return;
+    }
+
+    const confidentSuggestions = this.getConfidentSuggestions();
+    for (const season of Object.values(this.currentEpisodeRenames)) {
+      season.episodeMappings = season.episodeMappings
+        .map((episodeMapping: EpisodeMapping) => {
+          return confidentSuggestions.includes(episodeMapping)
+            ? this.episodeNamer.acceptSuggestion(seriesDetails, episodeMapping)
+            : episodeMapping;
+        })
+        .sort(this.episodeNamer.sortEpisodeMappings);
+    }
+
+    console.log(`accepted ${confidentSuggestions.length} matches`);
+    this.promptEpisodeRenames(seriesDirectory, seriesLanguage, selectedSeries);
+  }
+
+  /**
+   * Fetches the episodes again, e.g. after new episodes were added at the provider.
+   * Episodes assigned by hand are matched again, too.
+   */
+  private async refreshEpisodeRenames(seriesDirectory: string, seriesLanguage: SeriesLanguage, selectedSeries: Series): Promise<void> {
+    if (this.seriesMetadataProvider instanceof CachingProvider) {
+      try {
+        await this.seriesMetadataProvider.refreshSeries(selectedSeries.id, seriesLanguage.abbreviation);
+      } catch (error) {
+        console.log(`Refresh failed, the cached episodes are used: ${error.message}`);
+      }
+    }
+
+    this.currentEpisodeRenames = undefined;
+    this.promptEpisodeRenames(seriesDirectory, seriesLanguage, selectedSeries);
+  }
+
+  /**
+   * Lists every episode of the series per season as present, missing or unaired,
+   * followed by the videos that match no episode.
+   */
+  private async promptCompleteness(seriesDirectory: string, seriesLanguage: SeriesLanguage, selectedSeries: Series): Promise<void> {
+    this.currentPrompt = 'completeness';
+    let seriesDetails: Series;
+    try {
+      seriesDetails = await this.seriesMetadataProvider.getSeriesWithEpisodes(selectedSeries.id, seriesLanguage.abbreviation);
+    } catch (error) {
+      console.log(`Episodes couldn't be loaded: ${error.message}`);
+      this.promptEpisodeRenames(seriesDirectory, seriesLanguage, selectedSeries);
+      return;
+    }
+
+    this.currentCompleteness = SeriesCompleteness.fromSeasonMapping(seriesDetails, this.currentEpisodeRenames, this.seriesSettings.order);
+
+    const options = [];
+    for (const season of this.currentCompleteness.seasons) {
+      const seasonName = season.seasonNumber === 0 ? 'Specials' : `Season ${season.seasonNumber}`;
+      const counts = [
+        `${season.presentCount} of ${season.presentCount + season.missingCount} present`,
+        season.missingCount > 0 ? `${season.missingCount} missing` : undefined,
+        season.unairedCount > 0 ? `${season.unairedCount} unaired` : undefined,
+        season.extraFiles.length > 0 ? `${season.extraFiles.length} extra` : undefined,
+      ].filter((count: string) => {
+        return count !== undefined;
+      });
+
+      options.push({
+        name: `season${season.seasonNumber}`,
+        message: `--- ${seasonName}: ${counts.join(', ')} ---`,
+        value: undefined,
+        disabled: '',
+      });
+
+      options.push(...season.episodes.map((episode: EpisodeCompleteness) => {
+        return {
+          name: `${episode.episode.id}`,
+          message: this.formatEpisodeCompleteness(episode),
+          value: episode,
+        };
+      }), ...season.extraFiles.map((extraFile: string) => {
+        return {
+          name: extraFile,
+          message: `[+] ${path.basename(extraFile)}  extra, matches no episode`,
+          value: extraFile,
+        };
+      }));
     }
-    this.episodeRenamePrompt = new Select({
+
+    const missingCount = this.currentCompleteness.missingEpisodes.length;
+    this.completenessPrompt = new Select({
       message: null,
       choices: options,
-      header: `Folder: ${seriesDirectory}\nLanguage: ${seriesLanguage.englishName}\nSeries: ${selectedSeries.seriesName}`,
-      footer: '[a]ccept, esc = abort',
-      initial: this.currentEpisodeAssign ? this.currentEpisodeAssign.name : undefined,
+      header: `Folder: ${seriesDirectory}\nSeries: ${seriesDetails.seriesName}\n${missingCount} missing episodes`,
+      footer: 'export missing episodes as [t]ext or [c]sv, esc = back',
     });
-  
+
     try {
-      await this.episodeRenamePrompt.run();
-      this.currentEpisodeAssign = this.episodeRenamePrompt.selected;
-      this.episodeRenamePrompt.stop();
-      console.clear();
-      this.promptEpisodeAssign(seriesDirectory, seriesLanguage, seriesDetails, this.currentEpisodeAssign);
+      await this.completenessPrompt.run();
     } catch {
-      this.episodeRenamePrompt.stop();
-      console.clear();
-      this.promptSeriesName(seriesDirectory, seriesLanguage);
+      // back to the episode list either way
+    }
+    this.completenessPrompt.stop();
+    console.clear();
+    this.promptEpisodeRenames(seriesDirectory, seriesLanguage, selectedSeries);
+  }
+
+  // e.g. '[ ] S01E03 Title  missing, aired 2019-01-15'
+  private formatEpisodeCompleteness(episode: EpisodeCompleteness): string {
+    const title = `${formatEpisodeNumber(episode)} ${episode.episode.episodeName}`;
+    if (episode.status === 'present') {
+      const fileCount = episode.files.length > 1 ? `  ${episode.files.length} files` : '';
+      return `[x] ${title}${fileCount}`;
+    }
+
+    if (episode.status === 'missing') {
+      return `[ ] ${title}  missing, aired ${episode.episode.firstAired}`;
+    }
+
+    return `[ ] ${title}  unaired${episode.episode.firstAired ? `, airs ${episode.episode.firstAired}` : ''}`;
+  }
+
+  private async promptExportMissingEpisodes(completeness: SeriesCompleteness, format: CompletenessExportFormat): Promise<void> {
+    this.currentPrompt = 'export-missing-episodes';
+
+    const fileExtension = format === 'csv' ? 'csv' : 'txt';
+    const exportPrompt = new Input({
+      message: 'export to',
+      header: `Exporting ${completeness.missingEpisodes.length} missing episodes of ${completeness.seriesName} as ${format}`,
+      footer: 'esc = abort',
+      initial: path.join(this.startDirectory, `${path.basename(this.currentSeriesDirectory)}.missing-episodes.${fileExtension}`),
+    });
+
+    let exportMessage: string;
+    try {
+      const exportPath = await exportPrompt.run();
+      exportPrompt.stop();
+      await completeness.exportMissingEpisodes(exportPath, format);
+      exportMessage = `exported missing episodes to ${exportPath}`;
+    } catch (error) {
+      exportPrompt.stop();
+      // probably just aborted, but the export itself could have failed as well
+      if (error instanceof Error) {
+        exportMessage = `export failed: ${error.message}`;
+      }
+    }
+
+    console.clear();
+    if (exportMessage !== undefined) {
+      console.log(exportMessage);
     }
+    this.promptCompleteness(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
   }
 
   private async promptEpisodeAssign(seriesDirectory: string, seriesLanguage: SeriesLanguage, selectedSeries: Series, episodeMapping: EpisodeMapping) {
     this.currentPrompt = 'assign-episode';
-    const possibleEpisodes = this.generateEpisodeSelection(selectedSeries, episodeMapping.value.seasonNumber);
+    const possibleEpisodes = this.episodeNamer.generateEpisodeSelection(selectedSeries, episodeMapping.value.seasonNumber);
 
     const seasons = Object.keys(possibleEpisodes).sort();
     const options = [];
@@ -582,35 +2001,52 @@ export class FileBrowser {
         disabled: '',
       }, ...possibleEpisodes[season].episodeMappings)
     }
-    this.episodeAssignPrompt = new Select({
+    this.episodeAssignPrompt = new MultiSelect({
       message: null,
       choices: options,
       header: `File: ${episodeMapping.value.originalPath}\nLanguage: ${seriesLanguage.englishName}\nSeries: ${selectedSeries.seriesName}`,
-      footer: 'esc = abort',
+      footer: 'space = select more episodes (multi-episode file), esc = abort',
     });
   
     try {
       await this.episodeAssignPrompt.run();
-      const selectedEpisode: Episode = this.episodeAssignPrompt.selected.value;
+      // without selecting anything, enter assigns the focused episode
+      const selectedChoices: Array<ArrayPromptOption> = this.episodeAssignPrompt.selected.length > 0
+        ? this.episodeAssignPrompt.selected
+        : [this.episodeAssignPrompt.focused];
+      const selectedEpisodes: Array<Episode> = selectedChoices.map((choice: ArrayPromptOption) => {
+        return choice.value;
+      });
       const episodesInSeason = selectedSeries.episodes.filter((seriesEpisode: Episode) => {
-        return seriesEpisode.airedSeason === selectedEpisode.airedSeason;
+        return getSeasonNumber(seriesEpisode, this.seriesSettings.order) === getSeasonNumber(selectedEpisodes[0], this.seriesSettings.order);
       });
       const seasonMappings = this.currentEpisodeRenames[episodeMapping.value.seasonNumber];
       for (let i = 0; i < seasonMappings.episodeMappings.length; i++) {
         if (seasonMappings.episodeMappings[i].name === episodeMapping.name) {
-          seasonMappings.episodeMappings[i] = this.generateEpisodeName(
-            selectedSeries.seriesName,
-            episodeMapping.value.seasonFolder,
+          const generatedEpisodeMapping = this.episodeNamer.generateEpisodeName(
+            selectedSeries,
+            path.dirname(episodeMapping.value.originalPath),
             episodeMapping.value.seasonNumber,
             path.basename(episodeMapping.value.originalPath),
             episodesInSeason,
-            selectedEpisode.airedEpisodeNumber,
+            selectedEpisodes
+              .map((selectedEpisode: Episode) => {
+                return getEpisodeNumber(selectedEpisode, this.seriesSettings.order);
+              })
+              .sort((episodeNumber1: number, episodeNumber2: number) => {
+                return episodeNumber1 - episodeNumber2;
+              }),
           )
+          const updatedEpisodeMapping = this.episodeNamer.renameCompanions(generatedEpisodeMapping, episodeMapping.value.companions);
+          // files of flat layouts keep their target season folder
+          seasonMappings.episodeMappings[i] = updatedEpisodeMapping.value.seasonFolder !== episodeMapping.value.seasonFolder
+            ? this.episodeNamer.moveEpisodeMapping(updatedEpisodeMapping, episodeMapping.value.seasonFolder)
+            : updatedEpisodeMapping;
           console.log(seasonMappings.episodeMappings[i]);
         }
       }
 
-      this.currentEpisodeRenames[episodeMapping.value.seasonNumber].episodeMappings.sort(this.sortEpisodeMappings);
+      this.currentEpisodeRenames[episodeMapping.value.seasonNumber].episodeMappings.sort(this.episodeNamer.sortEpisodeMappings);
       this.episodeAssignPrompt.stop();
       console.clear();
       this.promptEpisodeRenames(seriesDirectory, seriesLanguage, selectedSeries);
@@ -621,168 +2057,452 @@ export class FileBrowser {
     }
   }
 
-  private async renameEpisodes(episodeRenames: SeasonMapping) {
-    let renamedFileCount = 0;
-    const seasonMappings = Object.values(episodeRenames).map((season: {folderName?: string, episodeMappings: Array<EpisodeMapping>}): Promise<Array<void>> => {
-      const episodeMappings = season.episodeMappings.map(async(episodeMapping: EpisodeMapping): Promise<void> =>{
-        if (episodeMapping.value.rename !== false) {
-          renamedFileCount++;
-          return fsPromises.rename(episodeMapping.value.originalPath, episodeMapping.value.updatedPath);
+  private async promptRenamePreview(seriesDirectory: string, seriesLanguage: SeriesLanguage, selectedSeries: Series) {
+    this.currentPrompt = 'rename-preview';
+    this.currentRenamePlan = await RenamePlan.fromSeasonMapping(seriesDirectory, selectedSeries.seriesName, this.currentEpisodeRenames);
+    const plan = this.currentRenamePlan;
+
+    let applyOption: ArrayPromptOption;
+    if (this.dryRun) {
+      applyOption = {name: 'apply', message: 'print plan (dry run, nothing is renamed)', value: 'apply'};
+    } else {
+      applyOption = {
+        name: 'apply',
+        message: `apply ${plan.renameCount} renames`,
+        value: 'apply',
+        disabled: plan.conflictCount > 0 ? '(resolve conflicts first)' : false,
+      };
+    }
+
+    const choices = [
+      applyOption,
+      {name: 'json', message: 'export plan as JSON', value: 'json'},
+      {name: 'text', message: 'export plan as text', value: 'text'},
+    ];
+    if (plan.conflictCount > 0) {
+      choices.splice(1, 0, {name: 'keep', message: `keep the current names of ${plan.conflictCount} conflicting files`, value: 'keep'});
+    }
+
+    this.renamePreviewPrompt = new Select({
+      message: null,
+      choices: choices,
+      header: plan.toText(),
+      footer: 'esc = back',
+    });
+
+    try {
+      const action = await this.renamePreviewPrompt.run();
+      this.renamePreviewPrompt.stop();
+      console.clear();
+      if (action === 'apply') {
+        if (this.dryRun) {
+          console.log(plan.toText());
+        } else {
+          await this.renameEpisodes(plan);
         }
-      });
-      return Promise.all(episodeMappings);
+        this.promptMainMenu();
+        return;
+      }
+
+      if (action === 'keep') {
+        await this.keepConflictingNames(seriesDirectory, selectedSeries);
+        this.promptRenamePreview(seriesDirectory, seriesLanguage, selectedSeries);
+        return;
+      }
+
+      this.promptExportPlan(plan, action);
+    } catch {
+      this.renamePreviewPrompt.stop();
+      console.clear();
+      this.promptEpisodeRenames(seriesDirectory, seriesLanguage, selectedSeries);
+    }
+  }
+
+  private async promptExportPlan(plan: RenamePlan, format: RenamePlanFormat) {
+    this.currentPrompt = 'export-plan';
+
+    const fileExtension = format === 'json' ? 'json' : 'txt';
+    const exportPrompt = new Input({
+      message: 'export to',
+      header: `Exporting rename plan for ${plan.seriesDirectory} as ${format}`,
+      footer: 'esc = abort',
+      initial: path.join(this.startDirectory, `${path.basename(plan.seriesDirectory)}.rename-plan.${fileExtension}`),
     });
 
-    await Promise.all(seasonMappings);
-    console.log(`renamed ${renamedFileCount} files`);
+    let exportMessage: string;
+    try {
+      const exportPath = await exportPrompt.run();
+      exportPrompt.stop();
+      await plan.export(exportPath, format);
+      exportMessage = `exported plan to ${exportPath}`;
+    } catch (error) {
+      exportPrompt.stop();
+      // probably just aborted, but the export itself could have failed as well
+      if (error instanceof Error) {
+        exportMessage = `export failed: ${error.message}`;
+      }
+    }
+
+    console.clear();
+    if (exportMessage !== undefined) {
+      console.log(exportMessage);
+    }
+    this.promptRenamePreview(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
   }
 
-  private async getAllFilesInFolder(folderPath: string): Promise<Array<string>> {
-    const currentFolderItems = await fsPromises.readdir(folderPath);
-    const [files, folders] = await Promise.all([
-      this.filterAsync(currentFolderItems, async (itemName: string): Promise<boolean> => {
-        const isFolder = await this.isFolder(path.join(folderPath, itemName));
-        return !isFolder
-      }),
-      this.filterAsync(currentFolderItems, async (itemName: string): Promise<boolean> => {
-        const isFolder = await this.isFolder(path.join(folderPath, itemName));
-        return isFolder
-      }),
-    ]);
+  /**
+   * A file that keeps its name can be the new name of another file, so this is repeated
+   * until no conflicts are left.
+   */
+  private async keepConflictingNames(seriesDirectory: string, selectedSeries: Series): Promise<void> {
+    let plan = this.currentRenamePlan;
+    while (plan.conflictCount > 0) {
+      const conflictingPaths = new Set(plan.entries
+        .filter((entry: RenamePlanEntry) => {
+          return entry.conflicts.length > 0 && entry.rename;
+        })
+        .map((entry: RenamePlanEntry) => {
+          return entry.originalPath;
+        }));
 
-    const filesInThisFolder = files.map((fileName: string) => {
-      return path.join(folderPath, fileName);
-    })
+      // conflicts of files that already keep their names can't be solved this way
+      if (conflictingPaths.size === 0) {
+        break;
+      }
 
-    const filesInSubFolders = await Promise.all(folders.map((folderName: string) => {
-      return this.getAllFilesInFolder(path.join(folderPath, folderName));
-    }));
+      for (const season of Object.values(this.currentEpisodeRenames)) {
+        season.episodeMappings = season.episodeMappings.map((episodeMapping: EpisodeMapping) => {
+          return this.episodeNamer.keepOriginalNames(episodeMapping, conflictingPaths);
+        });
+      }
 
-    return [
-      ...filesInThisFolder,
-      ...filesInSubFolders.flat(),
-    ]
+      plan = await RenamePlan.fromSeasonMapping(seriesDirectory, selectedSeries.seriesName, this.currentEpisodeRenames);
+    }
   }
 
-  private async getFolderNames(basePath: string): Promise<Array<string>> {
-    const currentFolderItems = await fsPromises.readdir(basePath);
-    return this.filterAsync(currentFolderItems, async (itemName: string): Promise<boolean> => {
-      const isFolder = await this.isFolder(path.join(basePath, itemName));
-      return isFolder
-    });
+  // failures are reported here, the caller's catch is meant for aborted prompts
+  private async renameEpisodes(plan: RenamePlan) {
+    try {
+      const batch = await plan.apply(this.journal);
+      console.log(`renamed ${batch.entries.length} files`);
+    } catch (error) {
+      console.log(`renaming failed: ${error.message}. The renames so far can be undone`);
+    }
+  }
+
+  /**
+   * Standardizes the current folder as the folder of one movie, possibly split into parts.
+   */
+  private async promptMovieRename(movieDirectory: string): Promise<void> {
+    console.clear();
+    const movieFolder = await this.movieNamer.readMovieFolder(movieDirectory);
+    if (movieFolder.videos.length === 0) {
+      console.log(`no videos in ${movieDirectory}`);
+      this.promptMainMenu();
+      return;
+    }
+
+    const searchTerm = movieFolder.year !== undefined ? `${movieFolder.title || ''} (${movieFolder.year})` : movieFolder.title;
+    this.promptMovieName(movieFolder, searchTerm || path.basename(movieDirectory));
   }
 
-  private async getFileNames(basePath: string): Promise<Array<string>> {
-    const currentFolderItems = await fsPromises.readdir(basePath);
-    return this.filterAsync(currentFolderItems, async (itemName: string): Promise<boolean> => {
-      const isFolder = await this.isFolder(path.join(basePath, itemName));
-      return !isFolder
+  // a year in the search term, like 'The Matrix (1999)', narrows the search
+  private async promptMovieName(movieFolder: MovieFolder, searchTerm: string): Promise<void> {
+    this.currentPrompt = 'movie-name';
+
+    const movieNamePrompt = new Input({
+      message: 'movie',
+      header: [
+        `Folder: ${movieFolder.directory}`,
+        `Language: ${this.settings.language}`,
+        movieFolder.edition !== undefined ? `Edition: ${movieFolder.edition}` : undefined,
+      ].filter(Boolean).join('\n'),
+      footer: 'esc = abort',
+      initial: searchTerm,
     });
+
+    let movieName: string;
+    try {
+      movieName = await movieNamePrompt.run();
+    } catch {
+      // back to the folder view
+    }
+    movieNamePrompt.stop();
+    console.clear();
+
+    if (movieName === undefined) {
+      this.promptMainMenu();
+      return;
+    }
+
+    this.promptMovieSuggestions(movieFolder, movieName);
   }
 
-  private async isFolder(folderPath: string): Promise<boolean> {
-    let folderStats;
+  private async promptMovieSuggestions(movieFolder: MovieFolder, searchTerm: string): Promise<void> {
+    this.currentPrompt = 'movie-suggestions';
+
+    const parsedSearchTerm = parseMovieName(searchTerm);
+    let movies: Array<Movie>;
+    try {
+      movies = await this.metadataProvider.searchMovies(parsedSearchTerm.title || searchTerm, parsedSearchTerm.year, this.settings.language);
+    } catch (error) {
+      console.log(`Movies couldn't be searched: ${error.message}`);
+      this.promptMainMenu();
+      return;
+    }
+
+    if (movies.length === 0) {
+      console.log('Movie not found. Did you spell it correctly?');
+      this.promptMovieName(movieFolder, searchTerm);
+      return;
+    }
+
+    const moviePrompt = new Select({
+      message: null,
+      choices: movies.map((movie: Movie, index: number): ArrayPromptOption => {
+        return {
+          name: `${index}`,
+          message: movie.originalTitle !== undefined ? `${formatMovie(movie)}, originally ${movie.originalTitle}` : formatMovie(movie),
+          value: movie,
+        };
+      }),
+      header: `Folder: ${movieFolder.directory}\nSearchTerm: ${searchTerm}`,
+      footer: 'esc = back',
+    });
+
+    let movie: Movie;
     try {
-      folderStats = await fsPromises.stat(folderPath);
+      await moviePrompt.run();
+      movie = moviePrompt.selected.value;
     } catch {
-      return false;
+      // back to the search term
+    }
+    moviePrompt.stop();
+    console.clear();
+
+    if (movie === undefined) {
+      this.promptMovieName(movieFolder, searchTerm);
+      return;
     }
 
-    return folderStats.isDirectory();
+    this.promptMoviePreview(movieFolder, movie, searchTerm);
   }
 
-  private async filterAsync<TArrayElement>(
-    arrayToFilter: Array<TArrayElement>,
-    filterMethod: (element: TArrayElement, index: number, originalArray: Array<TArrayElement>) => Promise<boolean>,
-  ): Promise<Array<TArrayElement>> {
-    const filterResults: Array<boolean> = await Promise.all(arrayToFilter.map(filterMethod));
+  private async promptMoviePreview(movieFolder: MovieFolder, movie: Movie, searchTerm: string): Promise<void> {
+    this.currentPrompt = 'movie-preview';
+    const plan = await this.movieNamer.planRenames(movieFolder, movie, this.journal.journalDirectory);
+
+    let applyOption: ArrayPromptOption;
+    if (this.dryRun) {
+      applyOption = {name: 'apply', message: 'print plan (dry run, nothing is renamed)', value: 'apply'};
+    } else {
+      applyOption = {
+        name: 'apply',
+        message: `apply ${plan.renameCount} renames`,
+        value: 'apply',
+        disabled: plan.conflictCount > 0 ? '(resolve conflicts first)' : plan.renameCount === 0 ? '(nothing to rename)' : false,
+      };
+    }
+
+    const previewPrompt = new Select({
+      message: null,
+      choices: [applyOption, {name: 'back', message: 'pick another movie', value: 'back'}],
+      header: `Movie: ${formatMovie(movie)}\n${plan.toText()}`,
+      footer: 'esc = back',
+    });
+
+    let action: string;
+    try {
+      action = await previewPrompt.run();
+    } catch {
+      // back to the search results
+    }
+    previewPrompt.stop();
+    console.clear();
+
+    if (action === undefined || action === 'back') {
+      this.promptMovieSuggestions(movieFolder, searchTerm);
+      return;
+    }
+
+    if (this.dryRun) {
+      console.log(plan.toText());
+      this.promptMainMenu();
+      return;
+    }
 
-    return arrayToFilter.filter((element: TArrayElement, index: number): boolean => {
-      const elementCanStayInArray: boolean = filterResults[index];
+    try {
+      const batch = await plan.apply(this.journal);
+      console.log(`renamed ${batch.entries.length} files`);
+    } catch (error) {
+      console.log(`renaming failed: ${error.message}. The renames so far can be undone`);
+    }
 
-      return elementCanStayInArray;
+    // the folder view follows the renamed movie folder
+    const folderEntry = plan.entries.find((entry: RenamePlanEntry) => {
+      return entry.originalPath === movieFolder.directory;
     });
+    if (this.currentDirectory === movieFolder.directory && await pathExists(folderEntry.updatedPath)) {
+      this.currentDirectory = folderEntry.updatedPath;
+    }
+    this.promptMainMenu();
   }
 
   private handleKeyPress = (key: string, data: KeyPressData) : void=> {
-    if (this.currentPrompt === 'folder-selection') {
+    // a handler can open the next prompt right away, which must not receive the same key
+    const currentPrompt = this.currentPrompt;
+
+    if (currentPrompt === 'folder-selection') {
       this.handleFolderSelectionKeyPress(key, data);
     }
 
-    if (this.currentPrompt === 'move-folder') {
+    if (currentPrompt === 'move-folder') {
       this.handleMoveFolderKeyPress(key, data);
     }
 
-    if (this.currentPrompt === 'hoist-files') {
+    if (currentPrompt === 'hoist-files') {
       this.handleHoistFilesKeyPress(key, data);
     }
 
-    if (this.currentPrompt === 'non-video-purge') {
+    if (currentPrompt === 'non-video-purge') {
       this.handleNonVideoPurgeKeyPress(key, data);
     }
 
-    if (this.currentPrompt === 'series-language') {
+    if (currentPrompt === 'undo') {
+      this.handleUndoKeyPress(key, data);
+    }
+
+    if (currentPrompt === 'series-language') {
       this.handleSeriesLanguageKeyPress(key, data);
     }
 
-    if (this.currentPrompt === 'series-suggestions') {
+    if (currentPrompt === 'series-suggestions') {
       this.handleSeriesSuggestionsKeyPress(key, data);
     }
 
-    if (this.currentPrompt === 'episode-renames') {
+    if (currentPrompt === 'episode-renames') {
       this.handleEpisodeRenamesKeyPress(key, data);
     }
 
-    if (this.currentPrompt === 'assign-episode') {
+    if (currentPrompt === 'assign-episode') {
       this.handleAssignEpisodeKeyPress(key, data);
     }
+
+    if (currentPrompt === 'rename-preview') {
+      this.handleRenamePreviewKeyPress(key, data);
+    }
+
+    if (currentPrompt === 'completeness') {
+      this.handleCompletenessKeyPress(key, data);
+    }
+
+    if (currentPrompt === 'library-report') {
+      this.handleLibraryReportKeyPress(key, data);
+    }
   }
 
   private handleFolderSelectionKeyPress(key: string, data: KeyPressData): void {
     this.highlightedFolder = this.filesPrompt.selected.value;
     const selectedFolder = path.join(this.currentDirectory, this.filesPrompt.selected.value);
-    if (key === 'r') {
+    const keyBindings = this.settings.keyBindings;
+    if (key === keyBindings.toggleSelection) {
       this.filesPrompt.stop();
-      this.promptRename(selectedFolder);
+      this.toggleSelection(selectedFolder);
     }
-    if (key === 'c') {
+    if (key === keyBindings.selectAll) {
+      this.filesPrompt.stop();
+      this.toggleSelectAll();
+    }
+    if (key === keyBindings.selectPattern) {
+      this.filesPrompt.stop();
+      this.promptSelectPattern(this.currentDirectory);
+    }
+    if (key === keyBindings.rename) {
+      this.filesPrompt.stop();
+      this.promptRename(this.getTargetPaths());
+    }
+    if (key === keyBindings.bulkRename) {
+      this.filesPrompt.stop();
+      this.promptPatternRename(this.currentDirectory);
+    }
+    if (key === keyBindings.createFolder) {
       this.filesPrompt.stop();
       this.promptCreateFolder(this.currentDirectory);
     }
-    if (key === 'd') {
+    if (key === keyBindings.delete) {
       this.filesPrompt.stop();
-      this.promptDeleteFolder(selectedFolder);
+      this.promptDeleteFolder(this.getTargetPaths());
     }
-    if (key === 'h') {
+    if (key === keyBindings.hoist) {
       this.filesPrompt.stop();
-      this.hoistFiles(this.currentDirectory);
+      this.hoistFiles(this.currentDirectory, Array.from(this.selectedPaths));
     }
-    if (key === 'm') {
+    if (key === keyBindings.move) {
       this.filesPrompt.stop();
-      this.promptMoveFolder(this.currentDirectory, selectedFolder);
+      this.promptMoveFolder(this.currentDirectory, this.getTargetPaths());
     }
-    if (key === 'u') {
+    if (key === keyBindings.update) {
       this.filesPrompt.stop();
       console.clear();
       this.promptMainMenu();
     }
-    if (key === 'p') {
+    if (key === keyBindings.purge) {
       this.filesPrompt.stop();
-      this.promptNonVideoPurge(this.currentDirectory);
+      this.promptNonVideoPurge(this.currentDirectory, Array.from(this.selectedPaths));
     }
-    if (key === 'e') {
+    if (key === keyBindings.exit) {
       this.filesPrompt.stop();
     }
-    if (key === 's') {
+    if (key === keyBindings.standardize) {
       this.filesPrompt.stop();
       this.promptSeriesRename(this.currentDirectory);
     }
+    if (key === keyBindings.movie) {
+      this.filesPrompt.stop();
+      this.promptMovieRename(this.currentDirectory);
+    }
+    if (key === keyBindings.undo) {
+      this.filesPrompt.stop();
+      this.promptUndo();
+    }
+    if (key === keyBindings.scan) {
+      this.filesPrompt.stop();
+      this.scanLibrary(this.currentDirectory);
+    }
+    if (key === keyBindings.duplicates) {
+      this.filesPrompt.stop();
+      this.findDuplicates(this.currentDirectory);
+    }
+    if (key === keyBindings.sortIntoLibrary) {
+      this.filesPrompt.stop();
+      this.promptSortLibrary(this.currentDirectory);
+    }
+    if (key === keyBindings.review) {
+      this.filesPrompt.stop();
+      this.openReviewQueue(this.currentDirectory);
+    }
+  }
+
+  /**
+   * Marks the bound key inside the label if possible ('[R]ename'), otherwise prefixes it ('[Z] undo').
+   */
+  private generateFolderSelectionFooter(keyBindings: KeyBindings): string {
+    return folderSelectionActions
+      .map(({action, label}) => {
+        const key = keyBindings[action];
+        if (label[0].toLowerCase() === key) {
+          return `[${key.toUpperCase()}]${label.substring(1)}`;
+        }
+
+        return `[${key === ' ' ? 'Space' : key.toUpperCase()}] ${label}`;
+      })
+      .join(', ');
   }
 
   private handleMoveFolderKeyPress(key: string, data: KeyPressData): void {
-    if (key === 'a') {
+    if (key === 'a' && this.currentMoveTargetIsAcceptable) {
       this.moveFolderPrompt.stop();
-      this.moveFolder(this.currentFolderToMove, this.currentMoveTarget);
+      this.moveFolder(this.currentPathsToMove, this.currentMoveTargetDirectory);
     }
     if (data.name === 'backspace') {
       this.moveFolderPrompt.stop();
@@ -807,6 +2527,14 @@ export class FileBrowser {
     }
   }
 
+  private handleUndoKeyPress(key: string, data: KeyPressData): void {
+    if (data.name === 'backspace') {
+      this.confirmUndoPrompt.stop();
+      console.clear();
+      this.promptMainMenu();
+    }
+  }
+
   private handleSeriesLanguageKeyPress(key: string, data: KeyPressData): void {
     if (data.name === 'backspace') {
       this.seriesLanguagePrompt.stop();
@@ -832,233 +2560,81 @@ export class FileBrowser {
     if (key === 'a') {
       this.episodeRenamePrompt.stop();
       console.clear();
-      this.renameEpisodes(this.currentEpisodeRenames);
-      this.promptMainMenu();
+      this.promptRenamePreview(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
     }
-  }
-
-  private handleAssignEpisodeKeyPress(key: string, data: KeyPressData): void {
-    if (data.name === 'backspace') {
-      this.episodeAssignPrompt.stop();
+    if (key === 'm' && this.getConfidentSuggestions().length > 0) {
+      this.episodeRenamePrompt.stop();
       console.clear();
-      this.promptEpisodeRenames(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
+      this.acceptConfidentSuggestions(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
     }
-  }
-
-  private generateEpisodeSelection(seriesDetails: Series, targetSeason?: number): SeasonMapping {
-    const result = {};
-    for (const episode of seriesDetails.episodes) {
-      const season = episode.airedSeason;
-      if (targetSeason !== undefined && season !== targetSeason) {
-        continue;
-      }
-      if (result[season] === undefined) {
-        result[season] = {episodeMappings: []}
-      }
-
-      result[season].episodeMappings.push(this.generateEpisodeMapping(seriesDetails, episode));
+    if (key === 'c') {
+      this.episodeRenamePrompt.stop();
+      console.clear();
+      this.promptCompleteness(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
+    }
+    if (key === 'r' && this.seriesMetadataProvider instanceof CachingProvider) {
+      this.episodeRenamePrompt.stop();
+      console.clear();
+      this.refreshEpisodeRenames(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
     }
-  
-    return result;
   }
 
-  private generateEpisodeMapping(seriesDetails: Series, episode: Episode): ArrayPromptOption {
-    const episodesInSeason = seriesDetails.episodes.filter((seriesEpisode: Episode) => {
-      return seriesEpisode.airedSeason === episode.airedSeason;
-    });
-
-    const prefixedEpisodeNumber = this.generateEpisodeNumber(episode.airedEpisodeNumber, episodesInSeason.length);
-    return {
-      name: `${episode.id}`,
-      message: `E${prefixedEpisodeNumber}: ${episode.episodeName}`,
-      value: episode,
-    }
-  } 
-
-  private async generateEpisodeNames(seriesDirectory: string, seriesDetails: Series): Promise<SeasonMapping> {
-    const folders = await this.getFolderNames(seriesDirectory);
-    
-    const seasonRegex = /\d+/;
-    const seasonFolders = folders.map((folderName: string): FolderSeasonMatch => {
-      const folderSeasonNumber = folderName.match(seasonRegex);
-      if (folderSeasonNumber === null) {
-        return undefined;
-      }
-      return {
-        folderName: folderName,
-        season: parseInt(folderSeasonNumber[0]),
-      }
-    }).filter((folderSeasonInfo: FolderSeasonMatch): boolean => {
-      return folderSeasonInfo !== undefined;
-    });
-
-    const episodeMappings = await Promise.all(seasonFolders.map((folderSeasonInfo: FolderSeasonMatch): Promise<Array<ArrayPromptOption>> => {
-      const seasonFolder = path.join(seriesDirectory, folderSeasonInfo.folderName)
-      return this.generateEpisodeNamesForSeason(seasonFolder, folderSeasonInfo.season, seriesDetails);
-    }));
-
-    const result: SeasonMapping = {};
-    for (let i = 0; i < seasonFolders.length; i++) {
-      result[seasonFolders[i].season] = {
-        folderName: seasonFolders[i].folderName,
-        episodeMappings: episodeMappings[i],
-      }
+  private handleRenamePreviewKeyPress(key: string, data: KeyPressData): void {
+    if (data.name === 'backspace') {
+      this.renamePreviewPrompt.stop();
+      console.clear();
+      this.promptEpisodeRenames(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
     }
-
-    return result;
   }
 
-  private async generateEpisodeNamesForSeason(seasonFolder: string, season: number, seriesDetails: Series): Promise<Array<EpisodeMapping>> {
-    const episodesInSeason = seriesDetails.episodes.filter((episode: Episode) => {
-      return episode.airedSeason === season;
-    });
-
-    const filesInSeasonFolder = await this.getFileNames(seasonFolder);
-    return filesInSeasonFolder.map((fileName) => {
-      return this.generateEpisodeName(seriesDetails.seriesName, seasonFolder, season, fileName, episodesInSeason);
-    })
-    .filter((episodeMapping: EpisodeMapping) => {
-      return episodeMapping !== undefined;
-    })
-    .sort(this.sortEpisodeMappings)
-  }
-
-  private sortEpisodeMappings(episodeMapping1: EpisodeMapping, episodeMapping2: EpisodeMapping): number {
-    const episode1 = episodeMapping1.value.episode !== undefined
-      ? episodeMapping1.value.episode.airedEpisodeNumber
-      : undefined;
-
-    const episode2 = episodeMapping2.value.episode !== undefined
-      ? episodeMapping2.value.episode.airedEpisodeNumber
-      : undefined;
-      
-    if (episode1 === episode2) {
-      return 0;
-    }
-    
-    if (episode1 === undefined) {
-      return 1
-    }
-
-    if (episode2 === undefined) {
-      return -1;
-    }
-
-    return episode1 - episode2;
-  }
-
-  private generateEpisodeName(
-    seriesName: string,
-    seasonFolder: string,
-    seasonNumber: number,
-    fileName: string,
-    episodesInSeason: Array<Episode>,
-    forceEpisodeNumber?: number,
-  ): EpisodeMapping {
-    const fileExtension = path.extname(fileName).toLowerCase();
-    const fileIsVideo = videoFileExtensions.includes(fileExtension);
-    if (!fileIsVideo) {
-      return this.unchangedEpisodeMapping(seasonFolder, seasonNumber, fileName);
-    }
-
-    let episodeNumber = forceEpisodeNumber;
-    if (episodeNumber === undefined) {
-      for (const {regex, numberStart} of episodeRegexes) {
-        const episodeNumberMatch = fileName.match(regex);
-        if (episodeNumberMatch !== null) {
-          episodeNumber = parseInt(episodeNumberMatch[0].substring(numberStart))
-          break;
-        }
-      }
-    }
-  
-    if (episodeNumber === undefined) {
-      return this.unchangedEpisodeMapping(seasonFolder, seasonNumber, fileName);
+  private handleCompletenessKeyPress(key: string, data: KeyPressData): void {
+    const exportFormats: {[key: string]: CompletenessExportFormat} = {t: 'text', c: 'csv'};
+    if (exportFormats[key] !== undefined) {
+      this.completenessPrompt.stop();
+      console.clear();
+      this.promptExportMissingEpisodes(this.currentCompleteness, exportFormats[key]);
     }
-
-    const episode = episodesInSeason.find((episode: Episode) => {
-      return episode.airedEpisodeNumber === episodeNumber;
-    });
-
-    if (episode === undefined) {
-      return this.unchangedEpisodeMapping(seasonFolder, seasonNumber, fileName);
-    }
-
-    const prefixedEpisodeNumber = this.generateEpisodeNumber(episodeNumber, episodesInSeason.length);
-    const sanatizedName = this.generateEpisodeFileName(
-      fileExtension,
-      seriesName,
-      episode.airedSeason,
-      episode.episodeName,
-      episode.airedEpisodeNumber,
-      episodesInSeason.length
-    );
-    return {
-      name: sanatizedName,
-      message: `E${prefixedEpisodeNumber}: ${fileName} > ${sanatizedName}`,
-      value: {
-        originalPath: path.join(seasonFolder, fileName),
-        updatedPath: path.join(seasonFolder, sanatizedName),
-        episode: episode,
-        rename: fileName !== sanatizedName,
-        episodeNumber: prefixedEpisodeNumber,
-        seasonNumber: seasonNumber,
-        seasonFolder: seasonFolder,
-      }
+    if (data.name === 'backspace') {
+      this.completenessPrompt.stop();
+      console.clear();
+      this.promptEpisodeRenames(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
     }
   }
 
-  private generateEpisodeNumber(episodeNumber: number, episodesInSeason: number) {
-    if (episodesInSeason < 100) {
-      return this.twoZero(episodeNumber);
+  private handleLibraryReportKeyPress(key: string, data: KeyPressData): void {
+    const exportFormats: {[key: string]: LibraryReportFormat} = {j: 'json', c: 'csv', h: 'html', t: 'text'};
+    if (exportFormats[key] !== undefined) {
+      this.libraryReportPrompt.stop();
+      console.clear();
+      this.promptExportReport(this.currentLibraryReport, exportFormats[key]);
     }
-    return this.threeZero(episodeNumber);
-  }
-
-  private unchangedEpisodeMapping(seasonFolder: string, seasonNumber: number, fileName: string): EpisodeMapping {
-    return {
-      name: fileName,
-      message: `--- ${fileName}`,
-      value: {
-        originalPath: path.join(seasonFolder, fileName),
-        updatedPath: path.join(seasonFolder, fileName),
-        episode: undefined,
-        rename: false,
-        episodeNumber: undefined,
-        seasonNumber: seasonNumber,
-        seasonFolder: seasonFolder,
-      }
+    if (data.name === 'backspace') {
+      this.libraryReportPrompt.stop();
+      console.clear();
+      this.promptMainMenu();
     }
   }
 
-  private generateEpisodeFileName(
-    fileExtension: string,
-    seriesName: string,
-    seasonNumber: number,
-    episodeName: string,
-    episodeNumber: number,
-    episodesInSeason: number
-  ): string {
-    let newEpisodeName = `${seriesName}.S${this.twoZero(seasonNumber)}E${this.generateEpisodeNumber(episodeNumber, episodesInSeason)}.${episodeName}${fileExtension}`;
-    for (const {regex, replacement} of episodeReplaces) {
-      newEpisodeName = newEpisodeName.replace(regex, replacement);
+  private handleAssignEpisodeKeyPress(key: string, data: KeyPressData): void {
+    if (data.name === 'backspace') {
+      this.episodeAssignPrompt.stop();
+      console.clear();
+      this.promptEpisodeRenames(this.currentSeriesDirectory, this.currentSeriesLanguage, this.currentSeries);
     }
-    return newEpisodeName;
   }
+}
 
-  private twoZero(input: number): string {
-    if (input < 10) {
-      return `0${input}`;
-    }
-
-    return `${input}`;
-  }
+// e.g. '/tv/Show' for one entry or '3 entries in /tv'
+function describeEntries(entryPaths: Array<string>): string {
+  return entryPaths.length === 1 ? entryPaths[0] : `${entryPaths.length} entries in ${path.dirname(entryPaths[0])}`;
+}
 
-  private threeZero(input: number): string {
-    if (input < 100) {
-      return `0${this.twoZero(input)}`;
-    }
+// the lines of a live preview that fit below the help and above the prompt
+function getPreviewLineCount(): number {
+  return Math.max(5, (process.stdout.rows || 24) - 8);
+}
 
-    return `${input}`;
-  }
+// e.g. '1 duplicate' or '3 duplicates'
+function countDuplicates(count: number): string {
+  return `${count} ${count === 1 ? 'duplicate' : 'duplicates'}`;
 }
@@ -0,0 +1,355 @@
+import path from 'path';
+
+/**
+ * One way to read the season and episode out of a file name.
+ */
+export type FileNameInterpretation = {
+  // undefined if the name only contains an episode number, e.g. `e05`
+  season: number,
+  // more than one for multi-episode files. Empty for air dates
+  episodes: Array<number>,
+  // YYYY-MM-DD, for daily shows that are named by their air date
+  airDate: string,
+  // the higher, the more likely this is what the name means
+  score: number,
+  // position of the match in the name
+  index: number,
+};
+
+export type ParsedFileName = {
+  // everything in front of the episode, year or release tags, e.g. 'Show Name'
+  title: string,
+  season: number,
+  episodes: Array<number>,
+  airDate: string,
+  year: number,
+  resolution: string,
+  codec: string,
+  releaseGroup: string,
+  // the best interpretation first. The fields above are taken from the first one
+  interpretations: Array<FileNameInterpretation>,
+};
+
+export type ParsedMovieName = {
+  // everything in front of the year, edition, part or release tags, e.g. 'The Matrix'
+  title: string,
+  year: number,
+  // e.g. 2 for `cd2` or `part2`, undefined for movies in one file
+  part: number,
+  // e.g. 'Director's Cut'
+  edition: string,
+};
+
+type EpisodePattern = {
+  regex: RegExp,
+  score: number,
+  // reads season and episodes from a match
+  read: (match: RegExpExecArray) => {season: number, episodes: Array<number>, airDate?: string},
+};
+
+// a match must not be part of a word or a longer number
+const wordStart = '(?<![a-z0-9])';
+const wordEnd = '(?![a-z0-9])';
+
+// protects against reading something like S01E01-2019 as an episode range
+const maximumEpisodeRangeLength = 20;
+
+const resolutionRegex = new RegExp(`${wordStart}(\\d{3,4}[pi]|4k|uhd)${wordEnd}`, 'i');
+const codecRegex = new RegExp(`${wordStart}(x26[45]|h\\.?26[45]|hevc|avc|xvid|divx|av1|vp9)${wordEnd}`, 'i');
+const sourceRegex = new RegExp(`${wordStart}(web-?dl|web-?rip|web|blu-?ray|bd-?rip|br-?rip|hdtv|pdtv|dvd-?rip|dvd|remux)${wordEnd}`, 'i');
+// only removed so that their numbers aren't read as episodes
+const noiseRegexes = [
+  new RegExp(`${wordStart}(aac|ac3|eac3|dts|ddp?|dd\\+|truehd|atmos)?\\d\\.\\d${wordEnd}`, 'gi'),
+  new RegExp(`${wordStart}(10|8)-?bit${wordEnd}`, 'gi'),
+  /\[[0-9a-f]{8}\]/gi,
+];
+const dateRegexes = [
+  {regex: new RegExp(`${wordStart}((?:19|20)\\d\\d)[.\\-_ ](\\d\\d)[.\\-_ ](\\d\\d)${wordEnd}`, 'gi'), year: 1, month: 2, day: 3},
+  {regex: new RegExp(`${wordStart}(\\d\\d)[.\\-_ ](\\d\\d)[.\\-_ ]((?:19|20)\\d\\d)${wordEnd}`, 'gi'), year: 3, month: 2, day: 1},
+];
+const yearRegex = new RegExp(`${wordStart}\\(?((?:19|20)\\d\\d)\\)?${wordEnd}`, 'i');
+const leadingGroupRegex = /^\[([^\]]+)\]/;
+// cd1, CD 2, part1, pt.2, disc1
+const partRegex = new RegExp(`${wordStart}(?:cd|dvd|disc|disk|part|pt)[ ._-]?(\\d{1,2})${wordEnd}`, 'i');
+// the edition tag of plex, e.g. {edition-Director's Cut}
+const editionTagRegex = /\{edition-([^}]+)\}/i;
+const editions: Array<{regex: RegExp, name: string}> = [
+  {pattern: 'director\'?s[ ._-]?cut', name: 'Director\'s Cut'},
+  {pattern: 'final[ ._-]cut', name: 'Final Cut'},
+  {pattern: 'extended(?:[ ._-](?:cut|edition|version))?', name: 'Extended Edition'},
+  {pattern: 'theatrical(?:[ ._-](?:cut|edition|version))?', name: 'Theatrical Cut'},
+  {pattern: 'ultimate[ ._-](?:cut|edition)', name: 'Ultimate Edition'},
+  {pattern: 'special[ ._-]edition', name: 'Special Edition'},
+  {pattern: 'collector\'?s[ ._-]edition', name: 'Collector\'s Edition'},
+  {pattern: 'anniversary[ ._-]edition', name: 'Anniversary Edition'},
+  {pattern: 'unrated(?:[ ._-](?:cut|edition|version))?', name: 'Unrated'},
+  {pattern: 'uncut', name: 'Uncut'},
+  {pattern: 'remastered', name: 'Remastered'},
+  {pattern: 'imax(?:[ ._-]edition)?', name: 'IMAX'},
+  {pattern: 'criterion(?:[ ._-](?:collection|edition))?', name: 'Criterion'},
+].map(({pattern, name}: {pattern: string, name: string}) => {
+  return {regex: new RegExp(`${wordStart}${pattern}${wordEnd}`, 'i'), name: name};
+});
+const trailingGroupRegex = /-([a-z0-9]+)$/i;
+
+const episodePatterns: Array<EpisodePattern> = [
+  {
+    // S01E01, S01E01E02, S01E01-E02, S01E01-02
+    regex: new RegExp(`${wordStart}s(\\d{1,3})[ ._]?e(\\d{1,4})((?:-?e\\d{1,4})+|-\\d{1,4}${wordEnd})?`, 'gi'),
+    score: 100,
+    read: (match: RegExpExecArray) => {
+      return {season: parseInt(match[1]), episodes: readEpisodes(match[2], match[3], /-?e?\d+/gi)};
+    },
+  },
+  {
+    // 1x01, 1x01-1x02, 1x01-02
+    regex: new RegExp(`${wordStart}(\\d{1,2})x(\\d{1,4})((?:-(?:\\d{1,2}x)?\\d{1,4})+)?${wordEnd}`, 'gi'),
+    score: 90,
+    read: (match: RegExpExecArray) => {
+      return {season: parseInt(match[1]), episodes: readEpisodes(match[2], match[3], /-(?:\d+x)?\d+/gi)};
+    },
+  },
+  {
+    // Season 1 Episode 2, Staffel 1 Folge 2
+    regex: new RegExp(`${wordStart}(?:season|staffel|series)[ ._-]?(\\d{1,3})[ ._-]*(?:episode|folge|ep|e)[ ._-]?(\\d{1,4})${wordEnd}`, 'gi'),
+    score: 85,
+    read: (match: RegExpExecArray) => {
+      return {season: parseInt(match[1]), episodes: [parseInt(match[2])]};
+    },
+  },
+  {
+    // E01, Ep01, Episode 1, Folge 1, E01E02, E01-02
+    regex: new RegExp(`${wordStart}(?:e|ep|episode|folge)[ ._]?(\\d{1,4})((?:-?e\\d{1,4})+|-\\d{1,4}${wordEnd})?`, 'gi'),
+    score: 70,
+    read: (match: RegExpExecArray) => {
+      return {season: undefined, episodes: readEpisodes(match[1], match[2], /-?e?\d+/gi)};
+    },
+  },
+  {
+    // a plain number like '05' or 'Show - 05'
+    regex: new RegExp(`${wordStart}(\\d{1,4})${wordEnd}`, 'gi'),
+    score: 25,
+    read: (match: RegExpExecArray) => {
+      return {season: undefined, episodes: [parseInt(match[1])]};
+    },
+  },
+  {
+    // 105 or 1005 as season 1 episode 5
+    regex: new RegExp(`${wordStart}(\\d{1,2})(\\d\\d)${wordEnd}`, 'gi'),
+    score: 20,
+    read: (match: RegExpExecArray) => {
+      return {season: parseInt(match[1]), episodes: [parseInt(match[2])]};
+    },
+  },
+];
+
+/**
+ * Reads everything a release name tells about an episode, e.g.
+ * `Show.Name.2019.S02E05.1080p.WEB-DL.x264-GROUP.mkv`. Release tags, years and
+ * dates are recognized first, so that their numbers can't be mistaken for episodes.
+ * All remaining season/episode patterns are returned as interpretations, best first.
+ */
+export function parseFileName(fileName: string): ParsedFileName {
+  const name = path.basename(fileName, path.extname(fileName));
+  // recognized parts are blanked out here, so that later patterns don't match them again
+  let maskedName = name;
+  // where the title ends at the latest
+  let titleEnd = name.length;
+
+  const mask = (index: number, length: number, endsTitle: boolean): void => {
+    maskedName = maskedName.substring(0, index) + ' '.repeat(length) + maskedName.substring(index + length);
+    if (endsTitle) {
+      titleEnd = Math.min(titleEnd, index);
+    }
+  };
+
+  const findTag = (regex: RegExp): string => {
+    const match = regex.exec(maskedName);
+    if (match === null) {
+      return undefined;
+    }
+
+    mask(match.index, match[0].length, true);
+    return match[1];
+  };
+
+  let releaseGroup: string;
+  const leadingGroupMatch = leadingGroupRegex.exec(maskedName);
+  if (leadingGroupMatch !== null) {
+    releaseGroup = leadingGroupMatch[1];
+    mask(0, leadingGroupMatch[0].length, false);
+  }
+
+  for (const noiseRegex of noiseRegexes) {
+    for (const match of execAll(noiseRegex, maskedName)) {
+      mask(match.index, match[0].length, false);
+    }
+  }
+
+  const interpretations: Array<FileNameInterpretation> = [];
+  for (const {regex, year, month, day} of dateRegexes) {
+    for (const match of execAll(regex, maskedName)) {
+      const monthNumber = parseInt(match[month]);
+      const dayNumber = parseInt(match[day]);
+      if (monthNumber < 1 || monthNumber > 12 || dayNumber < 1 || dayNumber > 31) {
+        continue;
+      }
+
+      interpretations.push({
+        season: undefined,
+        episodes: [],
+        airDate: `${match[year]}-${match[month]}-${match[day]}`,
+        score: 80,
+        index: match.index,
+      });
+      mask(match.index, match[0].length, true);
+    }
+  }
+
+  let resolution = findTag(resolutionRegex);
+  if (resolution !== undefined) {
+    resolution = ['4k', 'uhd'].includes(resolution.toLowerCase()) ? '2160p' : resolution.toLowerCase();
+  }
+
+  const codec = findTag(codecRegex);
+  const source = findTag(sourceRegex);
+
+  // a trailing group is only a release group if the name looks like a release
+  const trailingGroupMatch = trailingGroupRegex.exec(maskedName);
+  if (releaseGroup === undefined && trailingGroupMatch !== null && (resolution || codec || source)) {
+    releaseGroup = trailingGroupMatch[1];
+    mask(trailingGroupMatch.index, trailingGroupMatch[0].length, false);
+  }
+
+  const year = findTag(yearRegex);
+
+  for (const {regex, score, read} of episodePatterns) {
+    for (const match of execAll(regex, maskedName)) {
+      interpretations.push({...read(match), airDate: undefined, score: score, index: match.index});
+    }
+  }
+
+  interpretations.sort((interpretation1: FileNameInterpretation, interpretation2: FileNameInterpretation) => {
+    return interpretation2.score - interpretation1.score || interpretation1.index - interpretation2.index;
+  });
+
+  const best = interpretations[0];
+  if (best !== undefined) {
+    titleEnd = Math.min(titleEnd, best.index);
+  }
+
+  const titleStart = leadingGroupMatch !== null ? leadingGroupMatch[0].length : 0;
+  const title = name
+    .substring(titleStart, titleEnd)
+    .replace(/[._]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s-]+|[\s\-(]+$/g, '');
+
+  return {
+    title: title.length > 0 ? title : undefined,
+    season: best !== undefined ? best.season : undefined,
+    episodes: best !== undefined ? best.episodes : [],
+    airDate: best !== undefined ? best.airDate : undefined,
+    year: year !== undefined ? parseInt(year) : undefined,
+    resolution: resolution,
+    codec: codec !== undefined ? codec.toLowerCase() : undefined,
+    releaseGroup: releaseGroup,
+    interpretations: interpretations,
+  };
+}
+
+/**
+ * Reads title, year, part and edition out of the name of a movie file (without its extension)
+ * or folder, e.g. `The.Matrix.1999.Directors.Cut.1080p.BluRay.x264-GROUP.cd1`. The last year
+ * counts, so that titles like `Blade Runner 2049 (2017)` keep their number.
+ */
+export function parseMovieName(name: string): ParsedMovieName {
+  let maskedName = name;
+  let titleEnd = name.length;
+
+  const findTag = (regex: RegExp): RegExpExecArray => {
+    const match = regex.exec(maskedName);
+    if (match !== null) {
+      maskedName = maskedName.substring(0, match.index) + ' '.repeat(match[0].length) + maskedName.substring(match.index + match[0].length);
+      titleEnd = Math.min(titleEnd, match.index);
+    }
+
+    return match;
+  };
+
+  const leadingGroupMatch = leadingGroupRegex.exec(name);
+  const titleStart = leadingGroupMatch !== null ? leadingGroupMatch[0].length : 0;
+
+  const editionNames: Array<string> = [];
+  const editionTagMatch = findTag(editionTagRegex);
+  if (editionTagMatch !== null) {
+    editionNames.push(editionTagMatch[1].trim());
+  }
+  for (const edition of editions) {
+    if (findTag(edition.regex) !== null && !editionNames.includes(edition.name)) {
+      editionNames.push(edition.name);
+    }
+  }
+
+  const partMatch = findTag(partRegex);
+  for (const tagRegex of [resolutionRegex, codecRegex, sourceRegex, ...noiseRegexes]) {
+    findTag(new RegExp(tagRegex.source, 'i'));
+  }
+
+  // a year at the very start is part of the title, like in `1917`
+  const yearMatch = execAll(new RegExp(yearRegex.source, 'gi'), maskedName)
+    .filter((match: RegExpExecArray) => {
+      return match.index > titleStart;
+    })
+    .pop();
+  if (yearMatch !== undefined) {
+    titleEnd = Math.min(titleEnd, yearMatch.index);
+  }
+
+  const title = name
+    .substring(titleStart, titleEnd)
+    .replace(/[._]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s-]+|[\s\-([]+$/g, '');
+
+  return {
+    title: title.length > 0 ? title : undefined,
+    year: yearMatch !== undefined ? parseInt(yearMatch[1]) : undefined,
+    part: partMatch !== null ? parseInt(partMatch[1]) : undefined,
+    edition: editionNames.length > 0 ? editionNames.join(' ') : undefined,
+  };
+}
+
+function execAll(regex: RegExp, text: string): Array<RegExpExecArray> {
+  const matches: Array<RegExpExecArray> = [];
+  regex.lastIndex = 0;
+  let match: RegExpExecArray;
+  while ((match = regex.exec(text)) !== null) {
+    matches.push(match);
+  }
+
+  return matches;
+}
+
+/**
+ * A dash between two numbers is a range (E01-E03 are the episodes 1, 2 and 3),
+ * without a dash they are a list (E01E03 are the episodes 1 and 3).
+ */
+function readEpisodes(firstEpisode: string, continuation: string, continuationRegex: RegExp): Array<number> {
+  const episodeNumbers = [parseInt(firstEpisode)];
+  const continuations = continuation !== undefined ? continuation.match(continuationRegex) : [];
+  for (const nextEpisode of continuations) {
+    const previousNumber = episodeNumbers[episodeNumbers.length - 1];
+    const nextNumber = parseInt(nextEpisode.match(/\d+$/)[0]);
+    if (nextNumber <= previousNumber || nextNumber - previousNumber > maximumEpisodeRangeLength) {
+      break;
+    }
+
+    const firstNumber = nextEpisode.startsWith('-') ? previousNumber + 1 : nextNumber;
+    for (let episodeNumber = firstNumber; episodeNumber <= nextNumber; episodeNumber++) {
+      episodeNumbers.push(episodeNumber);
+    }
+  }
+
+  return episodeNumbers;
+}
@@ -0,0 +1,310 @@
+export type ReplacementRule = {
+  regex: RegExp,
+  replacement: string,
+};
+
+// several numbers are rendered as a range, e.g. the episodes of a multi-episode file
+export type TemplateValue = string | number | Array<number>;
+
+export type TemplateValues = {
+  [token: string]: TemplateValue,
+};
+
+export type NamingScheme = {
+  template: string,
+  // applied to every token value, but not to the literal parts of the template
+  replacements: Array<ReplacementRule>,
+};
+
+type TemplatePart = {
+  literal?: string,
+  token?: string,
+  format?: string,
+  // letters right before the token, repeated between the numbers of a range
+  rangePrefix?: string,
+  // tokens inside a conditional section share the index of that section
+  section?: number,
+};
+
+export const templateTokens = [
+  'series',
+  'seriesId',
+  'year',
+  'title',
+  'season',
+  'episode',
+  'absolute',
+  'dvdSeason',
+  'dvdEpisode',
+  'airdate',
+  'imdb',
+  'productionCode',
+  'id',
+  'ext',
+  'resolution',
+  'videoCodec',
+  'audio',
+  'languages',
+  // movies only
+  'edition',
+  'part',
+];
+
+// tokens whose values are read from the content of the file, rather than from the provider
+export const mediaTemplateTokens = ['resolution', 'videoCodec', 'audio', 'languages'];
+
+// tokens whose values are used as they are, because they are no free text
+const unreplacedTokens = ['ext', 'airdate'];
+
+export const defaultReplacements: Array<ReplacementRule> = [
+  {regex: /ä/g, replacement: 'ae'},
+  {regex: /ö/g, replacement: 'oe'},
+  {regex: /ü/g, replacement: 'ue'},
+  {regex: /ß/g, replacement: 'ss'},
+  {regex: /Ä/g, replacement: 'AE'},
+  {regex: /Ö/g, replacement: 'OE'},
+  {regex: /Ü/g, replacement: 'UE'},
+  {regex: /\?/g, replacement: ''},
+  {regex: /,/g, replacement: ''},
+  {regex: /: /g, replacement: '-'},
+  {regex: /:/g, replacement: '-'},
+  {regex: /"/g, replacement: '\''},
+  {regex: / /g, replacement: '.'},
+  {regex: /\//g, replacement: '_'},
+  {regex: /\t/g, replacement: ''},
+];
+
+// only removes what most filesystems can't store, for media servers that prefer readable names
+export const filesystemReplacements: Array<ReplacementRule> = [
+  {regex: /\?/g, replacement: ''},
+  {regex: /\*/g, replacement: ''},
+  {regex: /: /g, replacement: ' - '},
+  {regex: /:/g, replacement: '-'},
+  {regex: /"/g, replacement: '\''},
+  {regex: /[<>|]/g, replacement: ''},
+  {regex: /[/\\]/g, replacement: '-'},
+  {regex: /\t/g, replacement: ' '},
+];
+
+export const namingPresets: {[presetName: string]: NamingScheme} = {
+  default: {
+    template: '{series}.S{season:00}E{episode:00}.{title}{ext}',
+    replacements: defaultReplacements,
+  },
+  plex: {
+    template: '{series}< ({year})> - s{season:00}e{episode:00} - {title}{ext}',
+    replacements: filesystemReplacements,
+  },
+  jellyfin: {
+    template: '{series}< ({year})> - S{season:00}E{episode:00} - {title}{ext}',
+    replacements: filesystemReplacements,
+  },
+  kodi: {
+    template: '{series} S{season:00}E{episode:00} {title}{ext}',
+    replacements: filesystemReplacements,
+  },
+};
+
+/**
+ * Accepts either the name of a preset or a template. Custom templates only get
+ * the filesystem replacements, so that they keep spaces and umlauts.
+ */
+export function resolveNamingScheme(presetNameOrTemplate: string): NamingScheme {
+  const namingScheme = namingPresets[presetNameOrTemplate] || {
+    template: presetNameOrTemplate,
+    replacements: filesystemReplacements,
+  };
+
+  // fail early on syntax errors
+  FilenameTemplate.fromNamingScheme(namingScheme);
+
+  return namingScheme;
+}
+
+/**
+ * Folder templates like 'Season {season:00}' name a single folder, so they must not contain path separators.
+ */
+export function validateFolderTemplate(template: string): void {
+  if (/[/\\]/.test(template)) {
+    throw new Error(`folder template '${template}': must not contain path separators`);
+  }
+
+  new FilenameTemplate(template);
+}
+
+/**
+ * A user defined filename layout.
+ *
+ * - `{token}` is replaced with the value of the token
+ * - `{token:000}` pads numbers with zeros to (at least) the given width
+ * - `<...>` is a conditional section. It is left out entirely if any token
+ *   inside it has no value, e.g. `{series}< ({year})>`
+ * - a token with several numbers (multi-episode files) is rendered as a range that
+ *   repeats the letters in front of the token, e.g. `S01E{episode:00}` as `S01E01-E02`
+ */
+export class FilenameTemplate {
+
+  public readonly template: string;
+
+  private parts: Array<TemplatePart>;
+  private replacements: Array<ReplacementRule>;
+
+  constructor(template: string, replacements: Array<ReplacementRule> = []) {
+    this.template = template;
+    this.replacements = replacements;
+    this.parts = this.parse(template);
+  }
+
+  public static fromNamingScheme(namingScheme: NamingScheme): FilenameTemplate {
+    return new FilenameTemplate(namingScheme.template, namingScheme.replacements);
+  }
+
+  /**
+   * The tokens that are used in the template, each once.
+   */
+  public get tokens(): Array<string> {
+    return this.parts
+      .map((part: TemplatePart) => {
+        return part.token;
+      })
+      .filter((token: string, index: number, allTokens: Array<string>) => {
+        return token !== undefined && allTokens.indexOf(token) === index;
+      });
+  }
+
+  /**
+   * @param minimumWidths per-token minimum width for padded numbers, e.g. so that
+   *                      episodes of seasons with 100+ episodes always get 3 digits
+   */
+  public render(values: TemplateValues, minimumWidths: {[token: string]: number} = {}): string {
+    const sectionsWithMissingValues = new Set<number>();
+    for (const part of this.parts) {
+      if (part.token !== undefined && part.section !== undefined && this.isEmpty(values[part.token])) {
+        sectionsWithMissingValues.add(part.section);
+      }
+    }
+
+    return this.parts
+      .filter((part: TemplatePart) => {
+        return part.section === undefined || !sectionsWithMissingValues.has(part.section);
+      })
+      .map((part: TemplatePart) => {
+        if (part.literal !== undefined) {
+          return part.literal;
+        }
+
+        return this.renderToken(part, values[part.token], minimumWidths[part.token] || 0);
+      })
+      .join('');
+  }
+
+  private renderToken(part: TemplatePart, value: TemplateValue, minimumWidth: number): string {
+    if (this.isEmpty(value)) {
+      return '';
+    }
+
+    const pad = (number: number): string => {
+      return part.format !== undefined
+        ? `${number}`.padStart(Math.max(part.format.length, minimumWidth), '0')
+        : `${number}`;
+    };
+
+    let renderedValue: string;
+    if (Array.isArray(value)) {
+      renderedValue = value.map(pad).join(`-${part.rangePrefix}`);
+    } else if (typeof value === 'number') {
+      renderedValue = pad(value);
+    } else {
+      renderedValue = value;
+    }
+
+    if (unreplacedTokens.includes(part.token)) {
+      return renderedValue;
+    }
+
+    for (const {regex, replacement} of this.replacements) {
+      renderedValue = renderedValue.replace(regex, replacement);
+    }
+
+    return renderedValue;
+  }
+
+  private isEmpty(value: TemplateValue): boolean {
+    return value === undefined
+      || value === null
+      || value === ''
+      || (typeof value === 'number' && isNaN(value))
+      || (Array.isArray(value) && value.length === 0);
+  }
+
+  private parse(template: string): Array<TemplatePart> {
+    const parts: Array<TemplatePart> = [];
+    let currentSection: number;
+    let sectionCount = 0;
+    let literal = '';
+
+    const pushLiteral = (): void => {
+      if (literal.length > 0) {
+        parts.push({literal: literal, section: currentSection});
+        literal = '';
+      }
+    };
+
+    for (let position = 0; position < template.length; position++) {
+      const character = template[position];
+
+      if (character === '<') {
+        if (currentSection !== undefined) {
+          throw new Error(`template '${template}': conditional sections can't be nested (position ${position})`);
+        }
+        pushLiteral();
+        currentSection = sectionCount++;
+        continue;
+      }
+
+      if (character === '>') {
+        if (currentSection === undefined) {
+          throw new Error(`template '${template}': '>' without matching '<' (position ${position})`);
+        }
+        pushLiteral();
+        currentSection = undefined;
+        continue;
+      }
+
+      if (character === '}') {
+        throw new Error(`template '${template}': '}' without matching '{' (position ${position})`);
+      }
+
+      if (character !== '{') {
+        literal += character;
+        continue;
+      }
+
+      const tokenEnd = template.indexOf('}', position);
+      if (tokenEnd === -1) {
+        throw new Error(`template '${template}': '{' without matching '}' (position ${position})`);
+      }
+
+      const [token, format] = template.substring(position + 1, tokenEnd).split(':');
+      if (!templateTokens.includes(token)) {
+        throw new Error(`template '${template}': unknown token '{${token}}'. Known tokens are ${templateTokens.join(', ')}`);
+      }
+
+      if (format !== undefined && !/^0+$/.test(format)) {
+        throw new Error(`template '${template}': unknown format '${format}' for '{${token}}'. Only zero padding like '00' is supported`);
+      }
+
+      const rangePrefix = literal.match(/[a-zA-Z]*$/)[0];
+      pushLiteral();
+      parts.push({token: token, format: format, rangePrefix: rangePrefix, section: currentSection});
+      position = tokenEnd;
+    }
+
+    if (currentSection !== undefined) {
+      throw new Error(`template '${template}': '<' without matching '>'`);
+    }
+
+    pushLiteral();
+    return parts;
+  }
+}
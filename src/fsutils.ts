@@ -0,0 +1,138 @@
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+import {journalFolderName} from './journal';
+
+export async function getAllFilesInFolder(folderPath: string): Promise<Array<string>> {
+  const currentFolderItems = await readFolder(folderPath);
+  const [files, folders] = await Promise.all([
+    filterAsync(currentFolderItems, async (itemName: string): Promise<boolean> => {
+      const itemIsFolder = await isFolder(path.join(folderPath, itemName));
+      return !itemIsFolder
+    }),
+    filterAsync(currentFolderItems, async (itemName: string): Promise<boolean> => {
+      const itemIsFolder = await isFolder(path.join(folderPath, itemName));
+      return itemIsFolder
+    }),
+  ]);
+
+  const filesInThisFolder = files.map((fileName: string) => {
+    return path.join(folderPath, fileName);
+  })
+
+  const filesInSubFolders = await Promise.all(folders.map((folderName: string) => {
+    return getAllFilesInFolder(path.join(folderPath, folderName));
+  }));
+
+  return [
+    ...filesInThisFolder,
+    ...filesInSubFolders.flat(),
+  ]
+}
+
+export async function getFolderNames(basePath: string): Promise<Array<string>> {
+  const currentFolderItems = await readFolder(basePath);
+  return filterAsync(currentFolderItems, async (itemName: string): Promise<boolean> => {
+    const itemIsFolder = await isFolder(path.join(basePath, itemName));
+    return itemIsFolder
+  });
+}
+
+export async function getFileNames(basePath: string): Promise<Array<string>> {
+  const currentFolderItems = await readFolder(basePath);
+  return filterAsync(currentFolderItems, async (itemName: string): Promise<boolean> => {
+    const itemIsFolder = await isFolder(path.join(basePath, itemName));
+    return !itemIsFolder
+  });
+}
+
+export async function readFolder(basePath: string): Promise<Array<string>> {
+  const folderItems = await fsPromises.readdir(basePath);
+
+  // the journal (and its trash) must never be listed, hoisted or purged
+  return folderItems.filter((itemName: string) => {
+    return itemName !== journalFolderName;
+  });
+}
+
+export async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fsPromises.lstat(filePath);
+  } catch {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether names in this folder are compared case-insensitively, like on the default
+ * filesystems of macOS and Windows. Looks up the folder with its name in another case.
+ */
+export async function isCaseInsensitiveFolder(folderPath: string): Promise<boolean> {
+  const resolvedPath = path.resolve(folderPath);
+  const folderName = path.basename(resolvedPath);
+  const parentPath = path.dirname(resolvedPath);
+  const otherCaseName = folderName === folderName.toLowerCase() ? folderName.toUpperCase() : folderName.toLowerCase();
+
+  // a name without letters doesn't tell, so the parent is checked instead
+  if (otherCaseName === folderName) {
+    return parentPath !== resolvedPath ? isCaseInsensitiveFolder(parentPath) : false;
+  }
+
+  try {
+    const [folderStats, otherCaseStats] = await Promise.all([
+      fsPromises.stat(resolvedPath),
+      fsPromises.stat(path.join(parentPath, otherCaseName)),
+    ]);
+
+    return folderStats.ino === otherCaseStats.ino && folderStats.dev === otherCaseStats.dev;
+  } catch {
+    return false;
+  }
+}
+
+export async function isFolder(folderPath: string): Promise<boolean> {
+  let folderStats;
+  try {
+    folderStats = await fsPromises.stat(folderPath);
+  } catch {
+    return false;
+  }
+
+  return folderStats.isDirectory();
+}
+
+export async function filterAsync<TArrayElement>(
+  arrayToFilter: Array<TArrayElement>,
+  filterMethod: (element: TArrayElement, index: number, originalArray: Array<TArrayElement>) => Promise<boolean>,
+): Promise<Array<TArrayElement>> {
+  const filterResults: Array<boolean> = await Promise.all(arrayToFilter.map(filterMethod));
+
+  return arrayToFilter.filter((element: TArrayElement, index: number): boolean => {
+    const elementCanStayInArray: boolean = filterResults[index];
+
+    return elementCanStayInArray;
+  });
+}
+
+/**
+ * A glob like `*.mkv` (case-insensitive, `*` and `?` as wildcards) or a regular expression
+ * like `/s\d+e\d+/i` for matching names. Throws for invalid regular expressions.
+ */
+export function parseNamePattern(pattern: string): RegExp {
+  const regexMatch = pattern.match(/^\/(.*)\/([a-z]*)$/);
+  if (regexMatch !== null) {
+    try {
+      // global expressions would continue where their last match ended
+      return new RegExp(regexMatch[1], regexMatch[2].replace(/g/g, ''));
+    } catch (error) {
+      throw new Error(`invalid regular expression ${pattern}: ${error.message}`);
+    }
+  }
+
+  const globRegex = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\\\*/g, '.*')
+    .replace(/\\\?/g, '.');
+  return new RegExp(`^${globRegex}$`, 'i');
+}
@@ -0,0 +1,162 @@
+import {Stats, promises as fsPromises} from 'fs';
+import path from 'path';
+import {filterAsync, getAllFilesInFolder, isFolder, pathExists, readFolder} from './fsutils';
+import {Journal} from './journal';
+import {LibrarySorter, SortMove, UnsortedFile} from './librarysorter';
+import {ReviewItem, ReviewQueue} from './reviewqueue';
+
+export type InboxWatcherOptions = {
+  videoFileExtensions: Array<string>,
+  // seconds between two looks at the inbox. Downloads that changed within this time are left alone
+  interval: number,
+  log: (message: string) => void,
+};
+
+// files that download clients write to until the download is complete
+const partialFileExtensions = ['.part', '.partial', '.crdownload', '.!qb', '.tmp'];
+
+/**
+ * Sorts finished downloads from an inbox into the library. Every file or folder at the
+ * top of the inbox is a download, the videos of a folder are sorted as one series.
+ * Videos that can't be sorted with enough confidence are queued for review.
+ */
+export class InboxWatcher {
+
+  private inboxDirectory: string;
+  private sorter: LibrarySorter;
+  private reviewQueue: ReviewQueue;
+  private journal: Journal;
+  private options: InboxWatcherOptions;
+
+  constructor(inboxDirectory: string, sorter: LibrarySorter, reviewQueue: ReviewQueue, journal: Journal, options: InboxWatcherOptions) {
+    this.inboxDirectory = inboxDirectory;
+    this.sorter = sorter;
+    this.reviewQueue = reviewQueue;
+    this.journal = journal;
+    this.options = options;
+  }
+
+  /**
+   * Looks at the inbox until the process ends. A look that fails, e.g. because the share of
+   * the inbox is briefly unavailable, is logged and the next one is tried after the interval.
+   */
+  public async run(): Promise<void> {
+    for (;;) {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.options.log(`looking at the inbox failed: ${error.message}`);
+      }
+      await new Promise((resolve: () => void) => {
+        setTimeout(resolve, this.options.interval * 1000);
+      });
+    }
+  }
+
+  /**
+   * Sorts all downloads that are finished and resolves to the number of moved videos.
+   */
+  public async poll(): Promise<number> {
+    const queuedPaths = (await this.reviewQueue.getItems()).map((item: ReviewItem) => {
+      return item.path;
+    });
+
+    let movedCount = 0;
+    for (const itemName of await readFolder(this.inboxDirectory)) {
+      const downloadPath = path.join(this.inboxDirectory, itemName);
+      let videoPaths: Array<string>;
+      try {
+        const files = await isFolder(downloadPath) ? await getAllFilesInFolder(downloadPath) : [downloadPath];
+        if (!await this.isFinished(files)) {
+          continue;
+        }
+
+        videoPaths = files.filter((file: string) => {
+          return this.options.videoFileExtensions.includes(path.extname(file).toLowerCase()) && !queuedPaths.includes(file);
+        });
+      } catch (error) {
+        // deleted or renamed while we were looking at it, the next look sees what became of it
+        this.options.log(`${itemName}: ${error.message}`);
+        continue;
+      }
+
+      if (videoPaths.length > 0) {
+        movedCount += await this.sortDownload(downloadPath, videoPaths);
+      }
+    }
+
+    return movedCount;
+  }
+
+  private async sortDownload(downloadPath: string, videoPaths: Array<string>): Promise<number> {
+    const downloadName = path.basename(downloadPath);
+    let unsorted: Array<UnsortedFile>;
+    let moves: Array<SortMove>;
+    try {
+      const plan = await this.sorter.planDownload(downloadPath, videoPaths);
+      unsorted = plan.unsorted;
+      moves = plan.moves;
+      if (moves.length > 0) {
+        await this.sorter.apply([plan], this.journal, `watch ${downloadName}`);
+      }
+    } catch (error) {
+      // e.g. the provider is unreachable, so the download is tried again on the next look
+      if (moves === undefined) {
+        this.options.log(`${downloadName}: ${error.message}`);
+        return 0;
+      }
+
+      // the journal has recorded the moves that succeeded, the other videos stay in the inbox
+      const failedMoves = await filterAsync(moves, (move: SortMove): Promise<boolean> => {
+        return pathExists(move.originalPath);
+      });
+      this.options.log(`${downloadName}: ${error.message}`);
+      unsorted = [...unsorted, ...failedMoves
+        .filter((move: SortMove) => {
+          return move.isVideo;
+        })
+        .map((move: SortMove): UnsortedFile => {
+          return {path: move.originalPath, reason: `moving failed: ${error.message}`, candidates: []};
+        })];
+      moves = moves.filter((move: SortMove) => {
+        return !failedMoves.includes(move);
+      });
+    }
+
+    const movedVideos = moves.filter((move: SortMove) => {
+      return move.isVideo;
+    });
+    for (const move of movedVideos) {
+      this.options.log(`${path.relative(this.inboxDirectory, move.originalPath)} -> ${path.relative(this.sorter.libraryDirectory, move.targetPath)}`);
+    }
+
+    if (unsorted.length > 0) {
+      const added = Date.now();
+      await this.reviewQueue.add(unsorted.map((unsortedFile: UnsortedFile): ReviewItem => {
+        this.options.log(`${path.relative(this.inboxDirectory, unsortedFile.path)}: review, ${unsortedFile.reason}`);
+        return {...unsortedFile, added: added};
+      }));
+    }
+
+    return movedVideos.length;
+  }
+
+  // a download is finished when the client has renamed its partial files and stopped writing
+  private async isFinished(files: Array<string>): Promise<boolean> {
+    const isPartial = files.some((file: string) => {
+      return partialFileExtensions.includes(path.extname(file).toLowerCase());
+    });
+    if (isPartial) {
+      return false;
+    }
+
+    const fileStats = await Promise.all(files.map((file: string) => {
+      return fsPromises.stat(file);
+    }));
+    const lastModified = Math.max(0, ...fileStats.map((fileStat: Stats) => {
+      return fileStat.mtimeMs;
+    }));
+
+    return Date.now() - lastModified >= this.options.interval * 1000;
+  }
+}
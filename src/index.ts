@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import {FileBrowser} from './filebrowser';
+import {Cli} from './cli';
 
-new FileBrowser()
-  .start();
+new Cli()
+  .run(process.argv.slice(2));
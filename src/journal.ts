@@ -0,0 +1,295 @@
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export const journalFolderName = '.series-rename-journal';
+
+export type JournalOperationType =
+  'rename'
+  | 'create-folder'
+  | 'create-file'
+  | 'delete'
+  | 'hoist'
+  | 'move'
+  | 'purge'
+  | 'episode-rename';
+
+export type JournalEntry = {
+  batchId: string,
+  type: JournalOperationType,
+  sourcePath: string,
+  // for deletes and purges this is the location of the file inside the trash
+  targetPath: string,
+  trashed: boolean,
+  timestamp: number,
+  // set once the entry was reverted, an undo of the batch only retries the others
+  undone?: boolean,
+}
+
+export type JournalBatch = {
+  id: string,
+  description: string,
+  timestamp: number,
+  undone: boolean,
+  entries: Array<JournalEntry>,
+}
+
+export type UndoResult = {
+  batch: JournalBatch,
+  // the entries that weren't reverted before, the ones this undo tried
+  operationCount: number,
+  restoredCount: number,
+  errors: Array<string>,
+}
+
+/**
+ * Records every filesystem operation the tool does, so that whole batches can be
+ * reverted later. Deleted files are moved into a trash folder inside the journal
+ * folder instead of being removed. Every entry is written as soon as its operation
+ * is done, so that a batch that was interrupted can still be reverted.
+ */
+export class Journal {
+
+  public readonly journalDirectory: string;
+  private journalFile: string;
+  private trashDirectory: string;
+  private trashedItemCount: number = 0;
+  // batches that are already in the journal file, they are updated with every entry
+  private storedBatchIds = new Set<string>();
+  // writes of the journal file one after another, so that no entry is lost
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(journalDirectory: string) {
+    this.journalDirectory = journalDirectory;
+    this.journalFile = path.join(journalDirectory, 'journal.json');
+    this.trashDirectory = path.join(journalDirectory, 'trash');
+  }
+
+  public beginBatch(description: string): JournalBatch {
+    return {
+      id: crypto.randomBytes(4).toString('hex'),
+      description: description,
+      timestamp: Date.now(),
+      undone: false,
+      entries: [],
+    };
+  }
+
+  /**
+   * Refuses to replace an existing file, as the replaced file couldn't be restored,
+   * and to move the folder that holds the journal.
+   */
+  public async rename(batch: JournalBatch, type: JournalOperationType, sourcePath: string, targetPath: string): Promise<void> {
+    this.assertJournalStays(sourcePath);
+    // case-only renames would otherwise be reported as occupied on case-insensitive filesystems
+    if (sourcePath.toLowerCase() !== targetPath.toLowerCase()) {
+      await this.assertPathIsFree(targetPath);
+    }
+
+    await this.storeBatch(batch);
+    await fsPromises.rename(sourcePath, targetPath);
+    await this.addEntry(batch, type, sourcePath, targetPath, false);
+  }
+
+  public async createFolder(batch: JournalBatch, folderPath: string): Promise<void> {
+    await this.storeBatch(batch);
+    await fsPromises.mkdir(folderPath);
+    await this.addEntry(batch, 'create-folder', folderPath, folderPath, false);
+  }
+
+  /**
+   * Only for new files, e.g. the sidecar of a new series folder. Undo removes them again.
+   */
+  public async createFile(batch: JournalBatch, filePath: string, content: string): Promise<void> {
+    await this.storeBatch(batch);
+    await fsPromises.writeFile(filePath, content, {flag: 'wx'});
+    await this.addEntry(batch, 'create-file', filePath, filePath, false);
+  }
+
+  public async trash(batch: JournalBatch, type: JournalOperationType, sourcePath: string): Promise<void> {
+    // prefix with a running number, so that equally named files don't collide in the trash
+    const batchTrashDirectory = path.join(this.trashDirectory, batch.id);
+    const trashPath = path.join(batchTrashDirectory, `${this.trashedItemCount++}-${path.basename(sourcePath)}`);
+    this.assertJournalStays(sourcePath);
+    await this.storeBatch(batch);
+    await fsPromises.mkdir(batchTrashDirectory, {recursive: true});
+    await fsPromises.rename(sourcePath, trashPath);
+    await this.addEntry(batch, type, sourcePath, trashPath, true);
+  }
+
+  /**
+   * Ends the batch. Its entries are already stored, batches without any entries are removed again.
+   */
+  public async commit(batch: JournalBatch): Promise<void> {
+    if (!this.storedBatchIds.has(batch.id)) {
+      return;
+    }
+
+    this.storedBatchIds.delete(batch.id);
+    await this.writeBatch(batch, batch.entries.length === 0);
+  }
+
+  public async getBatches(): Promise<Array<JournalBatch>> {
+    let journalContent: string;
+    try {
+      journalContent = await fsPromises.readFile(this.journalFile, 'utf8');
+    } catch {
+      return [];
+    }
+
+    return JSON.parse(journalContent);
+  }
+
+  public async getLastUndoableBatch(): Promise<JournalBatch> {
+    const batches = await this.getBatches();
+    for (let i = batches.length - 1; i >= 0; i--) {
+      if (!batches[i].undone) {
+        return batches[i];
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reverts all entries of a batch, newest first. Operations that can't be
+   * reverted (e.g. because the file was changed afterwards) are reported as
+   * errors, but don't stop the remaining entries from being reverted. The batch
+   * stays undoable until all its entries are reverted, so that they can be retried.
+   */
+  public async undo(batchId: string): Promise<UndoResult> {
+    const batches = await this.getBatches();
+    const batch = batches.find((storedBatch: JournalBatch) => {
+      return storedBatch.id === batchId;
+    });
+
+    if (batch === undefined) {
+      throw new Error(`batch ${batchId} not found in journal`);
+    }
+
+    if (batch.undone) {
+      throw new Error(`batch ${batchId} was already undone`);
+    }
+
+    const pendingEntries = batch.entries.filter((entry: JournalEntry) => {
+      return !entry.undone;
+    });
+    const result: UndoResult = {batch: batch, operationCount: pendingEntries.length, restoredCount: 0, errors: []};
+    for (const entry of pendingEntries.reverse()) {
+      try {
+        await this.undoEntry(entry);
+        entry.undone = true;
+        result.restoredCount++;
+      } catch (error) {
+        result.errors.push(`${entry.type} ${entry.sourcePath}: ${error.message}`);
+      }
+    }
+
+    batch.undone = result.errors.length === 0;
+    await this.saveBatches(batches);
+    if (batch.undone) {
+      await this.removeFolder(path.join(this.trashDirectory, batch.id));
+    }
+
+    return result;
+  }
+
+  private async undoEntry(entry: JournalEntry): Promise<void> {
+    if (entry.type === 'create-folder') {
+      await fsPromises.rmdir(entry.sourcePath);
+      return;
+    }
+
+    if (entry.type === 'create-file') {
+      await fsPromises.unlink(entry.sourcePath);
+      return;
+    }
+
+    // case-only renames would otherwise be reported as occupied on case-insensitive filesystems
+    if (entry.sourcePath.toLowerCase() !== entry.targetPath.toLowerCase()) {
+      await this.assertPathIsFree(entry.sourcePath);
+    }
+
+    await fsPromises.mkdir(path.dirname(entry.sourcePath), {recursive: true});
+    await fsPromises.rename(entry.targetPath, entry.sourcePath);
+  }
+
+  private async assertPathIsFree(filePath: string): Promise<void> {
+    try {
+      await fsPromises.lstat(filePath);
+    } catch {
+      return;
+    }
+
+    throw new Error(`${filePath} already exists`);
+  }
+
+  // the journal would move along and its entries would point to the old location
+  private assertJournalStays(sourcePath: string): void {
+    if (holdsJournal(sourcePath, this.journalDirectory)) {
+      throw new Error(`${sourcePath} holds the journal`);
+    }
+  }
+
+  private async removeFolder(folderPath: string): Promise<void> {
+    try {
+      await fsPromises.rmdir(folderPath);
+    } catch {
+      // not empty or not existing. Either way, nothing to clean up
+    }
+  }
+
+  private async addEntry(batch: JournalBatch, type: JournalOperationType, sourcePath: string, targetPath: string, trashed: boolean): Promise<void> {
+    batch.entries.push({
+      batchId: batch.id,
+      type: type,
+      sourcePath: sourcePath,
+      targetPath: targetPath,
+      trashed: trashed,
+      timestamp: Date.now(),
+    });
+    await this.writeBatch(batch);
+  }
+
+  // before the first operation, so that nothing is done if the journal can't be written
+  private async storeBatch(batch: JournalBatch): Promise<void> {
+    if (this.storedBatchIds.has(batch.id)) {
+      return;
+    }
+
+    await this.writeBatch(batch);
+    this.storedBatchIds.add(batch.id);
+  }
+
+  private writeBatch(batch: JournalBatch, remove: boolean = false): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const batches = await this.getBatches();
+      const index = batches.findIndex((storedBatch: JournalBatch) => {
+        return storedBatch.id === batch.id;
+      });
+      if (index === -1) {
+        batches.push(batch);
+      } else if (remove) {
+        batches.splice(index, 1);
+      } else {
+        batches[index] = batch;
+      }
+      await this.saveBatches(batches);
+    });
+    // a failed write must not stop the following ones
+    this.pendingWrite = write.catch(() => undefined);
+
+    return write;
+  }
+
+  private async saveBatches(batches: Array<JournalBatch>): Promise<void> {
+    await fsPromises.mkdir(this.journalDirectory, {recursive: true});
+    await fsPromises.writeFile(this.journalFile, JSON.stringify(batches, null, 2));
+  }
+}
+
+// true if the journal is the folder itself or anywhere below it
+export function holdsJournal(folderPath: string, journalDirectory: string): boolean {
+  const relativePath = path.relative(path.resolve(folderPath), path.resolve(journalDirectory));
+  return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
@@ -0,0 +1,243 @@
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+
+export type LibraryReportFormat = 'text' | 'json' | 'csv' | 'html';
+
+export const libraryReportFormats: Array<LibraryReportFormat> = ['text', 'json', 'csv', 'html'];
+
+export type LibraryIssueType =
+  'non-standard-name'
+  | 'unmatched'
+  | 'truncated'
+  | 'missing-episode'
+  | 'duplicate'
+  | 'stray-file'
+  | 'unknown-series';
+
+export type LibraryIssue = {
+  type: LibraryIssueType,
+  // the file, the season folder of a missing episode or the series folder of an unknown series
+  path: string,
+  seasonNumber: number,
+  // e.g. '05', or '05-06' for multi-episode files
+  episodeNumber: string,
+  // e.g. the standardized name or the title of a missing episode
+  details: string,
+};
+
+export type LibrarySeries = {
+  seriesDirectory: string,
+  // undefined for series that aren't known yet
+  seriesId: number,
+  seriesName: string,
+  videoCount: number,
+  issues: Array<LibraryIssue>,
+};
+
+// singular and plural, in the order they are listed in the summary
+const issueLabels: {[type in LibraryIssueType]: [string, string]} = {
+  'unknown-series': ['unknown series', 'unknown series'],
+  'non-standard-name': ['non-standard name', 'non-standard names'],
+  'unmatched': ['unmatched video', 'unmatched videos'],
+  'truncated': ['truncated video', 'truncated videos'],
+  'missing-episode': ['missing episode', 'missing episodes'],
+  'duplicate': ['duplicate', 'duplicates'],
+  'stray-file': ['stray file', 'stray files'],
+};
+
+/**
+ * Everything a library scan found, per series folder.
+ */
+export class LibraryReport {
+
+  public readonly libraryDirectory: string;
+  public readonly series: Array<LibrarySeries>;
+
+  constructor(libraryDirectory: string, series: Array<LibrarySeries>) {
+    this.libraryDirectory = libraryDirectory;
+    this.series = series;
+  }
+
+  public get issueCount(): number {
+    return this.series.reduce((issueCount: number, series: LibrarySeries) => {
+      return issueCount + series.issues.length;
+    }, 0);
+  }
+
+  public countIssues(type: LibraryIssueType, series?: LibrarySeries): number {
+    const issues = series !== undefined
+      ? series.issues
+      : this.series.map((librarySeries: LibrarySeries) => {
+        return librarySeries.issues;
+      }).flat();
+
+    return issues.filter((issue: LibraryIssue) => {
+      return issue.type === type;
+    }).length;
+  }
+
+  /**
+   * e.g. '3 non-standard names, 2 missing episodes'. Issue types that weren't found are left out.
+   */
+  public summarize(series?: LibrarySeries): string {
+    const parts = Object.keys(issueLabels)
+      .map((type: LibraryIssueType) => {
+        const count = this.countIssues(type, series);
+        return count > 0 ? `${count} ${issueLabels[type][count === 1 ? 0 : 1]}` : undefined;
+      })
+      .filter((part: string) => {
+        return part !== undefined;
+      });
+
+    return parts.length > 0 ? parts.join(', ') : 'no issues';
+  }
+
+  public toJSON(): object {
+    return {
+      libraryDirectory: this.libraryDirectory,
+      seriesCount: this.series.length,
+      issueCount: this.issueCount,
+      series: this.series,
+    };
+  }
+
+  public toText(): string {
+    const videoCount = this.series.reduce((count: number, series: LibrarySeries) => {
+      return count + series.videoCount;
+    }, 0);
+
+    const lines = [
+      `Library: ${this.libraryDirectory}`,
+      `${this.series.length} series, ${videoCount} videos: ${this.summarize()}`,
+    ];
+
+    for (const series of this.series) {
+      if (series.issues.length === 0) {
+        continue;
+      }
+
+      lines.push('', `--- ${this.describeSeries(series)} ---`);
+      for (const issue of series.issues) {
+        lines.push(`${issue.type.padEnd(18)}${this.describeIssue(series, issue)}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // one row per issue, so that it can be filtered in a spreadsheet
+  public toCSV(): string {
+    const rows = [['series', 'seriesId', 'type', 'path', 'season', 'episode', 'details']];
+    for (const series of this.series) {
+      for (const issue of series.issues) {
+        rows.push([
+          series.seriesName,
+          series.seriesId !== undefined ? `${series.seriesId}` : '',
+          issue.type,
+          issue.path,
+          issue.seasonNumber !== undefined ? `${issue.seasonNumber}` : '',
+          issue.episodeNumber || '',
+          issue.details || '',
+        ]);
+      }
+    }
+
+    return rows
+      .map((row: Array<string>) => {
+        return row.map(escapeCsv).join(',');
+      })
+      .join('\n');
+  }
+
+  public toHTML(): string {
+    const sections = this.series
+      .filter((series: LibrarySeries) => {
+        return series.issues.length > 0;
+      })
+      .map((series: LibrarySeries) => {
+        const rows = series.issues.map((issue: LibraryIssue) => {
+          return `<tr><td>${escapeHtml(issue.type)}</td><td>${escapeHtml(this.describeIssue(series, issue))}</td></tr>`;
+        });
+
+        return [
+          `<h2>${escapeHtml(this.describeSeries(series))}</h2>`,
+          `<p>${escapeHtml(this.summarize(series))}</p>`,
+          '<table>',
+          ...rows,
+          '</table>',
+        ].join('\n');
+      });
+
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>Library report ${escapeHtml(this.libraryDirectory)}</title>`,
+      '<style>body {font-family: sans-serif} td {padding: 2px 12px 2px 0; vertical-align: top}</style>',
+      '</head>',
+      '<body>',
+      `<h1>${escapeHtml(this.libraryDirectory)}</h1>`,
+      `<p>${this.series.length} series: ${escapeHtml(this.summarize())}</p>`,
+      ...sections,
+      '</body>',
+      '</html>',
+    ].join('\n');
+  }
+
+  public format(format: LibraryReportFormat): string {
+    if (format === 'json') {
+      return JSON.stringify(this, null, 2);
+    }
+
+    if (format === 'csv') {
+      return this.toCSV();
+    }
+
+    if (format === 'html') {
+      return this.toHTML();
+    }
+
+    return this.toText();
+  }
+
+  public async export(filePath: string, format: LibraryReportFormat): Promise<void> {
+    await fsPromises.writeFile(filePath, `${this.format(format)}\n`);
+  }
+
+  private describeSeries(series: LibrarySeries): string {
+    const folderName = path.relative(this.libraryDirectory, series.seriesDirectory) || '.';
+    const seriesDetails = [folderName !== series.seriesName ? folderName : undefined, series.seriesId]
+      .filter((seriesDetail: string | number) => {
+        return seriesDetail !== undefined;
+      })
+      .join(', ');
+
+    return seriesDetails.length > 0 ? `${series.seriesName} (${seriesDetails})` : series.seriesName;
+  }
+
+  private describeIssue(series: LibrarySeries, issue: LibraryIssue): string {
+    const relativePath = path.relative(series.seriesDirectory, issue.path) || '.';
+    if (issue.type === 'missing-episode') {
+      return `S${`${issue.seasonNumber}`.padStart(2, '0')}E${issue.episodeNumber} ${issue.details}`;
+    }
+
+    if (issue.type === 'non-standard-name') {
+      return `${relativePath} > ${issue.details}`;
+    }
+
+    return issue.details !== undefined ? `${relativePath} (${issue.details})` : relativePath;
+  }
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
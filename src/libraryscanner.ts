@@ -0,0 +1,387 @@
+import path from 'path';
+import {EpisodeCompleteness, SeriesCompleteness} from './completeness';
+import {Settings, getMetadataProviderOptions, getNamingScheme} from './config';
+import {EpisodeNamer, seasonFolderRegex, specialsFolderRegex} from './episodenamer';
+import {parseFileName} from './filenameparser';
+import {getAllFilesInFolder, getFolderNames} from './fsutils';
+import {LibraryIssue, LibraryReport, LibrarySeries} from './libraryreport';
+import {MediaInfo, MediaProber, findTruncation, getExpectedDuration} from './mediaprobe';
+import {MetadataProvider, createMetadataProvider} from './providers';
+import {toolFileNames} from './reviewqueue';
+import {SeriesSidecar, applySeriesSidecar, readSeriesSidecar, seriesSidecarFileName} from './seriessidecar';
+import {CompanionFile, EpisodeMapping, SeasonMapping, Series} from './types';
+
+// the files of a series folder matched to the episodes of its remembered series
+export type MatchedSeries = {
+  // with the sidecar applied
+  seriesSettings: Settings,
+  seriesDetails: Series,
+  seasonMapping: SeasonMapping,
+};
+
+/**
+ * Walks a whole library and reports everything that standardizing would change
+ * or can't fix: non-standard names, missing episodes, duplicates, truncated videos and stray files.
+ * Names and missing episodes are only checked for series that are known from
+ * their sidecar, as the scan never asks which series a folder contains.
+ */
+export class LibraryScanner {
+
+  private settings: Settings;
+  private metadataProvider: MetadataProvider;
+  private mediaProber = new MediaProber();
+
+  constructor(settings: Settings, metadataProvider: MetadataProvider) {
+    this.settings = settings;
+    this.metadataProvider = metadataProvider;
+  }
+
+  public async scan(libraryDirectory: string): Promise<LibraryReport> {
+    const filesBySeries = await this.groupFilesBySeries(libraryDirectory);
+    const seriesDirectories = Array.from(filesBySeries.keys()).sort();
+
+    // one after another, so that the provider isn't flooded with requests
+    const series: Array<LibrarySeries> = [];
+    for (const seriesDirectory of seriesDirectories) {
+      series.push(await this.scanSeries(seriesDirectory, filesBySeries.get(seriesDirectory)));
+    }
+
+    return new LibraryReport(libraryDirectory, series);
+  }
+
+  /**
+   * A file belongs to the closest folder with a sidecar. Otherwise every folder
+   * in the library is a series, unless the library itself is a series folder.
+   */
+  public async groupFilesBySeries(libraryDirectory: string): Promise<Map<string, Array<string>>> {
+    const files = await getAllFilesInFolder(libraryDirectory);
+    const sidecarDirectories = new Set(files
+      .filter((filePath: string) => {
+        return path.basename(filePath) === seriesSidecarFileName;
+      })
+      .map((filePath: string) => {
+        return path.dirname(filePath);
+      }));
+
+    // season folders tell series folders without sidecar
+    const libraryIsSeries = (await getFolderNames(libraryDirectory)).some((folderName: string) => {
+      return seasonFolderRegex.test(folderName) || specialsFolderRegex.test(folderName);
+    });
+
+    const filesBySeries = new Map<string, Array<string>>();
+    for (const filePath of files) {
+      let seriesDirectory = path.dirname(filePath);
+      while (!sidecarDirectories.has(seriesDirectory) && seriesDirectory !== libraryDirectory) {
+        seriesDirectory = path.dirname(seriesDirectory);
+      }
+
+      if (!sidecarDirectories.has(seriesDirectory) && !libraryIsSeries) {
+        const [topFolderName, ...otherNames] = path.relative(libraryDirectory, filePath).split(path.sep);
+        seriesDirectory = otherNames.length > 0 ? path.join(libraryDirectory, topFolderName) : libraryDirectory;
+      }
+
+      const seriesFiles = filesBySeries.get(seriesDirectory) || [];
+      seriesFiles.push(filePath);
+      filesBySeries.set(seriesDirectory, seriesFiles);
+    }
+
+    return filesBySeries;
+  }
+
+  private async scanSeries(seriesDirectory: string, files: Array<string>): Promise<LibrarySeries> {
+    const videoFiles = files.filter((filePath: string) => {
+      return this.hasExtension(filePath, this.settings.videoFileExtensions);
+    });
+
+    const librarySeries: LibrarySeries = {
+      seriesDirectory: seriesDirectory,
+      seriesId: undefined,
+      seriesName: path.basename(seriesDirectory),
+      videoCount: videoFiles.length,
+      issues: [],
+    };
+
+    let matchedSeries: MatchedSeries;
+    try {
+      const sidecar = await readSeriesSidecar(seriesDirectory);
+      if (sidecar !== undefined) {
+        librarySeries.seriesId = sidecar.seriesId;
+        matchedSeries = await this.matchSeries(seriesDirectory, sidecar);
+        librarySeries.seriesName = matchedSeries.seriesDetails.seriesName;
+      } else if (videoFiles.length > 0) {
+        // folders with only other files, like the library itself, are no series at all
+        librarySeries.issues.push(this.createIssue('unknown-series', seriesDirectory, 'standardize it once to remember the series'));
+      }
+    } catch (error) {
+      librarySeries.issues.push(this.createIssue('unknown-series', seriesDirectory, error.message));
+    }
+
+    let companionPaths: Set<string>;
+    if (matchedSeries !== undefined) {
+      const {seriesSettings, seriesDetails, seasonMapping} = matchedSeries;
+      const episodeMappings = Object.values(seasonMapping)
+        .map((season: SeasonMapping[number]) => {
+          return season.episodeMappings;
+        })
+        .flat();
+
+      librarySeries.issues.push(
+        ...this.findNonStandardNames(seriesDirectory, episodeMappings),
+        ...this.findMissingEpisodes(seriesDirectory, seriesSettings, seriesDetails, seasonMapping),
+        ...this.findDuplicates(episodeMappings),
+        ...this.findTruncatedVideos(episodeMappings),
+      );
+
+      companionPaths = new Set(episodeMappings
+        .map((episodeMapping: EpisodeMapping) => {
+          return episodeMapping.value.companions;
+        })
+        .flat()
+        .map((companion: CompanionFile) => {
+          return companion.originalPath;
+        }));
+    } else {
+      librarySeries.issues.push(
+        ...this.findDuplicatesByName(videoFiles),
+        ...await this.findTruncatedFiles(videoFiles),
+      );
+    }
+
+    librarySeries.issues.push(...this.findStrayFiles(files, companionPaths));
+    return librarySeries;
+  }
+
+  /**
+   * Loads the series of the sidecar with the settings of the sidecar and matches the files of the folder.
+   */
+  public async matchSeries(seriesDirectory: string, sidecar: SeriesSidecar): Promise<MatchedSeries> {
+    const seriesSettings = applySeriesSidecar(this.settings, sidecar);
+    const seriesDetails = await this.getMetadataProvider(seriesSettings)
+      .getSeriesWithEpisodes(sidecar.seriesId, seriesSettings.language);
+    const seasonMapping = await this.createEpisodeNamer(seriesSettings).generateEpisodeNames(seriesDirectory, seriesDetails);
+
+    return {seriesSettings: seriesSettings, seriesDetails: seriesDetails, seasonMapping: seasonMapping};
+  }
+
+  private findNonStandardNames(seriesDirectory: string, episodeMappings: Array<EpisodeMapping>): Array<LibraryIssue> {
+    const issues: Array<LibraryIssue> = [];
+    for (const episodeMapping of episodeMappings) {
+      if (!episodeMapping.value.isVideo) {
+        continue;
+      }
+
+      if (episodeMapping.value.episode === undefined) {
+        const suggestion = episodeMapping.value.suggestion;
+        const details = suggestion !== undefined
+          ? `probably ${suggestion.episode.episodeName}, ${suggestion.confidence}%`
+          : 'no matching episode';
+        issues.push(this.createIssue('unmatched', episodeMapping.value.originalPath, details));
+        continue;
+      }
+
+      const renamedFiles = [episodeMapping.value, ...episodeMapping.value.companions].filter((file: {rename: boolean}) => {
+        return file.rename;
+      });
+
+      for (const renamedFile of renamedFiles) {
+        issues.push({
+          type: 'non-standard-name',
+          path: renamedFile.originalPath,
+          seasonNumber: episodeMapping.value.seasonNumber,
+          episodeNumber: episodeMapping.value.episodeNumber,
+          details: path.relative(seriesDirectory, renamedFile.updatedPath),
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Episodes that haven't aired yet aren't missing, and neither are specials.
+   */
+  private findMissingEpisodes(
+    seriesDirectory: string,
+    seriesSettings: Settings,
+    seriesDetails: Series,
+    seasonMapping: SeasonMapping,
+  ): Array<LibraryIssue> {
+    return SeriesCompleteness.fromSeasonMapping(seriesDetails, seasonMapping, seriesSettings.order).missingEpisodes
+      .filter((missingEpisode: EpisodeCompleteness) => {
+        return missingEpisode.seasonNumber > 0;
+      })
+      .map((missingEpisode: EpisodeCompleteness): LibraryIssue => {
+        const season = seasonMapping[missingEpisode.seasonNumber];
+        return {
+          type: 'missing-episode',
+          path: season !== undefined && season.folderName !== undefined ? path.join(seriesDirectory, season.folderName) : seriesDirectory,
+          seasonNumber: missingEpisode.seasonNumber,
+          episodeNumber: `${missingEpisode.episodeNumber}`.padStart(2, '0'),
+          details: missingEpisode.episode.episodeName,
+        };
+      });
+  }
+
+  // videos of the same episode, e.g. in two qualities
+  private findDuplicates(episodeMappings: Array<EpisodeMapping>): Array<LibraryIssue> {
+    const videosByEpisode = new Map<number, Array<EpisodeMapping>>();
+    for (const episodeMapping of episodeMappings) {
+      for (const episode of episodeMapping.value.isVideo ? episodeMapping.value.episodes : []) {
+        videosByEpisode.set(episode.id, [...(videosByEpisode.get(episode.id) || []), episodeMapping]);
+      }
+    }
+
+    const duplicatePaths = new Set<string>();
+    const issues: Array<LibraryIssue> = [];
+    for (const videos of videosByEpisode.values()) {
+      for (const video of videos.length > 1 ? videos : []) {
+        if (duplicatePaths.has(video.value.originalPath)) {
+          continue;
+        }
+
+        duplicatePaths.add(video.value.originalPath);
+        issues.push({
+          type: 'duplicate',
+          path: video.value.originalPath,
+          seasonNumber: video.value.seasonNumber,
+          episodeNumber: video.value.episodeNumber,
+          details: this.describeOtherFiles(video.value.originalPath, videos.map((otherVideo: EpisodeMapping) => {
+            return otherVideo.value.originalPath;
+          })),
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  private findTruncatedVideos(episodeMappings: Array<EpisodeMapping>): Array<LibraryIssue> {
+    return episodeMappings
+      .filter((episodeMapping: EpisodeMapping) => {
+        return episodeMapping.value.truncation !== undefined;
+      })
+      .map((episodeMapping: EpisodeMapping): LibraryIssue => {
+        return {
+          type: 'truncated',
+          path: episodeMapping.value.originalPath,
+          seasonNumber: episodeMapping.value.seasonNumber,
+          episodeNumber: episodeMapping.value.episodeNumber,
+          details: episodeMapping.value.truncation,
+        };
+      });
+  }
+
+  // without metadata, the videos of the folder are the only measure of a typical runtime
+  private async findTruncatedFiles(videoFiles: Array<string>): Promise<Array<LibraryIssue>> {
+    const mediaInfos: Array<MediaInfo> = [];
+    for (const videoFile of videoFiles) {
+      mediaInfos.push(await this.mediaProber.probe(videoFile));
+    }
+
+    const expectedDuration = getExpectedDuration(undefined, mediaInfos);
+    return videoFiles
+      .map((videoFile: string, index: number) => {
+        const truncation = findTruncation(mediaInfos[index], expectedDuration);
+        return truncation !== undefined ? this.createIssue('truncated', videoFile, truncation) : undefined;
+      })
+      .filter((issue: LibraryIssue) => {
+        return issue !== undefined;
+      });
+  }
+
+  // without metadata, only the season and episode in the names can be compared
+  private findDuplicatesByName(videoFiles: Array<string>): Array<LibraryIssue> {
+    const videosByEpisode = new Map<string, Array<string>>();
+    for (const videoFile of videoFiles) {
+      const parsedFileName = parseFileName(videoFile);
+      if (parsedFileName.season === undefined || parsedFileName.episodes.length === 0) {
+        continue;
+      }
+
+      const episodeKey = `${parsedFileName.season}/${parsedFileName.episodes.join(',')}`;
+      videosByEpisode.set(episodeKey, [...(videosByEpisode.get(episodeKey) || []), videoFile]);
+    }
+
+    return Array.from(videosByEpisode.values())
+      .filter((videos: Array<string>) => {
+        return videos.length > 1;
+      })
+      .map((videos: Array<string>) => {
+        return videos.map((videoFile: string): LibraryIssue => {
+          const parsedFileName = parseFileName(videoFile);
+          return {
+            type: 'duplicate',
+            path: videoFile,
+            seasonNumber: parsedFileName.season,
+            episodeNumber: parsedFileName.episodes
+              .map((episode: number) => {
+                return `${episode}`.padStart(2, '0');
+              })
+              .join('-'),
+            details: this.describeOtherFiles(videoFile, videos),
+          };
+        });
+      })
+      .flat();
+  }
+
+  /**
+   * Everything that is neither a video nor belongs to one. Without metadata, companions
+   * can't be matched to their videos, so all of them are accepted.
+   */
+  private findStrayFiles(files: Array<string>, companionPaths: Set<string>): Array<LibraryIssue> {
+    return files
+      .filter((filePath: string) => {
+        if (this.hasExtension(filePath, this.settings.videoFileExtensions) || toolFileNames.includes(path.basename(filePath))) {
+          return false;
+        }
+
+        if (this.hasExtension(filePath, this.settings.companionFileExtensions)) {
+          return companionPaths !== undefined && !companionPaths.has(filePath);
+        }
+
+        return true;
+      })
+      .map((filePath: string) => {
+        const isCompanion = this.hasExtension(filePath, this.settings.companionFileExtensions);
+        return this.createIssue('stray-file', filePath, isCompanion ? 'belongs to no video' : undefined);
+      });
+  }
+
+  private describeOtherFiles(filePath: string, filePaths: Array<string>): string {
+    const otherFileNames = filePaths
+      .filter((otherFilePath: string) => {
+        return otherFilePath !== filePath;
+      })
+      .map((otherFilePath: string) => {
+        return path.basename(otherFilePath);
+      });
+
+    return `same episode as ${otherFileNames.join(', ')}`;
+  }
+
+  private createIssue(type: LibraryIssue['type'], filePath: string, details: string): LibraryIssue {
+    return {type: type, path: filePath, seasonNumber: undefined, episodeNumber: undefined, details: details};
+  }
+
+  private hasExtension(filePath: string, extensions: Array<string>): boolean {
+    return extensions.includes(path.extname(filePath).toLowerCase());
+  }
+
+  private getMetadataProvider(seriesSettings: Settings): MetadataProvider {
+    return seriesSettings.provider === this.metadataProvider.name
+      ? this.metadataProvider
+      : createMetadataProvider(getMetadataProviderOptions(seriesSettings));
+  }
+
+  private createEpisodeNamer(seriesSettings: Settings): EpisodeNamer {
+    return new EpisodeNamer({
+      namingScheme: getNamingScheme(seriesSettings),
+      videoFileExtensions: seriesSettings.videoFileExtensions,
+      companionFileExtensions: seriesSettings.companionFileExtensions,
+      seasonFolder: seriesSettings.seasonFolder,
+      order: seriesSettings.order,
+      mediaProber: this.mediaProber,
+    });
+  }
+}
@@ -0,0 +1,581 @@
+import path from 'path';
+import {Settings, getMetadataProviderOptions, getNamingScheme} from './config';
+import {getTranslatedSeries, highConfidence, normalizeTitle} from './episodematcher';
+import {EpisodeNamer, seasonFolderRegex, specialsFolderRegex} from './episodenamer';
+import {getSeasonNumber} from './episodeorder';
+import {ParsedFileName, parseFileName} from './filenameparser';
+import {FilenameTemplate, filesystemReplacements} from './filenametemplate';
+import {getAllFilesInFolder, getFolderNames, isFolder, pathExists, readFolder} from './fsutils';
+import {Journal, JournalBatch} from './journal';
+import {MetadataProvider, MetadataProviderName, createMetadataProvider} from './providers';
+import {SeriesSidecar, applySeriesSidecar, formatSeriesSidecar, readSeriesSidecar, seriesSidecarFileName} from './seriessidecar';
+import {CompanionFile, EpisodeMapping, Series} from './types';
+
+export type SeriesCandidate = {
+  provider: MetadataProviderName,
+  seriesId: number,
+  seriesName: string,
+  // undefined if unknown
+  year: number,
+};
+
+export type SeriesIdentification = {
+  // the most likely series, undefined if nothing was found
+  series: SeriesCandidate,
+  // 0 to 100
+  confidence: number,
+  // e.g. 'library folder Show' or 'search for "Show"'
+  reason: string,
+  // other series that were found, for the review
+  alternatives: Array<SeriesCandidate>,
+};
+
+export type SortMove = {
+  originalPath: string,
+  targetPath: string,
+  isVideo: boolean,
+};
+
+// a video that needs a human to decide where it belongs
+export type UnsortedFile = {
+  path: string,
+  reason: string,
+  // the series that were considered, the most likely first
+  candidates: Array<SeriesCandidate>,
+};
+
+/**
+ * Where the videos of a download go in the library. Videos that can't be placed with
+ * enough confidence stay where they are and are listed as unsorted.
+ */
+export type SortPlan = {
+  // undefined if the series couldn't be identified
+  series: SeriesCandidate,
+  seriesDirectory: string,
+  // the series folder first, then season folders
+  newFolders: Array<string>,
+  // written into series folders without one, so that the series is known next time
+  sidecar: SeriesSidecar,
+  // videos with their companions
+  moves: Array<SortMove>,
+  unsorted: Array<UnsortedFile>,
+};
+
+type LibrarySeriesFolder = {
+  directory: string,
+  // undefined for folders that were never standardized
+  sidecar: SeriesSidecar,
+};
+
+const sidecarConfidence = 100;
+const libraryConfidence = 95;
+const uniqueSearchConfidence = 90;
+const ambiguousSearchConfidence = 60;
+const closestSearchConfidence = 40;
+
+// alternatives that are offered in the review
+const maximumCandidates = 5;
+
+const defaultSeasonFolder = 'Season {season:00}';
+
+// season packs are named like 'Show.Name.S01.1080p', without an episode the season isn't recognized
+const trailingSeasonRegex = /\s+(s|season|staffel)\s*\d+$/i;
+
+/**
+ * Moves downloads into a library as `<library>/<series>/Season NN/`, named like the
+ * series folder would be standardized. The series is identified through a sidecar in the
+ * download, a series folder of the library or a search at the provider.
+ */
+export class LibrarySorter {
+
+  public readonly libraryDirectory: string;
+
+  private settings: Settings;
+  private metadataProvider: MetadataProvider;
+
+  constructor(libraryDirectory: string, settings: Settings, metadataProvider: MetadataProvider) {
+    this.libraryDirectory = libraryDirectory;
+    this.settings = settings;
+    this.metadataProvider = metadataProvider;
+  }
+
+  /**
+   * Plans a download: a single video or a folder with videos, e.g. a season pack.
+   * The series is identified once for the whole download.
+   */
+  public async planDownload(downloadPath: string, videoPaths: Array<string>): Promise<SortPlan> {
+    const identification = await this.identifySeries(downloadPath, videoPaths[0]);
+    if (identification.confidence < highConfidence) {
+      return this.createUncertainPlan(videoPaths, identification);
+    }
+
+    return this.planForSeries(videoPaths, identification.series, getCandidates(identification));
+  }
+
+  /**
+   * Plans a folder with downloads of many series, one plan per series. Every file or folder
+   * in it is a download, the downloads of the same series are planned together.
+   */
+  public async planInbox(inboxDirectory: string): Promise<Array<SortPlan>> {
+    const seriesGroups = new Map<string, {identification: SeriesIdentification, videoPaths: Array<string>}>();
+    const plans: Array<SortPlan> = [];
+    for (const itemName of await readFolder(inboxDirectory)) {
+      const downloadPath = path.join(inboxDirectory, itemName);
+      const files = await isFolder(downloadPath) ? await getAllFilesInFolder(downloadPath) : [downloadPath];
+      const videoPaths = files.filter((file: string) => {
+        return this.settings.videoFileExtensions.includes(path.extname(file).toLowerCase());
+      });
+      if (videoPaths.length === 0) {
+        continue;
+      }
+
+      const identification = await this.identifySeries(downloadPath, videoPaths[0]);
+      if (identification.confidence < highConfidence) {
+        plans.push(this.createUncertainPlan(videoPaths, identification));
+        continue;
+      }
+
+      const seriesKey = `${identification.series.provider}:${identification.series.seriesId}`;
+      if (!seriesGroups.has(seriesKey)) {
+        seriesGroups.set(seriesKey, {identification: identification, videoPaths: []});
+      }
+      seriesGroups.get(seriesKey).videoPaths.push(...videoPaths);
+    }
+
+    const seriesPlans: Array<SortPlan> = [];
+    for (const {identification, videoPaths} of seriesGroups.values()) {
+      try {
+        seriesPlans.push(await this.planForSeries(videoPaths, identification.series, getCandidates(identification)));
+      } catch (error) {
+        seriesPlans.push(this.createUnsortedPlan(videoPaths, `episodes couldn't be loaded: ${error.message}`, getCandidates(identification)));
+      }
+    }
+
+    // two series of the same name would end up in the same new folder
+    const newSeriesDirectories = new Set<string>();
+    for (const plan of seriesPlans) {
+      if (plan.newFolders.includes(plan.seriesDirectory) && newSeriesDirectories.has(plan.seriesDirectory)) {
+        const videoPaths = [...getMovedVideoPaths(plan), ...plan.unsorted.map((unsortedFile: UnsortedFile) => {
+          return unsortedFile.path;
+        })];
+        plans.push(this.createUnsortedPlan(videoPaths, `${plan.seriesDirectory} belongs to another series`, [plan.series]));
+        continue;
+      }
+
+      newSeriesDirectories.add(plan.seriesDirectory);
+      plans.push(plan);
+    }
+
+    // the series first, the videos that stay in the inbox last
+    return plans.sort((plan1: SortPlan, plan2: SortPlan) => {
+      return Number(plan1.series === undefined) - Number(plan2.series === undefined);
+    });
+  }
+
+  /**
+   * The best guess is only as confident as its source: a sidecar in the download is
+   * certain, a name that several series share at the provider is not.
+   */
+  public async identifySeries(downloadPath: string, videoPath: string): Promise<SeriesIdentification> {
+    // the sidecar of a folder that was standardized before, e.g. a series that is downloaded again
+    const downloadFolders: Array<string> = [];
+    for (let folder = path.dirname(videoPath); videoPath !== downloadPath && folder.startsWith(downloadPath); folder = path.dirname(folder)) {
+      downloadFolders.push(folder);
+    }
+    for (const folder of downloadFolders) {
+      const sidecar = await this.readSidecar(folder);
+      if (sidecar !== undefined) {
+        return {series: this.sidecarToCandidate(sidecar), confidence: sidecarConfidence, reason: 'sidecar of the download', alternatives: []};
+      }
+    }
+
+    // a file like 'e01.mkv' has no title, then the folder of the download tells it
+    const parsedFileName = [path.basename(videoPath), `${path.basename(downloadPath)}${path.extname(videoPath)}`]
+      .map((fileName: string) => {
+        return parseFileName(fileName);
+      })
+      .find((parsed: ParsedFileName) => {
+        return parsed.title.replace(trailingSeasonRegex, '').length > 0;
+      });
+    if (parsedFileName === undefined) {
+      return {series: undefined, confidence: 0, reason: 'no series name in the file name', alternatives: []};
+    }
+
+    const title = parsedFileName.title.replace(trailingSeasonRegex, '');
+    const normalizedTitle = normalizeTitle(title);
+    const libraryMatches = (await this.getLibrarySeriesFolders()).filter((seriesFolder: LibrarySeriesFolder) => {
+      return seriesFolder.sidecar !== undefined && [seriesFolder.sidecar.seriesName || '', path.basename(seriesFolder.directory)]
+        .some((name: string) => {
+          return normalizeTitle(name) === normalizedTitle;
+        });
+    });
+    if (libraryMatches.length === 1) {
+      return {
+        series: this.sidecarToCandidate(libraryMatches[0].sidecar),
+        confidence: libraryConfidence,
+        reason: `library folder ${path.basename(libraryMatches[0].directory)}`,
+        alternatives: [],
+      };
+    }
+
+    return this.searchSeries(title, parsedFileName.year);
+  }
+
+  /**
+   * Plans videos of a series that is known, e.g. because it was picked in the review.
+   * Videos whose episode isn't certain or that are in the library already aren't moved.
+   */
+  public async planForSeries(videoPaths: Array<string>, series: SeriesCandidate, candidates: Array<SeriesCandidate> = [series]): Promise<SortPlan> {
+    const seriesFolder = await this.findSeriesFolder(series);
+    const seriesSettings = seriesFolder !== undefined && seriesFolder.sidecar !== undefined
+      ? applySeriesSidecar(this.settings, seriesFolder.sidecar)
+      : {...this.settings, provider: series.provider};
+    const metadataProvider = this.getMetadataProvider(seriesSettings);
+    const seriesDetails = await metadataProvider.getSeriesWithEpisodes(series.seriesId, seriesSettings.language);
+    const translations = await getTranslatedSeries(metadataProvider, series.seriesId, seriesSettings.language);
+
+    const seriesDirectory = seriesFolder !== undefined
+      ? seriesFolder.directory
+      : path.join(this.libraryDirectory, new FilenameTemplate('{series}', filesystemReplacements).render({series: seriesDetails.seriesName}));
+    if (seriesFolder === undefined && await pathExists(seriesDirectory)) {
+      return this.createUnsortedPlan(videoPaths, `${seriesDirectory} belongs to another series`, candidates);
+    }
+
+    const plan: SortPlan = {
+      series: {...series, seriesName: seriesDetails.seriesName},
+      seriesDirectory: seriesDirectory,
+      newFolders: [],
+      sidecar: seriesFolder === undefined || seriesFolder.sidecar === undefined
+        ? {seriesId: series.seriesId, seriesName: seriesDetails.seriesName, provider: series.provider, language: seriesSettings.language}
+        : undefined,
+      moves: [],
+      unsorted: [],
+    };
+
+    const episodeNamer = new EpisodeNamer({
+      namingScheme: getNamingScheme(seriesSettings),
+      videoFileExtensions: seriesSettings.videoFileExtensions,
+      companionFileExtensions: seriesSettings.companionFileExtensions,
+      order: seriesSettings.order,
+    });
+
+    const folders = Array.from(new Set(videoPaths.map((videoPath: string) => {
+      return path.dirname(videoPath);
+    })));
+    for (const folder of folders) {
+      const fileNames = videoPaths
+        .filter((videoPath: string) => {
+          return path.dirname(videoPath) === folder;
+        })
+        .map((videoPath: string) => {
+          return path.basename(videoPath);
+        });
+
+      const episodeMappings = await episodeNamer.generateEpisodeNamesForDownload(folder, fileNames, seriesDetails, translations);
+      for (const episodeMapping of episodeMappings) {
+        await this.planEpisode(plan, episodeNamer, seriesSettings, seriesDetails, episodeMapping);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Creates the folders and the sidecars and moves the files of all plans, as one batch
+   * of the journal. Downloads must be on the same filesystem as the library.
+   */
+  public async apply(plans: Array<SortPlan>, journal: Journal, description: string): Promise<JournalBatch> {
+    const batch = journal.beginBatch(description);
+
+    try {
+      for (const plan of plans) {
+        for (const newFolder of plan.newFolders) {
+          await journal.createFolder(batch, newFolder);
+        }
+
+        if (plan.sidecar !== undefined && plan.moves.length > 0) {
+          await journal.createFile(batch, path.join(plan.seriesDirectory, seriesSidecarFileName), formatSeriesSidecar(plan.sidecar));
+        }
+
+        for (const move of plan.moves) {
+          await journal.rename(batch, 'move', move.originalPath, move.targetPath);
+        }
+      }
+    } finally {
+      await journal.commit(batch);
+    }
+
+    return batch;
+  }
+
+  private async planEpisode(
+    plan: SortPlan,
+    episodeNamer: EpisodeNamer,
+    seriesSettings: Settings,
+    seriesDetails: Series,
+    episodeMapping: EpisodeMapping,
+  ): Promise<void> {
+    const suggestion = episodeMapping.value.suggestion;
+    const acceptedEpisodeMapping = episodeMapping.value.episode === undefined && suggestion !== undefined && suggestion.confidence >= highConfidence
+      ? episodeNamer.acceptSuggestion(seriesDetails, episodeMapping)
+      : episodeMapping;
+
+    const videoPath = acceptedEpisodeMapping.value.originalPath;
+    if (!acceptedEpisodeMapping.value.isVideo) {
+      return;
+    }
+
+    if (acceptedEpisodeMapping.value.episode === undefined) {
+      const reason = suggestion !== undefined
+        ? `probably ${suggestion.episode.episodeName}, ${suggestion.confidence}%`
+        : `no matching episode of ${seriesDetails.seriesName}`;
+      plan.unsorted.push({path: videoPath, reason: reason, candidates: [plan.series]});
+      return;
+    }
+
+    const season = getSeasonNumber(acceptedEpisodeMapping.value.episode, seriesSettings.order);
+    const seasonDirectory = await this.getSeasonDirectory(plan, season, seriesSettings);
+    const moves: Array<SortMove> = [
+      {originalPath: videoPath, targetPath: path.join(seasonDirectory, path.basename(acceptedEpisodeMapping.value.updatedPath)), isVideo: true},
+      ...acceptedEpisodeMapping.value.companions.map((companion: CompanionFile): SortMove => {
+        return {originalPath: companion.originalPath, targetPath: path.join(seasonDirectory, path.basename(companion.updatedPath)), isVideo: false};
+      }),
+    ];
+
+    // the library is never overwritten, a second copy of an episode is for the review to decide
+    for (const move of moves) {
+      const isPlanned = plan.moves.some((plannedMove: SortMove) => {
+        return plannedMove.targetPath === move.targetPath;
+      });
+      if (isPlanned || await pathExists(move.targetPath)) {
+        plan.unsorted.push({
+          path: videoPath,
+          reason: `already in the library: ${path.relative(this.libraryDirectory, move.targetPath)}`,
+          candidates: [plan.series],
+        });
+        return;
+      }
+    }
+
+    await this.addNewFolders(plan, moves);
+    plan.moves.push(...moves);
+  }
+
+  /**
+   * An existing folder of the season, otherwise one named like the season folder template.
+   * Folders like 'Extras 2' or '1080p' aren't season folders, although they contain a number.
+   */
+  private async getSeasonDirectory(plan: SortPlan, season: number, seriesSettings: Settings): Promise<string> {
+    const templateFolderName = new FilenameTemplate(seriesSettings.seasonFolder || defaultSeasonFolder, filesystemReplacements).render({
+      series: plan.series.seriesName,
+      seriesId: plan.series.seriesId,
+      season: season,
+    });
+    const folderNames = await isFolder(plan.seriesDirectory) ? await getFolderNames(plan.seriesDirectory) : [];
+    const seasonFolderName = folderNames.find((folderName: string) => {
+      const folderSeason = folderName.match(seasonFolderRegex);
+      return folderName === templateFolderName
+        || season === 0 && specialsFolderRegex.test(folderName)
+        || (folderSeason !== null && parseInt(folderSeason[1]) === season);
+    });
+
+    return path.join(plan.seriesDirectory, seasonFolderName !== undefined ? seasonFolderName : templateFolderName);
+  }
+
+  // only the folders of accepted moves, a plan whose videos are all in the library already creates nothing
+  private async addNewFolders(plan: SortPlan, moves: Array<SortMove>): Promise<void> {
+    const targetFolders = [plan.seriesDirectory, ...moves.map((move: SortMove) => {
+      return path.dirname(move.targetPath);
+    })];
+    for (const targetFolder of targetFolders) {
+      if (!plan.newFolders.includes(targetFolder) && !await pathExists(targetFolder)) {
+        plan.newFolders.push(targetFolder);
+      }
+    }
+  }
+
+  private async searchSeries(title: string, year: number): Promise<SeriesIdentification> {
+    let results: Array<Series>;
+    try {
+      results = await this.metadataProvider.searchSeries(title, this.settings.language);
+    } catch (error) {
+      return {series: undefined, confidence: 0, reason: `search for "${title}" failed: ${error.message}`, alternatives: []};
+    }
+
+    const normalizedTitle = normalizeTitle(title);
+    const exactMatches = results.filter((series: Series) => {
+      return [series.seriesName, ...(series.aliases || [])].some((name: string) => {
+        return normalizeTitle(name) === normalizedTitle;
+      });
+    });
+    // remakes share their names, the year in the release name tells them apart
+    const yearMatches = exactMatches.filter((series: Series) => {
+      return year !== undefined && getYear(series) === year;
+    });
+    const matches = yearMatches.length > 0 ? yearMatches : exactMatches;
+
+    const ranked = [...matches, ...results.filter((series: Series) => {
+      return !matches.includes(series);
+    })]
+      .slice(0, maximumCandidates)
+      .map((series: Series) => {
+        return getSeriesCandidate(series, this.metadataProvider.name);
+      });
+
+    if (ranked.length === 0) {
+      return {series: undefined, confidence: 0, reason: `no series found for "${title}"`, alternatives: []};
+    }
+
+    const [series, ...alternatives] = ranked;
+    if (matches.length === 1) {
+      return {series: series, confidence: uniqueSearchConfidence, reason: `search for "${title}"`, alternatives: alternatives};
+    }
+
+    return matches.length > 1
+      ? {series: series, confidence: ambiguousSearchConfidence, reason: `${matches.length} series are called "${title}"`, alternatives: alternatives}
+      : {series: series, confidence: closestSearchConfidence, reason: `closest search result for "${title}"`, alternatives: alternatives};
+  }
+
+  // the folder that remembers the series, otherwise a folder of its name that remembers nothing
+  private async findSeriesFolder(series: SeriesCandidate): Promise<LibrarySeriesFolder> {
+    const seriesFolders = await this.getLibrarySeriesFolders();
+    const rememberingFolder = seriesFolders.find((seriesFolder: LibrarySeriesFolder) => {
+      return seriesFolder.sidecar !== undefined
+        && seriesFolder.sidecar.seriesId === series.seriesId
+        && (seriesFolder.sidecar.provider || this.settings.provider) === series.provider;
+    });
+    if (rememberingFolder !== undefined) {
+      return rememberingFolder;
+    }
+
+    return seriesFolders.find((seriesFolder: LibrarySeriesFolder) => {
+      return seriesFolder.sidecar === undefined && normalizeTitle(path.basename(seriesFolder.directory)) === normalizeTitle(series.seriesName || '');
+    });
+  }
+
+  // the top level folders of the library
+  private async getLibrarySeriesFolders(): Promise<Array<LibrarySeriesFolder>> {
+    const seriesFolders: Array<LibrarySeriesFolder> = [];
+    for (const folderName of await getFolderNames(this.libraryDirectory)) {
+      const directory = path.join(this.libraryDirectory, folderName);
+      seriesFolders.push({directory: directory, sidecar: await this.readSidecar(directory)});
+    }
+
+    return seriesFolders;
+  }
+
+  // broken sidecars are reported by the library scan, here they are just ignored
+  private async readSidecar(directory: string): Promise<SeriesSidecar> {
+    try {
+      return await readSeriesSidecar(directory);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private createUncertainPlan(videoPaths: Array<string>, identification: SeriesIdentification): SortPlan {
+    const reason = identification.series !== undefined
+      ? `probably ${formatSeriesCandidate(identification.series)}, ${identification.confidence}% (${identification.reason})`
+      : identification.reason;
+    return this.createUnsortedPlan(videoPaths, reason, getCandidates(identification));
+  }
+
+  private createUnsortedPlan(videoPaths: Array<string>, reason: string, candidates: Array<SeriesCandidate>): SortPlan {
+    return {
+      series: undefined,
+      seriesDirectory: undefined,
+      newFolders: [],
+      sidecar: undefined,
+      moves: [],
+      unsorted: videoPaths.map((videoPath: string): UnsortedFile => {
+        return {path: videoPath, reason: reason, candidates: candidates};
+      }),
+    };
+  }
+
+  private sidecarToCandidate(sidecar: SeriesSidecar): SeriesCandidate {
+    return {
+      provider: sidecar.provider || this.settings.provider,
+      seriesId: sidecar.seriesId,
+      seriesName: sidecar.seriesName,
+      year: undefined,
+    };
+  }
+
+  private getMetadataProvider(seriesSettings: Settings): MetadataProvider {
+    return seriesSettings.provider === this.metadataProvider.name
+      ? this.metadataProvider
+      : createMetadataProvider(getMetadataProviderOptions(seriesSettings));
+  }
+}
+
+export function getSeriesCandidate(series: Series, provider: MetadataProviderName): SeriesCandidate {
+  return {provider: provider, seriesId: series.id, seriesName: series.seriesName, year: getYear(series)};
+}
+
+// e.g. 'Show (2019)'
+export function formatSeriesCandidate(series: SeriesCandidate): string {
+  const seriesName = series.seriesName || `${series.provider} ${series.seriesId}`;
+  return series.year !== undefined ? `${seriesName} (${series.year})` : seriesName;
+}
+
+/**
+ * The plans as text for the review before they are applied, paths relative to the inbox
+ * and the library.
+ */
+export function formatSortPlans(plans: Array<SortPlan>, inboxDirectory: string, libraryDirectory: string): string {
+  const moveCount = plans.reduce((count: number, plan: SortPlan) => {
+    return count + getMovedVideoPaths(plan).length;
+  }, 0);
+  const unsorted = plans.flatMap((plan: SortPlan) => {
+    return plan.unsorted;
+  });
+  const lines = [
+    `Inbox: ${inboxDirectory}`,
+    `Library: ${libraryDirectory}`,
+    `${moveCount} ${moveCount === 1 ? 'video' : 'videos'} sorted, ${unsorted.length} not sorted`,
+  ];
+
+  for (const plan of plans.filter((seriesPlan: SortPlan) => {
+    return seriesPlan.moves.length > 0;
+  })) {
+    lines.push('', `--- ${formatSeriesCandidate(plan.series)} in ${path.relative(libraryDirectory, plan.seriesDirectory)}${path.sep} ---`);
+    for (const newFolder of plan.newFolders) {
+      lines.push(`+ ${path.relative(libraryDirectory, newFolder)}${path.sep} (new folder)`);
+    }
+    for (const move of plan.moves) {
+      // companions are indented below their video
+      const indent = move.isVideo ? '' : '  ';
+      lines.push(`- ${indent}${path.relative(inboxDirectory, move.originalPath)}`, `+ ${indent}${path.relative(libraryDirectory, move.targetPath)}`);
+    }
+  }
+
+  if (unsorted.length > 0) {
+    lines.push('', '--- not sorted, stays in the inbox ---');
+    for (const unsortedFile of unsorted) {
+      lines.push(`! ${path.relative(inboxDirectory, unsortedFile.path)} (${unsortedFile.reason})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function getCandidates(identification: SeriesIdentification): Array<SeriesCandidate> {
+  return identification.series !== undefined
+    ? [identification.series, ...identification.alternatives]
+    : identification.alternatives;
+}
+
+function getMovedVideoPaths(plan: SortPlan): Array<string> {
+  return plan.moves
+    .filter((move: SortMove) => {
+      return move.isVideo;
+    })
+    .map((move: SortMove) => {
+      return move.originalPath;
+    });
+}
+
+function getYear(series: Series): number {
+  return series.firstAired ? parseInt(series.firstAired.substring(0, 4)) : undefined;
+}
@@ -0,0 +1,189 @@
+import {MediaFileReader} from './mediafilereader';
+import {MediaInfo, MediaProbeError, MediaTrack, MediaTrackType} from './mediainfo';
+
+const trackTypes: {[streamType: string]: MediaTrackType} = {vids: 'video', auds: 'audio', txts: 'subtitle'};
+
+// compressions of video streams, uppercased
+const videoCodecNames: {[fourcc: string]: string} = {
+  XVID: 'mpeg4',
+  DIVX: 'mpeg4',
+  DX50: 'mpeg4',
+  FMP4: 'mpeg4',
+  MP4V: 'mpeg4',
+  H264: 'h264',
+  X264: 'h264',
+  AVC1: 'h264',
+  HEVC: 'hevc',
+  HVC1: 'hevc',
+  MJPG: 'mjpeg',
+  MPG2: 'mpeg2',
+};
+
+// format tags of audio streams
+const audioCodecNames: {[formatTag: number]: string} = {
+  0x0001: 'pcm',
+  0x0050: 'mp2',
+  0x0055: 'mp3',
+  0x00FF: 'aac',
+  0x0161: 'wma',
+  0x2000: 'ac3',
+  0x2001: 'dts',
+};
+
+// the header list holds a few small chunks per stream
+const maximumHeaderListSize = 1024 * 1024;
+
+type Chunk = {
+  id: string,
+  // the list type, e.g. 'hdrl', for RIFF and LIST chunks
+  listType: string,
+  dataStart: number,
+  size: number,
+};
+
+/**
+ * Reads the header list of an AVI file. Files larger than 1 GB (OpenDML) continue
+ * in further RIFF chunks, a download that was aborted ends inside the last one.
+ */
+export async function probeAvi(reader: MediaFileReader): Promise<MediaInfo> {
+  const riffChunks: Array<Chunk> = [];
+  let position = 0;
+  while (position + 12 <= reader.size) {
+    const chunk = readChunkHeader(await reader.read(position, 12), 0, position);
+    if (chunk.id !== 'RIFF') {
+      break;
+    }
+
+    riffChunks.push(chunk);
+    // chunks are padded to an even size
+    position = chunk.dataStart + chunk.size + chunk.size % 2;
+  }
+
+  if (riffChunks.length === 0 || riffChunks[0].listType !== 'AVI ') {
+    throw new MediaProbeError('no AVI RIFF chunk');
+  }
+
+  const lastChunk = riffChunks[riffChunks.length - 1];
+  const truncated = lastChunk.dataStart + lastChunk.size > reader.size;
+
+  // the header list comes first
+  const headerList = readChunkHeader(await reader.read(riffChunks[0].dataStart + 4, 12), 0, riffChunks[0].dataStart + 4);
+  if (headerList.id !== 'LIST' || headerList.listType !== 'hdrl') {
+    throw new MediaProbeError('no AVI header list');
+  }
+  if (headerList.size > maximumHeaderListSize) {
+    throw new MediaProbeError('the AVI header list is too large');
+  }
+
+  const headers = await reader.read(headerList.dataStart + 4, headerList.size - 4);
+  const mainHeader = findChunks(headers, 'avih')[0];
+  const extendedHeader = findChunks(headers, 'dmlh')
+    .concat(...findLists(headers, 'odml').map((odml: Buffer) => {
+      return findChunks(odml, 'dmlh');
+    }))[0];
+
+  let duration: number;
+  if (mainHeader !== undefined && mainHeader.length >= 40) {
+    // the main header only counts the frames of the first RIFF chunk
+    const totalFrames = extendedHeader !== undefined && extendedHeader.length >= 4
+      ? extendedHeader.readUInt32LE(0)
+      : mainHeader.readUInt32LE(16);
+    duration = totalFrames * mainHeader.readUInt32LE(0) / 1000000;
+  }
+
+  const tracks = findLists(headers, 'strl')
+    .map((streamList: Buffer) => {
+      return readTrack(streamList, mainHeader);
+    })
+    .filter((track: MediaTrack) => {
+      return track !== undefined;
+    });
+
+  return {container: 'avi', duration: duration || undefined, tracks: tracks, truncated: truncated};
+}
+
+// AVI has no languages per stream
+function readTrack(streamList: Buffer, mainHeader: Buffer): MediaTrack {
+  const streamHeader = findChunks(streamList, 'strh')[0];
+  const streamFormat = findChunks(streamList, 'strf')[0];
+  const trackType = streamHeader !== undefined && streamHeader.length >= 8 ? trackTypes[streamHeader.toString('latin1', 0, 4)] : undefined;
+  if (trackType === undefined) {
+    return undefined;
+  }
+
+  const track: MediaTrack = {type: trackType, codec: trackType === 'subtitle' ? 'text' : undefined, language: undefined};
+  if (trackType === 'video') {
+    // the compression of the bitmap header, the handler of the stream header is often empty
+    const fourcc = streamFormat !== undefined && streamFormat.length >= 20
+      ? streamFormat.toString('latin1', 16, 20)
+      : streamHeader.toString('latin1', 4, 8);
+    track.codec = videoCodecNames[fourcc.toUpperCase()] || fourcc.replace(/\0/g, '').trim().toLowerCase();
+    if (mainHeader !== undefined && mainHeader.length >= 40) {
+      track.width = mainHeader.readUInt32LE(32);
+      track.height = mainHeader.readUInt32LE(36);
+    }
+  }
+
+  if (trackType === 'audio' && streamFormat !== undefined && streamFormat.length >= 4) {
+    const formatTag = streamFormat.readUInt16LE(0);
+    track.codec = audioCodecNames[formatTag] || `0x${formatTag.toString(16)}`;
+    track.channels = streamFormat.readUInt16LE(2);
+  }
+
+  return track;
+}
+
+function findChunks(data: Buffer, id: string): Array<Buffer> {
+  return readChunks(data)
+    .filter((chunk: Chunk) => {
+      return chunk.id === id;
+    })
+    .map((chunk: Chunk) => {
+      return data.slice(chunk.dataStart, chunk.dataStart + chunk.size);
+    });
+}
+
+// the content of the lists, without their type
+function findLists(data: Buffer, listType: string): Array<Buffer> {
+  return readChunks(data)
+    .filter((chunk: Chunk) => {
+      return chunk.id === 'LIST' && chunk.listType === listType;
+    })
+    .map((chunk: Chunk) => {
+      return data.slice(chunk.dataStart + 4, chunk.dataStart + chunk.size);
+    });
+}
+
+function readChunks(data: Buffer): Array<Chunk> {
+  const chunks: Array<Chunk> = [];
+  let position = 0;
+  while (position + 8 <= data.length) {
+    const chunk = readChunkHeader(data, position, position);
+    if (chunk.dataStart + chunk.size > data.length) {
+      break;
+    }
+
+    chunks.push(chunk);
+    position = chunk.dataStart + chunk.size + chunk.size % 2;
+  }
+
+  return chunks;
+}
+
+/**
+ * @param position where the header is in the file, offset is where it is in the buffer
+ */
+function readChunkHeader(buffer: Buffer, offset: number, position: number): Chunk {
+  if (buffer.length < offset + 8) {
+    return {id: undefined, listType: undefined, dataStart: position + 8, size: 0};
+  }
+
+  const id = buffer.toString('latin1', offset, offset + 4);
+  const isList = id === 'RIFF' || id === 'LIST';
+  return {
+    id: id,
+    listType: isList && buffer.length >= offset + 12 ? buffer.toString('latin1', offset + 8, offset + 12) : undefined,
+    dataStart: position + 8,
+    size: buffer.readUInt32LE(offset + 4),
+  };
+}
@@ -0,0 +1,211 @@
+import {promises as fsPromises} from 'fs';
+import {TemplateValues} from '../filenametemplate';
+import {probeAvi} from './avi';
+import {probeMatroska} from './matroska';
+import {MediaFileReader} from './mediafilereader';
+import {MediaInfo, MediaTrack, MediaTrackType} from './mediainfo';
+import {probeMp4} from './mp4';
+
+export {MediaContainer, MediaInfo, MediaProbeError, MediaTrack, MediaTrackType} from './mediainfo';
+
+// videos shorter than this share of the typical runtime are reported as truncated
+const minimumDurationShare = 0.5;
+// the typical runtime of a season is only guessed from its videos if it has this many
+const minimumVideosForMedian = 3;
+
+const channelLayouts: {[channels: number]: string} = {1: '1.0', 2: '2.0', 6: '5.1', 8: '7.1'};
+
+type CachedMediaInfo = {size: number, modified: number, mediaInfo: MediaInfo};
+
+/**
+ * Reads duration, resolution, codecs and languages from the headers of Matroska, MP4
+ * and AVI files, without external tools. Results are cached until a file changes.
+ */
+export class MediaProber {
+
+  private cache = new Map<string, CachedMediaInfo>();
+
+  /**
+   * Resolves to undefined for other formats and for files that can't be read.
+   */
+  public async probe(filePath: string): Promise<MediaInfo> {
+    let reader: MediaFileReader;
+    try {
+      reader = await MediaFileReader.open(filePath);
+    } catch {
+      return undefined;
+    }
+
+    try {
+      const fileStats = await fsPromises.stat(filePath);
+      const cachedMediaInfo = this.cache.get(filePath);
+      if (cachedMediaInfo !== undefined && cachedMediaInfo.size === fileStats.size && cachedMediaInfo.modified === fileStats.mtimeMs) {
+        return cachedMediaInfo.mediaInfo;
+      }
+
+      const mediaInfo = await this.probeContainer(reader);
+      this.cache.set(filePath, {size: fileStats.size, modified: fileStats.mtimeMs, mediaInfo: mediaInfo});
+
+      return mediaInfo;
+    } catch {
+      // a broken container says nothing about the content
+      return undefined;
+    } finally {
+      await reader.close();
+    }
+  }
+
+  // by the magic bytes, file extensions are often wrong
+  private async probeContainer(reader: MediaFileReader): Promise<MediaInfo> {
+    const magic = await reader.read(0, 12);
+    if (magic.length < 12) {
+      return undefined;
+    }
+
+    if (magic.readUInt32BE(0) === 0x1A45DFA3) {
+      return probeMatroska(reader);
+    }
+
+    if (['ftyp', 'moov', 'mdat', 'free', 'wide'].includes(magic.toString('latin1', 4, 8))) {
+      return probeMp4(reader);
+    }
+
+    if (magic.toString('latin1', 0, 4) === 'RIFF' && magic.toString('latin1', 8, 12) === 'AVI ') {
+      return probeAvi(reader);
+    }
+
+    return undefined;
+  }
+}
+
+// e.g. '1080p'. Wide formats are classified by width, because their height is cropped
+export function formatResolution(track: MediaTrack): string {
+  if (track === undefined || !track.width || !track.height) {
+    return undefined;
+  }
+
+  const classes: Array<[number, number, string]> = [
+    [3200, 1800, '2160p'],
+    [1800, 1000, '1080p'],
+    [1200, 700, '720p'],
+    [1000, 560, '576p'],
+    [700, 460, '480p'],
+  ];
+  const resolutionClass = classes.find(([width, height]: [number, number, string]) => {
+    return track.width >= width || track.height >= height;
+  });
+
+  return resolutionClass !== undefined ? resolutionClass[2] : `${track.height}p`;
+}
+
+// e.g. 'AAC 5.1'
+export function formatAudio(track: MediaTrack): string {
+  if (track === undefined) {
+    return undefined;
+  }
+
+  const channels = track.channels ? channelLayouts[track.channels] || `${track.channels}ch` : undefined;
+  return [track.codec.toUpperCase(), channels].filter(Boolean).join(' ');
+}
+
+/**
+ * A short summary for listings, e.g. '1080p h264, AAC 2.0 en+de, subs en, 42 min'.
+ */
+export function describeMediaInfo(mediaInfo: MediaInfo): string {
+  const videoTrack = getTracks(mediaInfo, 'video')[0];
+  const audioTracks = getTracks(mediaInfo, 'audio');
+  const subtitleLanguages = getLanguages(getTracks(mediaInfo, 'subtitle'));
+
+  return [
+    videoTrack !== undefined ? [formatResolution(videoTrack), videoTrack.codec].filter(Boolean).join(' ') : undefined,
+    audioTracks.length > 0 ? [formatAudio(audioTracks[0]), getLanguages(audioTracks)].filter(Boolean).join(' ') : undefined,
+    subtitleLanguages !== undefined ? `subs ${subtitleLanguages}` : undefined,
+    mediaInfo.duration !== undefined ? `${Math.round(mediaInfo.duration / 60)} min` : undefined,
+    mediaInfo.truncated ? 'truncated' : undefined,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * The values of the media tokens, undefined where the file doesn't say, so that
+ * conditional sections like `< [{resolution}]>` are left out.
+ */
+export function getMediaTemplateValues(mediaInfo: MediaInfo): TemplateValues {
+  if (mediaInfo === undefined) {
+    return {};
+  }
+
+  const videoTrack = getTracks(mediaInfo, 'video')[0];
+  const audioTracks = getTracks(mediaInfo, 'audio');
+
+  return {
+    resolution: formatResolution(videoTrack),
+    videoCodec: videoTrack !== undefined ? videoTrack.codec : undefined,
+    audio: formatAudio(audioTracks[0]),
+    languages: getLanguages(audioTracks),
+  };
+}
+
+/**
+ * Why a video is probably incomplete, undefined if it looks complete.
+ * @param expectedDuration the typical runtime in seconds, undefined if unknown
+ */
+export function findTruncation(mediaInfo: MediaInfo, expectedDuration: number): string {
+  if (mediaInfo === undefined) {
+    return undefined;
+  }
+
+  if (mediaInfo.truncated) {
+    return 'the file ends before its content';
+  }
+
+  if (expectedDuration && mediaInfo.duration !== undefined && mediaInfo.duration < expectedDuration * minimumDurationShare) {
+    return `only ${Math.round(mediaInfo.duration / 60)} of ${Math.round(expectedDuration / 60)} minutes`;
+  }
+
+  return undefined;
+}
+
+/**
+ * The typical runtime in seconds: the runtime of the series in minutes if the provider
+ * knows it, otherwise the median of the videos, if there are enough to tell.
+ */
+export function getExpectedDuration(runtime: string, mediaInfos: Array<MediaInfo>): number {
+  const runtimeMinutes = parseInt(runtime, 10);
+  if (runtimeMinutes > 0) {
+    return runtimeMinutes * 60;
+  }
+
+  const durations = mediaInfos
+    .filter((mediaInfo: MediaInfo) => {
+      return mediaInfo !== undefined && mediaInfo.duration !== undefined;
+    })
+    .map((mediaInfo: MediaInfo) => {
+      return mediaInfo.duration;
+    })
+    .sort((duration1: number, duration2: number) => {
+      return duration1 - duration2;
+    });
+
+  return durations.length >= minimumVideosForMedian ? durations[Math.floor(durations.length / 2)] : undefined;
+}
+
+function getTracks(mediaInfo: MediaInfo, type: MediaTrackType): Array<MediaTrack> {
+  return mediaInfo.tracks.filter((track: MediaTrack) => {
+    return track.type === type;
+  });
+}
+
+// e.g. 'en+de', undefined if no track has a language
+function getLanguages(tracks: Array<MediaTrack>): string {
+  const languages = tracks
+    .map((track: MediaTrack) => {
+      return track.language;
+    })
+    .filter((language: string, index: number, allLanguages: Array<string>) => {
+      return language !== undefined && allLanguages.indexOf(language) === index;
+    });
+
+  return languages.length > 0 ? languages.join('+') : undefined;
+}
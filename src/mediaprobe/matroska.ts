@@ -0,0 +1,284 @@
+import {MediaFileReader} from './mediafilereader';
+import {MediaInfo, MediaProbeError, MediaTrack, MediaTrackType, normalizeLanguage} from './mediainfo';
+
+// EBML element ids, see https://www.matroska.org/technical/elements.html
+const ebmlId = 0x1A45DFA3;
+const segmentId = 0x18538067;
+const seekHeadId = 0x114D9B74;
+const seekId = 0x4DBB;
+const seekIdId = 0x53AB;
+const seekPositionId = 0x53AC;
+const infoId = 0x1549A966;
+const timestampScaleId = 0x2AD7B1;
+const durationId = 0x4489;
+const tracksId = 0x1654AE6B;
+const trackEntryId = 0xAE;
+const trackTypeId = 0x83;
+const codecIdId = 0x86;
+const languageId = 0x22B59C;
+const languageIetfId = 0x22B59D;
+const videoId = 0xE0;
+const pixelWidthId = 0xB0;
+const pixelHeightId = 0xBA;
+const audioId = 0xE1;
+const channelsId = 0x9F;
+const clusterId = 0x1F43B675;
+
+const trackTypes: {[trackType: number]: MediaTrackType} = {1: 'video', 2: 'audio', 17: 'subtitle'};
+
+// the first matching prefix wins
+const codecNames: Array<[string, string]> = [
+  ['V_MPEG4/ISO/AVC', 'h264'],
+  ['V_MPEGH/ISO/HEVC', 'hevc'],
+  ['V_MPEG4/ISO/', 'mpeg4'],
+  ['V_MPEG2', 'mpeg2'],
+  ['V_AV1', 'av1'],
+  ['V_VP9', 'vp9'],
+  ['V_VP8', 'vp8'],
+  ['A_AAC', 'aac'],
+  ['A_AC3', 'ac3'],
+  ['A_EAC3', 'eac3'],
+  ['A_DTS', 'dts'],
+  ['A_TRUEHD', 'truehd'],
+  ['A_MPEG/L3', 'mp3'],
+  ['A_MPEG/L2', 'mp2'],
+  ['A_OPUS', 'opus'],
+  ['A_VORBIS', 'vorbis'],
+  ['A_FLAC', 'flac'],
+  ['A_PCM', 'pcm'],
+  ['S_TEXT/UTF8', 'srt'],
+  ['S_TEXT/ASS', 'ass'],
+  ['S_TEXT/SSA', 'ass'],
+  ['S_TEXT/WEBVTT', 'webvtt'],
+  ['S_HDMV/PGS', 'pgs'],
+  ['S_VOBSUB', 'vobsub'],
+];
+
+// Info, Tracks and SeekHead are small, anything larger is a broken file
+const maximumHeaderElementSize = 16 * 1024 * 1024;
+
+type EbmlElement = {
+  id: number,
+  dataStart: number,
+  // undefined for elements of unknown size, like segments that are still being written
+  size: number,
+};
+
+/**
+ * Reads the Info and Tracks elements of a Matroska (.mkv, .webm) file. They are usually in
+ * front of the first cluster, otherwise the SeekHead says where they are.
+ */
+export async function probeMatroska(reader: MediaFileReader): Promise<MediaInfo> {
+  const header = await readElementHeader(reader, 0);
+  if (header === undefined || header.id !== ebmlId) {
+    throw new MediaProbeError('no EBML header');
+  }
+
+  const segment = await readElementHeader(reader, header.dataStart + header.size);
+  if (segment === undefined || segment.id !== segmentId) {
+    throw new MediaProbeError('no segment after the EBML header');
+  }
+
+  const segmentEnd = segment.size !== undefined ? segment.dataStart + segment.size : reader.size;
+  let truncated = segmentEnd > reader.size;
+
+  const elements = new Map<number, Buffer>();
+  const seekPositions = new Map<number, number>();
+  const readHeaderElement = async (element: EbmlElement): Promise<void> => {
+    if (element.size > maximumHeaderElementSize) {
+      throw new MediaProbeError(`element ${element.id.toString(16)} is too large`);
+    }
+
+    const data = await reader.read(element.dataStart, element.size);
+    truncated = truncated || data.length < element.size;
+    elements.set(element.id, data);
+    if (element.id === seekHeadId) {
+      for (const seek of readChildren(data, seekId)) {
+        const seekChildren = readChildMap(seek);
+        if (seekChildren.has(seekIdId) && seekChildren.has(seekPositionId)) {
+          seekPositions.set(readUnsigned(seekChildren.get(seekIdId)), readUnsigned(seekChildren.get(seekPositionId)));
+        }
+      }
+    }
+  };
+
+  let position = segment.dataStart;
+  while (position < Math.min(segmentEnd, reader.size) && !(elements.has(infoId) && elements.has(tracksId))) {
+    const element = await readElementHeader(reader, position);
+    // the media data starts, everything else is found through the seek head
+    if (element === undefined || element.id === clusterId || element.size === undefined) {
+      break;
+    }
+
+    if ([seekHeadId, infoId, tracksId].includes(element.id) && !elements.has(element.id)) {
+      await readHeaderElement(element);
+    }
+    position = element.dataStart + element.size;
+  }
+
+  for (const id of [infoId, tracksId]) {
+    if (!elements.has(id) && seekPositions.has(id)) {
+      const element = await readElementHeader(reader, segment.dataStart + seekPositions.get(id));
+      if (element !== undefined && element.id === id && element.size !== undefined) {
+        await readHeaderElement(element);
+      }
+    }
+  }
+
+  return {
+    container: 'matroska',
+    duration: elements.has(infoId) ? readDuration(elements.get(infoId)) : undefined,
+    tracks: elements.has(tracksId) ? readTracks(elements.get(tracksId)) : [],
+    truncated: truncated,
+  };
+}
+
+// in seconds. Durations are stored in units of the timestamp scale, which defaults to a millisecond
+function readDuration(info: Buffer): number {
+  const infoChildren = readChildMap(info);
+  if (!infoChildren.has(durationId)) {
+    return undefined;
+  }
+
+  const timestampScale = infoChildren.has(timestampScaleId) ? readUnsigned(infoChildren.get(timestampScaleId)) : 1000000;
+  const duration = infoChildren.get(durationId);
+  const scaledDuration = duration.length === 4 ? duration.readFloatBE(0) : duration.readDoubleBE(0);
+
+  return scaledDuration * timestampScale / 1000000000;
+}
+
+function readTracks(tracks: Buffer): Array<MediaTrack> {
+  return readChildren(tracks, trackEntryId)
+    .map((trackEntry: Buffer): MediaTrack => {
+      const trackChildren = readChildMap(trackEntry);
+      const trackType = trackTypes[trackChildren.has(trackTypeId) ? readUnsigned(trackChildren.get(trackTypeId)) : 0];
+      if (trackType === undefined) {
+        return undefined;
+      }
+
+      const codecId = trackChildren.has(codecIdId) ? readString(trackChildren.get(codecIdId)) : '';
+      const codecName = codecNames.find(([prefix]: [string, string]) => {
+        return codecId.startsWith(prefix);
+      });
+
+      // english is the default of the specification, the IETF tag wins over the old one
+      const language = trackChildren.has(languageIetfId)
+        ? readString(trackChildren.get(languageIetfId))
+        : trackChildren.has(languageId) ? readString(trackChildren.get(languageId)) : 'eng';
+
+      const track: MediaTrack = {
+        type: trackType,
+        codec: codecName !== undefined ? codecName[1] : codecId.toLowerCase(),
+        language: normalizeLanguage(language),
+      };
+
+      if (trackType === 'video' && trackChildren.has(videoId)) {
+        const videoChildren = readChildMap(trackChildren.get(videoId));
+        track.width = videoChildren.has(pixelWidthId) ? readUnsigned(videoChildren.get(pixelWidthId)) : undefined;
+        track.height = videoChildren.has(pixelHeightId) ? readUnsigned(videoChildren.get(pixelHeightId)) : undefined;
+      }
+
+      if (trackType === 'audio') {
+        const audioChildren = trackChildren.has(audioId) ? readChildMap(trackChildren.get(audioId)) : new Map<number, Buffer>();
+        track.channels = audioChildren.has(channelsId) ? readUnsigned(audioChildren.get(channelsId)) : 1;
+      }
+
+      return track;
+    })
+    .filter((track: MediaTrack) => {
+      return track !== undefined;
+    });
+}
+
+async function readElementHeader(reader: MediaFileReader, position: number): Promise<EbmlElement> {
+  // the longest id has 4 bytes, the longest size 8
+  const buffer = await reader.read(position, 12);
+  const id = readVariableInteger(buffer, 0, true);
+  if (id === undefined) {
+    return undefined;
+  }
+
+  const size = readVariableInteger(buffer, id.length, false);
+  if (size === undefined) {
+    return undefined;
+  }
+
+  return {id: id.value, dataStart: position + id.length + size.length, size: size.value};
+}
+
+// the children with the given id of an element that was read completely
+function readChildren(data: Buffer, childId: number): Array<Buffer> {
+  const children: Array<Buffer> = [];
+  let position = 0;
+  while (position < data.length) {
+    const id = readVariableInteger(data, position, true);
+    const size = id !== undefined ? readVariableInteger(data, position + id.length, false) : undefined;
+    if (size === undefined || size.value === undefined) {
+      break;
+    }
+
+    const dataStart = position + id.length + size.length;
+    if (id.value === childId) {
+      children.push(data.slice(dataStart, dataStart + size.value));
+    }
+    position = dataStart + size.value;
+  }
+
+  return children;
+}
+
+// the first child per id
+function readChildMap(data: Buffer): Map<number, Buffer> {
+  const children = new Map<number, Buffer>();
+  let position = 0;
+  while (position < data.length) {
+    const id = readVariableInteger(data, position, true);
+    const size = id !== undefined ? readVariableInteger(data, position + id.length, false) : undefined;
+    if (size === undefined || size.value === undefined) {
+      break;
+    }
+
+    const dataStart = position + id.length + size.length;
+    if (!children.has(id.value)) {
+      children.set(id.value, data.slice(dataStart, dataStart + size.value));
+    }
+    position = dataStart + size.value;
+  }
+
+  return children;
+}
+
+/**
+ * The number of leading zero bits of the first byte tells the length. Ids keep that marker bit,
+ * sizes don't. A size with all bits set is unknown, its value is undefined then.
+ */
+function readVariableInteger(buffer: Buffer, offset: number, keepMarker: boolean): {value: number, length: number} {
+  if (offset >= buffer.length || buffer[offset] === 0) {
+    return undefined;
+  }
+
+  const length = 9 - buffer[offset].toString(2).length;
+  if (offset + length > buffer.length || (keepMarker && length > 4)) {
+    return undefined;
+  }
+
+  let value = keepMarker ? buffer[offset] : buffer[offset] & (0xFF >> length);
+  let allBitsSet = value === 0xFF >> length;
+  for (let index = 1; index < length; index++) {
+    value = value * 256 + buffer[offset + index];
+    allBitsSet = allBitsSet && buffer[offset + index] === 0xFF;
+  }
+
+  return {value: !keepMarker && allBitsSet ? undefined : value, length: length};
+}
+
+function readUnsigned(data: Buffer): number {
+  return data.reduce((value: number, byte: number) => {
+    return value * 256 + byte;
+  }, 0);
+}
+
+// strings are padded with zeros
+function readString(data: Buffer): string {
+  return data.toString('utf8').replace(/\0+$/, '');
+}
@@ -0,0 +1,45 @@
+import {promises as fsPromises} from 'fs';
+
+/**
+ * Random access to a file, so that only the headers of large videos are read.
+ */
+export class MediaFileReader {
+
+  public readonly size: number;
+
+  private fileHandle: fsPromises.FileHandle;
+
+  private constructor(fileHandle: fsPromises.FileHandle, size: number) {
+    this.fileHandle = fileHandle;
+    this.size = size;
+  }
+
+  public static async open(filePath: string): Promise<MediaFileReader> {
+    const fileHandle = await fsPromises.open(filePath, 'r');
+    try {
+      const fileStats = await fileHandle.stat();
+      return new MediaFileReader(fileHandle, fileStats.size);
+    } catch (error) {
+      await fileHandle.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Shorter than the requested length at the end of the file.
+   */
+  public async read(position: number, length: number): Promise<Buffer> {
+    const readableLength = Math.max(0, Math.min(length, this.size - position));
+    const buffer = Buffer.alloc(readableLength);
+    if (readableLength === 0) {
+      return buffer;
+    }
+
+    const {bytesRead} = await this.fileHandle.read(buffer, 0, readableLength, position);
+    return buffer.slice(0, bytesRead);
+  }
+
+  public async close(): Promise<void> {
+    await this.fileHandle.close();
+  }
+}
@@ -0,0 +1,56 @@
+export type MediaContainer = 'matroska' | 'mp4' | 'avi';
+
+export type MediaTrackType = 'video' | 'audio' | 'subtitle';
+
+export type MediaTrack = {
+  type: MediaTrackType,
+  // e.g. 'h264', 'aac' or 'srt'. The lowercased id of the container for unknown codecs
+  codec: string,
+  // ISO 639-1 where known, e.g. 'de'. Undefined if the container doesn't say
+  language: string,
+  // video tracks only
+  width?: number,
+  height?: number,
+  // audio tracks only
+  channels?: number,
+};
+
+/**
+ * What the headers of a video file say about its content.
+ */
+export type MediaInfo = {
+  container: MediaContainer,
+  // in seconds, undefined if the container doesn't say
+  duration: number,
+  tracks: Array<MediaTrack>,
+  // the file ends before its container does, e.g. after an aborted download
+  truncated: boolean,
+};
+
+/**
+ * The content of a container could not be read, although its format is known.
+ */
+export class MediaProbeError extends Error {}
+
+// ISO 639-2 (bibliographic and terminologic) to ISO 639-1, for the languages that are common in release names
+const languageCodes: {[code: string]: string} = {
+  ara: 'ar', chi: 'zh', zho: 'zh', cze: 'cs', ces: 'cs', dan: 'da', dut: 'nl', nld: 'nl', eng: 'en', fin: 'fi',
+  fre: 'fr', fra: 'fr', ger: 'de', deu: 'de', gre: 'el', ell: 'el', heb: 'he', hin: 'hi', hun: 'hu', ita: 'it',
+  jpn: 'ja', kor: 'ko', nor: 'no', pol: 'pl', por: 'pt', rus: 'ru', spa: 'es', swe: 'sv', tur: 'tr', ukr: 'uk',
+};
+
+/**
+ * 'ger', 'deu' and 'de-DE' are all 'de'. Undefined for 'und' (undetermined) and empty codes.
+ */
+export function normalizeLanguage(code: string): string {
+  if (code === undefined) {
+    return undefined;
+  }
+
+  const primaryCode = code.trim().toLowerCase().split(/[-_]/)[0];
+  if (primaryCode.length === 0 || primaryCode === 'und') {
+    return undefined;
+  }
+
+  return languageCodes[primaryCode] || primaryCode;
+}
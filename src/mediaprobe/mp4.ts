@@ -0,0 +1,211 @@
+import {MediaFileReader} from './mediafilereader';
+import {MediaInfo, MediaProbeError, MediaTrack, MediaTrackType, normalizeLanguage} from './mediainfo';
+
+const trackTypes: {[handlerType: string]: MediaTrackType} = {
+  vide: 'video',
+  soun: 'audio',
+  sbtl: 'subtitle',
+  subt: 'subtitle',
+  text: 'subtitle',
+};
+
+const codecNames: {[fourcc: string]: string} = {
+  'avc1': 'h264',
+  'avc3': 'h264',
+  'hvc1': 'hevc',
+  'hev1': 'hevc',
+  'av01': 'av1',
+  'vp09': 'vp9',
+  'mp4v': 'mpeg4',
+  'mp4a': 'aac',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+  'dtsc': 'dts',
+  'Opus': 'opus',
+  'fLaC': 'flac',
+  '.mp3': 'mp3',
+  'tx3g': 'mov_text',
+  'wvtt': 'webvtt',
+  'stpp': 'ttml',
+};
+
+// the movie box holds the sample tables of all tracks, long videos have large ones
+const maximumMovieBoxSize = 64 * 1024 * 1024;
+
+type Box = {
+  type: string,
+  // including the header
+  start: number,
+  end: number,
+  dataStart: number,
+};
+
+/**
+ * Reads the movie box of an MP4 (.mp4, .m4v, .mov) file. Downloads that were aborted
+ * end inside a box, or lack the movie box if it belongs at the end of the file.
+ */
+export async function probeMp4(reader: MediaFileReader): Promise<MediaInfo> {
+  let truncated = false;
+  let movieBox: Box;
+  let position = 0;
+  while (position < reader.size) {
+    const box = readBoxHeader(await reader.read(position, 16), 0, position, reader.size);
+    if (box === undefined) {
+      truncated = true;
+      break;
+    }
+
+    if (position === 0 && !['ftyp', 'moov', 'mdat', 'free', 'wide', 'skip'].includes(box.type)) {
+      throw new MediaProbeError(`unexpected first box ${box.type}`);
+    }
+
+    truncated = truncated || box.end > reader.size;
+    if (box.type === 'moov' && movieBox === undefined) {
+      movieBox = box;
+    }
+    position = box.end;
+  }
+
+  if (movieBox === undefined) {
+    return {container: 'mp4', duration: undefined, tracks: [], truncated: true};
+  }
+
+  if (movieBox.end - movieBox.dataStart > maximumMovieBoxSize) {
+    throw new MediaProbeError('the movie box is too large');
+  }
+
+  const movie = await reader.read(movieBox.dataStart, movieBox.end - movieBox.dataStart);
+  const movieHeader = findBox(movie, ['mvhd']);
+
+  return {
+    container: 'mp4',
+    duration: movieHeader !== undefined ? readDuration(movieHeader) : undefined,
+    tracks: findBoxes(movie, 'trak')
+      .map(readTrack)
+      .filter((track: MediaTrack) => {
+        return track !== undefined;
+      }),
+    truncated: truncated,
+  };
+}
+
+// in seconds, from a movie header or a media header
+function readDuration(header: Buffer): number {
+  const version = header[0];
+  const timescale = version === 1 ? header.readUInt32BE(20) : header.readUInt32BE(12);
+  const duration = version === 1
+    ? header.readUInt32BE(24) * 0x100000000 + header.readUInt32BE(28)
+    : header.readUInt32BE(16);
+
+  return timescale > 0 ? duration / timescale : undefined;
+}
+
+function readTrack(trackBox: Buffer): MediaTrack {
+  const handler = findBox(trackBox, ['mdia', 'hdlr']);
+  const trackType = handler !== undefined ? trackTypes[handler.toString('latin1', 8, 12)] : undefined;
+  if (trackType === undefined) {
+    return undefined;
+  }
+
+  const mediaHeader = findBox(trackBox, ['mdia', 'mdhd']);
+  const sampleDescription = findBox(trackBox, ['mdia', 'minf', 'stbl', 'stsd']);
+  // version and flags, the entry count, then the size and format of the first entry
+  const sampleEntry = sampleDescription !== undefined && sampleDescription.length >= 16 ? sampleDescription.slice(8) : undefined;
+  const fourcc = sampleEntry !== undefined ? sampleEntry.toString('latin1', 4, 8) : '';
+
+  const track: MediaTrack = {
+    type: trackType,
+    codec: codecNames[fourcc] || fourcc.trim().toLowerCase(),
+    language: mediaHeader !== undefined ? readLanguage(mediaHeader) : undefined,
+  };
+
+  // the track header has the display size, the sample entry the coded size
+  const trackHeader = findBox(trackBox, ['tkhd']);
+  if (trackType === 'video' && trackHeader !== undefined && trackHeader.length >= 8) {
+    track.width = trackHeader.readUInt32BE(trackHeader.length - 8) >>> 16;
+    track.height = trackHeader.readUInt32BE(trackHeader.length - 4) >>> 16;
+  }
+  if (trackType === 'video' && !track.width && sampleEntry !== undefined && sampleEntry.length >= 36) {
+    track.width = sampleEntry.readUInt16BE(32);
+    track.height = sampleEntry.readUInt16BE(34);
+  }
+
+  if (trackType === 'audio' && sampleEntry !== undefined && sampleEntry.length >= 26) {
+    track.channels = sampleEntry.readUInt16BE(24);
+  }
+
+  return track;
+}
+
+// three letters of five bits each, offset by 0x60. 'und' is undetermined
+function readLanguage(mediaHeader: Buffer): string {
+  const offset = mediaHeader[0] === 1 ? 32 : 20;
+  if (mediaHeader.length < offset + 2) {
+    return undefined;
+  }
+
+  const packedLanguage = mediaHeader.readUInt16BE(offset);
+  const language = [10, 5, 0]
+    .map((shift: number) => {
+      return String.fromCharCode(((packedLanguage >> shift) & 0x1F) + 0x60);
+    })
+    .join('');
+
+  return /^[a-z]{3}$/.test(language) ? normalizeLanguage(language) : undefined;
+}
+
+// the data of the box at the end of the path, e.g. ['mdia', 'hdlr']
+function findBox(data: Buffer, boxPath: Array<string>): Buffer {
+  const [type, ...childPath] = boxPath;
+  const box = findBoxes(data, type)[0];
+  if (box === undefined || childPath.length === 0) {
+    return box;
+  }
+
+  return findBox(box, childPath);
+}
+
+function findBoxes(data: Buffer, type: string): Array<Buffer> {
+  const boxes: Array<Buffer> = [];
+  let position = 0;
+  while (position + 8 <= data.length) {
+    const box = readBoxHeader(data, position, position, data.length);
+    if (box === undefined || box.end > data.length) {
+      break;
+    }
+
+    if (box.type === type) {
+      boxes.push(data.slice(box.dataStart, box.end));
+    }
+    position = box.end;
+  }
+
+  return boxes;
+}
+
+/**
+ * A size of 1 means a 64 bit size follows the type, a size of 0 that the box extends to the end.
+ * @param position where the header is in the file, offset is where it is in the buffer
+ */
+function readBoxHeader(buffer: Buffer, offset: number, position: number, end: number): Box {
+  if (buffer.length < offset + 8) {
+    return undefined;
+  }
+
+  const size = buffer.readUInt32BE(offset);
+  const type = buffer.toString('latin1', offset + 4, offset + 8);
+  if (size === 1) {
+    if (buffer.length < offset + 16) {
+      return undefined;
+    }
+
+    const largeSize = buffer.readUInt32BE(offset + 8) * 0x100000000 + buffer.readUInt32BE(offset + 12);
+    return largeSize >= 16 ? {type: type, start: position, end: position + largeSize, dataStart: position + 16} : undefined;
+  }
+
+  if (size === 0) {
+    return {type: type, start: position, end: end, dataStart: position + 8};
+  }
+
+  return size >= 8 ? {type: type, start: position, end: position + size, dataStart: position + 8} : undefined;
+}
@@ -0,0 +1,208 @@
+import path from 'path';
+import {defaultSettings} from './config';
+import {ParsedMovieName, parseMovieName} from './filenameparser';
+import {
+  FilenameTemplate,
+  NamingScheme,
+  TemplateValues,
+  filesystemReplacements,
+  mediaTemplateTokens,
+} from './filenametemplate';
+import {getFileNames} from './fsutils';
+import {holdsJournal} from './journal';
+import {MediaProber, getMediaTemplateValues} from './mediaprobe';
+import {PlannedRename, RenamePlan} from './renameplan';
+import {CompanionFile, Movie} from './types';
+
+export type MovieNamerOptions = {
+  // the file template, e.g. '{title}< ({year})>< - part{part}>{ext}'
+  namingScheme?: NamingScheme,
+  // e.g. '{title}< ({year})>', the movie folder is renamed to it
+  movieFolder?: string,
+  videoFileExtensions?: Array<string>,
+  companionFileExtensions?: Array<string>,
+  // only used if the template uses media tokens
+  mediaProber?: MediaProber,
+};
+
+export type MovieVideo = {
+  path: string,
+  // e.g. 2 for `Movie.cd2.avi`, undefined for movies in one file
+  part: number,
+  // subtitles, nfos and thumbnails named like the video, e.g. `Movie.cd1.en.srt`
+  companions: Array<CompanionFile>,
+};
+
+/**
+ * A folder with one movie, possibly split into several parts. Title, year and edition
+ * are what the names of the folder and its videos say, they are the search for the movie.
+ */
+export type MovieFolder = {
+  directory: string,
+  title: string,
+  year: number,
+  edition: string,
+  videos: Array<MovieVideo>,
+};
+
+/**
+ * Generates the standardized names of a movie folder and the videos inside it.
+ */
+export class MovieNamer {
+
+  private filenameTemplate: FilenameTemplate;
+  private folderTemplate: FilenameTemplate;
+  private videoFileExtensions: Array<string>;
+  private companionFileExtensions: Array<string>;
+  private mediaProber: MediaProber;
+
+  constructor(options: MovieNamerOptions = {}) {
+    this.filenameTemplate = options.namingScheme !== undefined
+      ? FilenameTemplate.fromNamingScheme(options.namingScheme)
+      : new FilenameTemplate(defaultSettings.movieTemplate, filesystemReplacements);
+    this.folderTemplate = new FilenameTemplate(options.movieFolder || defaultSettings.movieFolder, filesystemReplacements);
+    this.videoFileExtensions = options.videoFileExtensions || defaultSettings.videoFileExtensions;
+    this.companionFileExtensions = options.companionFileExtensions || defaultSettings.companionFileExtensions;
+
+    const usesMediaTokens = this.filenameTemplate.tokens.some((token: string) => {
+      return mediaTemplateTokens.includes(token);
+    });
+    this.mediaProber = usesMediaTokens ? options.mediaProber || new MediaProber() : undefined;
+  }
+
+  /**
+   * Reads the videos directly inside the folder, with their parts and companions.
+   * Title and year come from the folder name, or from the name of a video if the folder has no year.
+   */
+  public async readMovieFolder(directory: string): Promise<MovieFolder> {
+    const fileNames = await getFileNames(directory);
+    const videoFileNames = fileNames.filter((fileName: string) => {
+      return this.videoFileExtensions.includes(path.extname(fileName).toLowerCase());
+    });
+    const companionFileNames = fileNames.filter((fileName: string) => {
+      return this.companionFileExtensions.includes(path.extname(fileName).toLowerCase());
+    });
+
+    const parsedVideoNames = videoFileNames.map((videoFileName: string) => {
+      return parseMovieName(path.basename(videoFileName, path.extname(videoFileName)));
+    });
+    const parsedFolderName = parseMovieName(path.basename(directory));
+    const parsedName = [parsedFolderName, ...parsedVideoNames].find((parsedMovieName: ParsedMovieName) => {
+      return parsedMovieName.title !== undefined && parsedMovieName.year !== undefined;
+    }) || parsedFolderName;
+
+    const editions = [parsedFolderName, ...parsedVideoNames]
+      .map((parsedMovieName: ParsedMovieName) => {
+        return parsedMovieName.edition;
+      })
+      .filter((edition: string) => {
+        return edition !== undefined;
+      });
+
+    return {
+      directory: directory,
+      title: parsedName.title,
+      year: parsedName.year,
+      edition: editions[0],
+      videos: videoFileNames.map((videoFileName: string, index: number): MovieVideo => {
+        return {
+          path: path.join(directory, videoFileName),
+          part: parsedVideoNames[index].part,
+          companions: this.findCompanions(directory, videoFileName, videoFileNames, companionFileNames),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Renames the videos and their companions to the template and then the folder to the folder template.
+   * Several videos must be parts with different numbers, otherwise they are conflicts.
+   * @param journalDirectory the folder keeps its name if it holds the journal
+   */
+  public async planRenames(movieFolder: MovieFolder, movie: Movie, journalDirectory?: string): Promise<RenamePlan> {
+    const isMultiPart = movieFolder.videos.length > 1;
+    const renames: Array<PlannedRename> = [];
+
+    for (const video of movieFolder.videos) {
+      const conflicts: Array<string> = [];
+      if (isMultiPart && video.part === undefined) {
+        conflicts.push(`the part of ${path.basename(video.path)} is unknown, name the parts like cd1 and cd2`);
+      }
+
+      const values: TemplateValues = {
+        ...this.getMovieValues(movie, movieFolder.edition),
+        part: isMultiPart ? video.part : undefined,
+        ext: path.extname(video.path),
+        ...getMediaTemplateValues(this.mediaProber !== undefined ? await this.mediaProber.probe(video.path) : undefined),
+      };
+      const updatedPath = path.join(movieFolder.directory, this.filenameTemplate.render(values));
+      renames.push({originalPath: video.path, updatedPath: updatedPath, conflicts: conflicts});
+
+      // companions keep everything after the name of their video
+      const updatedStem = updatedPath.substring(0, updatedPath.length - path.extname(updatedPath).length);
+      for (const companion of video.companions) {
+        renames.push({originalPath: companion.originalPath, updatedPath: `${updatedStem}${companion.suffix}`, conflicts: []});
+      }
+    }
+
+    // renamed last, after all files inside it
+    const folderName = this.folderTemplate.render(this.getMovieValues(movie, movieFolder.edition));
+    const updatedFolderPath = path.join(path.dirname(movieFolder.directory), folderName);
+    if (journalDirectory !== undefined && holdsJournal(movieFolder.directory, journalDirectory) && updatedFolderPath !== movieFolder.directory) {
+      renames.push({
+        originalPath: movieFolder.directory,
+        updatedPath: movieFolder.directory,
+        conflicts: [],
+        notices: [`not renamed to ${folderName}, the folder holds the journal. Rename it from its parent folder`],
+      });
+    } else {
+      renames.push({originalPath: movieFolder.directory, updatedPath: updatedFolderPath, conflicts: []});
+    }
+
+    return RenamePlan.fromRenames(path.dirname(movieFolder.directory), `movie ${movieFolder.directory}`, renames);
+  }
+
+  private getMovieValues(movie: Movie, edition: string): TemplateValues {
+    return {
+      title: movie.title,
+      year: getMovieYear(movie),
+      edition: edition,
+      imdb: movie.imdbId,
+      id: movie.id,
+    };
+  }
+
+  // the longest video name wins, for videos like `Movie.mkv` and `Movie.extended.mkv`
+  private findCompanions(directory: string, videoFileName: string, videoFileNames: Array<string>, companionFileNames: Array<string>): Array<CompanionFile> {
+    const getStem = (fileName: string): string => {
+      return path.basename(fileName, path.extname(fileName));
+    };
+    const startsWithStem = (companionFileName: string, stem: string): boolean => {
+      return companionFileName.startsWith(stem) && ['.', '-'].includes(companionFileName.charAt(stem.length));
+    };
+
+    const stem = getStem(videoFileName);
+    return companionFileNames
+      .filter((companionFileName: string) => {
+        return startsWithStem(companionFileName, stem) && !videoFileNames.some((otherVideoFileName: string) => {
+          const otherStem = getStem(otherVideoFileName);
+          return otherStem.length > stem.length && startsWithStem(companionFileName, otherStem);
+        });
+      })
+      .map((companionFileName: string): CompanionFile => {
+        const originalPath = path.join(directory, companionFileName);
+        return {originalPath: originalPath, updatedPath: originalPath, rename: false, suffix: companionFileName.substring(stem.length)};
+      });
+  }
+}
+
+// undefined if the release date is unknown
+export function getMovieYear(movie: Movie): number {
+  return movie.releaseDate ? parseInt(movie.releaseDate.substring(0, 4)) : undefined;
+}
+
+// e.g. 'The Matrix (1999)'
+export function formatMovie(movie: Movie): string {
+  const year = getMovieYear(movie);
+  return year !== undefined ? `${movie.title} (${year})` : movie.title;
+}
@@ -0,0 +1,212 @@
+import path from 'path';
+import {getAllFilesInFolder, readFolder} from './fsutils';
+import {PlannedRename, RenamePlan} from './renameplan';
+import {toolFileNames} from './reviewqueue';
+
+export type PatternRenameScope = 'folder' | 'subtree' | 'selection';
+
+// {n} counts the renamed entries of each folder, {n:00} pads the counter
+export const patternRenameTokens = ['n', 'name', 'ext', 'parent'];
+
+// $$, $& and $1 like String.replace, plus {token} and {token:00}
+const replacementPartRegex = /\$\$|\$&|\$(\d{1,2})|\$<([^>]*)>|\{(\w+)(?::(0+))?\}/g;
+
+/**
+ * The entries a pattern is applied to: the entries of the folder, all files below it or the selected entries.
+ */
+export async function getPatternRenameEntries(
+  directory: string,
+  scope: PatternRenameScope,
+  selectedPaths: Array<string> = [],
+): Promise<Array<string>> {
+  let entryPaths: Array<string>;
+  if (scope === 'selection') {
+    entryPaths = selectedPaths;
+  } else if (scope === 'subtree') {
+    entryPaths = await getAllFilesInFolder(directory);
+  } else {
+    entryPaths = (await readFolder(directory)).map((entryName: string) => {
+      return path.join(directory, entryName);
+    });
+  }
+
+  return entryPaths
+    .filter((entryPath: string) => {
+      return !toolFileNames.includes(path.basename(entryPath));
+    })
+    .sort((path1: string, path2: string) => {
+      return path1.localeCompare(path2, undefined, {numeric: true});
+    });
+}
+
+/**
+ * `/regex/flags` is a regular expression, everything else is replaced literally wherever it appears.
+ * An empty pattern matches the whole name.
+ */
+export function parseFindPattern(pattern: string): RegExp {
+  if (pattern.length === 0) {
+    return /^.*$/;
+  }
+
+  const regexMatch = pattern.match(/^\/(.*)\/([a-z]*)$/);
+  if (regexMatch === null) {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
+  }
+
+  try {
+    return new RegExp(regexMatch[1], regexMatch[2]);
+  } catch (error) {
+    throw new Error(`invalid regular expression ${pattern}: ${error.message}`);
+  }
+}
+
+/**
+ * Throws for tokens that don't exist, so that typos aren't written into the names.
+ */
+export function validateReplacement(replacement: string): void {
+  replacement.replace(replacementPartRegex, (part: string, groupNumber: string, groupName: string, token: string) => {
+    if (token !== undefined && !patternRenameTokens.includes(token)) {
+      const knownTokens = patternRenameTokens.map((knownToken: string) => {
+        return `{${knownToken}}`;
+      });
+      throw new Error(`unknown token {${token}}, use one of ${knownTokens.join(', ')}`);
+    }
+
+    return part;
+  });
+}
+
+/**
+ * The new names of all entries the pattern matches, with the names that can't be used at all.
+ * Fast enough to be recomputed on every key press.
+ */
+export function getPatternRenames(entryPaths: Array<string>, find: RegExp, replacement: string): Array<PlannedRename> {
+  const counters = new Map<string, number>();
+  return entryPaths
+    .filter((entryPath: string) => {
+      return matches(find, path.basename(entryPath));
+    })
+    .map((entryPath: string): PlannedRename => {
+      const directory = path.dirname(entryPath);
+      const counter = (counters.get(directory) || 0) + 1;
+      counters.set(directory, counter);
+
+      const updatedName = renderName(path.basename(entryPath), find, replacement, {
+        n: counter,
+        parent: path.basename(directory),
+      });
+      const conflicts = [];
+      if (updatedName.trim().length === 0 || updatedName === '.' || updatedName === '..') {
+        conflicts.push('the new name is empty');
+      } else if (updatedName.includes('/') || updatedName.includes(path.sep)) {
+        conflicts.push(`${updatedName} contains a path separator`);
+      }
+
+      return {
+        originalPath: entryPath,
+        updatedPath: conflicts.length === 0 ? path.join(directory, updatedName) : entryPath,
+        conflicts: conflicts,
+      };
+    });
+}
+
+/**
+ * Lists the names the pattern matches for the live preview, with the matches in brackets: 'Show.S01E01[-GRP].mkv'.
+ */
+export function formatPatternMatches(directory: string, entryPaths: Array<string>, find: RegExp, maximumLines: number): string {
+  const lines = getPatternRenames(entryPaths, find, '[$&]').map((rename: PlannedRename) => {
+    return `  ${path.join(path.relative(directory, path.dirname(rename.originalPath)), path.basename(rename.updatedPath))}`;
+  });
+
+  return limitLines(lines, maximumLines);
+}
+
+/**
+ * Lists the renames of the live preview, e.g. 'Show.S01E01-GRP.mkv > Show.S01E01.mkv'. Names that
+ * are unusable or taken by several entries are marked with '!', the plan reports all other conflicts.
+ */
+export function formatPatternRenames(directory: string, renames: Array<PlannedRename>, maximumLines: number): string {
+  const targetCounts = new Map<string, number>();
+  for (const rename of renames) {
+    targetCounts.set(rename.updatedPath, (targetCounts.get(rename.updatedPath) || 0) + 1);
+  }
+
+  const lines = renames.map((rename: PlannedRename) => {
+    const originalName = path.relative(directory, rename.originalPath);
+    if (rename.conflicts.length > 0) {
+      return `! ${originalName}: ${rename.conflicts.join(', ')}`;
+    }
+    if (targetCounts.get(rename.updatedPath) > 1) {
+      return `! ${originalName} > ${path.basename(rename.updatedPath)} (${targetCounts.get(rename.updatedPath)} entries get this name)`;
+    }
+
+    return rename.originalPath !== rename.updatedPath
+      ? `  ${originalName} > ${path.basename(rename.updatedPath)}`
+      : `  ${originalName} (unchanged)`;
+  });
+
+  return limitLines(lines, maximumLines);
+}
+
+/**
+ * A rename plan for all entries the pattern changes, checked against the filesystem like the plans of series.
+ */
+export async function planPatternRename(directory: string, entryPaths: Array<string>, find: RegExp, replacement: string): Promise<RenamePlan> {
+  // entries that keep their names are left out, they still count for conflicts as existing files
+  const renames = getPatternRenames(entryPaths, find, replacement).filter((rename: PlannedRename) => {
+    return rename.originalPath !== rename.updatedPath || rename.conflicts.length > 0;
+  });
+
+  return RenamePlan.fromRenames(directory, `pattern rename in ${directory}`, renames);
+}
+
+function limitLines(lines: Array<string>, maximumLines: number): string {
+  if (lines.length > maximumLines) {
+    return [...lines.slice(0, maximumLines - 1), `  ... and ${lines.length - maximumLines + 1} more`].join('\n');
+  }
+
+  return lines.join('\n');
+}
+
+function matches(find: RegExp, name: string): boolean {
+  // global expressions would continue where their last match ended
+  find.lastIndex = 0;
+  const isMatch = find.test(name);
+  find.lastIndex = 0;
+
+  return isMatch;
+}
+
+function renderName(name: string, find: RegExp, replacement: string, entryValues: {n: number, parent: string}): string {
+  const extension = path.extname(name);
+  const tokenValues: {[token: string]: string | number} = {
+    ...entryValues,
+    name: name.substring(0, name.length - extension.length),
+    ext: extension,
+  };
+
+  return name.replace(find, (...args: Array<unknown>) => {
+    // the replace callback receives the match, the groups, the offset, the whole name and possibly named groups
+    const namedGroups = typeof args[args.length - 1] === 'object' ? args.pop() as {[groupName: string]: string} : undefined;
+    // the match and the groups, groups that didn't take part in the match are undefined
+    const groups = args.slice(0, args.length - 2) as Array<string>;
+
+    return replacement.replace(replacementPartRegex, (part: string, groupNumber: string, groupName: string, token: string, format: string) => {
+      if (part === '$$') {
+        return '$';
+      }
+      if (part === '$&') {
+        return groups[0];
+      }
+      if (groupNumber !== undefined) {
+        return groups[parseInt(groupNumber)] || '';
+      }
+      if (groupName !== undefined) {
+        return namedGroups !== undefined ? namedGroups[groupName] || '' : '';
+      }
+
+      const value = String(tokenValues[token]);
+      return format !== undefined ? value.padStart(format.length, '0') : value;
+    });
+  });
+}
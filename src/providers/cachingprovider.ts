@@ -0,0 +1,168 @@
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import {Movie, Series, SeriesLanguage} from '../types';
+import {MetadataProvider, MetadataProviderName} from './metadataprovider';
+
+export type MetadataCacheOptions = {
+  cacheDirectory: string,
+  // entries older than this are fetched again, as long as we are online
+  ttlHours: number,
+  // only answer from the cache, never ask the provider
+  offline?: boolean,
+  // ignore all cached entries and fetch everything again (they are still written to the cache)
+  refresh?: boolean,
+}
+
+type CacheEntry<T> = {
+  key: string,
+  timestamp: number,
+  value: T,
+}
+
+export class OfflineCacheMissError extends Error {}
+
+/**
+ * Keeps languages, search results and episode lists of another provider on disk,
+ * so that the same series isn't fetched again on every step of the flow.
+ * Expired entries are still used when the provider can't be reached.
+ * The provider is only created on the first cache miss, so that offline mode works without api keys.
+ */
+export class CachingProvider implements MetadataProvider {
+
+  public readonly name: MetadataProviderName;
+
+  private provider: MetadataProvider;
+  private createProvider: () => MetadataProvider;
+  private options: MetadataCacheOptions;
+  private providerDirectory: string;
+  // avoids reading the same cache file again while the tool is running
+  private memoryCache: Map<string, CacheEntry<unknown>> = new Map();
+
+  constructor(providerName: MetadataProviderName, createProvider: () => MetadataProvider, options: MetadataCacheOptions) {
+    this.name = providerName;
+    this.createProvider = createProvider;
+    this.options = options;
+    this.providerDirectory = path.join(options.cacheDirectory, providerName);
+  }
+
+  public async getLanguages(): Promise<Array<SeriesLanguage>> {
+    return this.getCached('languages', 'languages', () => {
+      return this.getProvider().getLanguages();
+    });
+  }
+
+  public async searchSeries(seriesName: string, language: string): Promise<Array<Series>> {
+    const normalizedName = seriesName.trim().toLowerCase();
+    return this.getCached(`search-${language}-${normalizedName}`, `search for '${seriesName}'`, () => {
+      return this.getProvider().searchSeries(seriesName, language);
+    });
+  }
+
+  public async getSeriesWithEpisodes(seriesId: number, language: string): Promise<Series> {
+    return this.getCached(this.getSeriesKey(seriesId, language), `series ${seriesId}`, () => {
+      return this.getProvider().getSeriesWithEpisodes(seriesId, language);
+    });
+  }
+
+  public async searchMovies(title: string, year: number, language: string): Promise<Array<Movie>> {
+    const normalizedTitle = title.trim().toLowerCase();
+    return this.getCached(`movies-${language}-${year}-${normalizedTitle}`, `movie search for '${title}'`, () => {
+      return this.getProvider().searchMovies(title, year, language);
+    });
+  }
+
+  /**
+   * Fetches the series again, regardless of the age of the cached entry.
+   */
+  public async refreshSeries(seriesId: number, language: string): Promise<Series> {
+    const key = this.getSeriesKey(seriesId, language);
+    if (this.options.offline) {
+      throw new OfflineCacheMissError(`can't refresh series ${seriesId} in offline mode`);
+    }
+
+    return this.fetch(key, () => {
+      return this.getProvider().getSeriesWithEpisodes(seriesId, language);
+    });
+  }
+
+  private async getCached<T>(key: string, description: string, load: () => Promise<T>): Promise<T> {
+    // on refresh, only what was fetched during this run counts
+    const entry: CacheEntry<T> = this.options.refresh ? this.memoryCache.get(key) as CacheEntry<T> : await this.readEntry<T>(key);
+    if (this.options.offline) {
+      if (entry === undefined) {
+        throw new OfflineCacheMissError(`${description} is not cached, can't fetch it in offline mode`);
+      }
+
+      return entry.value;
+    }
+
+    if (entry !== undefined && Date.now() - entry.timestamp < this.options.ttlHours * 60 * 60 * 1000) {
+      return entry.value;
+    }
+
+    try {
+      return await this.fetch(key, load);
+    } catch (error) {
+      // better outdated metadata than none
+      if (entry !== undefined) {
+        return entry.value;
+      }
+
+      throw error;
+    }
+  }
+
+  private async fetch<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry: CacheEntry<T> = {key: key, timestamp: Date.now(), value: await load()};
+    this.memoryCache.set(key, entry);
+    try {
+      await fsPromises.mkdir(this.providerDirectory, {recursive: true});
+      await fsPromises.writeFile(this.getCacheFile(key), JSON.stringify(entry));
+    } catch {
+      // without a writable cache everything is fetched every time, which still works
+    }
+
+    return entry.value;
+  }
+
+  private async readEntry<T>(key: string): Promise<CacheEntry<T>> {
+    // the key determines the type of the value, every key is only used by one of the getters
+    if (this.memoryCache.has(key)) {
+      return this.memoryCache.get(key) as CacheEntry<T>;
+    }
+
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await fsPromises.readFile(this.getCacheFile(key), 'utf8'));
+    } catch {
+      return undefined;
+    }
+
+    // guards against hash collisions and files of older versions
+    if (entry === null || entry.key !== key || typeof entry.timestamp !== 'number') {
+      return undefined;
+    }
+
+    this.memoryCache.set(key, entry);
+    return entry;
+  }
+
+  private getProvider(): MetadataProvider {
+    if (this.provider === undefined) {
+      this.provider = this.createProvider();
+    }
+
+    return this.provider;
+  }
+
+  private getSeriesKey(seriesId: number, language: string): string {
+    return `series-${seriesId}-${language}`;
+  }
+
+  // search terms can contain anything, so file names are hashed
+  private getCacheFile(key: string): string {
+    const hash = crypto.createHash('sha1').update(key).digest('hex').substring(0, 16);
+    return path.join(this.providerDirectory, `${key.split('-')[0]}-${hash}.json`);
+  }
+}
@@ -0,0 +1,45 @@
+import {CachingProvider, MetadataCacheOptions} from './cachingprovider';
+import {LocalProvider} from './localprovider';
+import {MetadataProvider, MetadataProviderName} from './metadataprovider';
+import {TmdbProvider} from './tmdbprovider';
+import {TvdbProvider} from './tvdbprovider';
+
+export {CachingProvider, MetadataCacheOptions, OfflineCacheMissError} from './cachingprovider';
+export {MetadataProvider, MetadataProviderName} from './metadataprovider';
+
+export type MetadataProviderOptions = {
+  provider?: MetadataProviderName,
+  // only used by the local provider
+  metadataFile?: string,
+  // the environment variables TVDB_API_KEY and TMDB_API_KEY take precedence
+  tvdbApiKey?: string,
+  tmdbApiKey?: string,
+  // caches the online providers on disk. The local provider is never cached
+  cache?: MetadataCacheOptions,
+}
+
+export const metadataProviderNames: Array<MetadataProviderName> = ['tvdb', 'tmdb', 'local'];
+
+/**
+ * Creates the provider selected for this run.
+ */
+export function createMetadataProvider(options: MetadataProviderOptions = {}): MetadataProvider {
+  const providerName = options.provider || 'tvdb';
+
+  if (providerName === 'local') {
+    return new LocalProvider(options.metadataFile);
+  }
+
+  if (providerName !== 'tvdb' && providerName !== 'tmdb') {
+    throw new Error(`unknown metadata provider '${providerName}'. Use one of ${metadataProviderNames.join(', ')}`);
+  }
+
+  const createProvider = (): MetadataProvider => {
+    return providerName === 'tvdb'
+      ? new TvdbProvider(process.env.TVDB_API_KEY || options.tvdbApiKey)
+      : new TmdbProvider(process.env.TMDB_API_KEY || options.tmdbApiKey);
+  };
+
+  // the cache creates the provider when it needs it, offline it never does
+  return options.cache !== undefined ? new CachingProvider(providerName, createProvider, options.cache) : createProvider();
+}
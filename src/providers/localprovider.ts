@@ -0,0 +1,212 @@
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+import {getAllFilesInFolder} from '../fsutils';
+import {Episode, Movie, Series, SeriesLanguage} from '../types';
+import {MetadataProvider, MetadataProviderName} from './metadataprovider';
+
+// local metadata has no translations, so whatever language is requested, this one is used
+const localLanguage: SeriesLanguage = {
+  id: 0,
+  abbreviation: 'local',
+  name: 'local',
+  englishName: 'Local metadata',
+};
+
+type LocalMetadata = {
+  series: Array<Series>,
+  movies: Array<Movie>,
+};
+
+/**
+ * Reads metadata from a local file instead of an online service. Supported are
+ * - a JSON file with one `Series` (including its episodes) or an array of them.
+ *   Entries with a `title` instead of a `seriesName` are movies
+ * - a kodi `tvshow.nfo`. Its episodes are read from all `<episodedetails>` nfo
+ *   files in the same folder and its subfolders
+ * - a kodi `movie.nfo` with one `<movie>`
+ */
+export class LocalProvider implements MetadataProvider {
+
+  public readonly name: MetadataProviderName = 'local';
+
+  private metadataPath: string;
+  private metadata: Promise<LocalMetadata>;
+
+  constructor(metadataPath: string) {
+    if (!metadataPath) {
+      throw new Error('the local metadata provider needs a metadata file');
+    }
+
+    this.metadataPath = metadataPath;
+  }
+
+  public async getLanguages(): Promise<Array<SeriesLanguage>> {
+    return [localLanguage];
+  }
+
+  public async searchSeries(seriesName: string, language: string): Promise<Array<Series>> {
+    const searchTerm = seriesName.toLowerCase();
+    const allSeries = (await this.getMetadata()).series;
+
+    return allSeries.filter((series: Series) => {
+      const names = [series.seriesName, ...(series.aliases || [])];
+      return names.some((name: string) => {
+        return name.toLowerCase().includes(searchTerm) || searchTerm.includes(name.toLowerCase());
+      });
+    });
+  }
+
+  public async getSeriesWithEpisodes(seriesId: number, language: string): Promise<Series> {
+    const allSeries = (await this.getMetadata()).series;
+    const series = allSeries.find((localSeries: Series) => {
+      return localSeries.id === seriesId;
+    });
+
+    if (series === undefined) {
+      throw new Error(`series ${seriesId} not found in ${this.metadataPath}`);
+    }
+
+    return series;
+  }
+
+  public async searchMovies(title: string, year: number, language: string): Promise<Array<Movie>> {
+    const searchTerm = title.toLowerCase();
+    const movies = (await this.getMetadata()).movies;
+
+    return movies.filter((movie: Movie) => {
+      const titles = [movie.title, movie.originalTitle].filter((movieTitle: string) => {
+        return movieTitle !== undefined;
+      });
+      const titleMatches = titles.some((movieTitle: string) => {
+        return movieTitle.toLowerCase().includes(searchTerm) || searchTerm.includes(movieTitle.toLowerCase());
+      });
+
+      // release years differ by one between countries
+      const releaseYear = movie.releaseDate !== undefined ? parseInt(movie.releaseDate.substring(0, 4)) : undefined;
+      return titleMatches && (year === undefined || releaseYear === undefined || Math.abs(releaseYear - year) <= 1);
+    });
+  }
+
+  private getMetadata(): Promise<LocalMetadata> {
+    if (this.metadata === undefined) {
+      this.metadata = path.extname(this.metadataPath).toLowerCase() === '.nfo'
+        ? this.readNfoMetadata()
+        : this.readJsonMetadata();
+    }
+
+    return this.metadata;
+  }
+
+  private async readJsonMetadata(): Promise<LocalMetadata> {
+    const content = JSON.parse(await fsPromises.readFile(this.metadataPath, 'utf8'));
+    const entries: Array<Series & Movie> = Array.isArray(content) ? content : [content];
+    const metadata: LocalMetadata = {series: [], movies: []};
+
+    for (const entry of entries) {
+      if (typeof entry.id === 'number' && typeof entry.title === 'string' && entry.seriesName === undefined) {
+        metadata.movies.push(entry);
+        continue;
+      }
+
+      if (typeof entry.id !== 'number' || typeof entry.seriesName !== 'string' || !Array.isArray(entry.episodes)) {
+        throw new Error(`${this.metadataPath}: every series needs an id, a seriesName and episodes, every movie an id and a title`);
+      }
+
+      metadata.series.push(entry);
+    }
+
+    return metadata;
+  }
+
+  private async readNfoMetadata(): Promise<LocalMetadata> {
+    const nfoContent = await fsPromises.readFile(this.metadataPath, 'utf8');
+    if (/<movie>/.test(nfoContent)) {
+      return {series: [], movies: [this.nfoToMovie(nfoContent)]};
+    }
+
+    return {series: await this.readNfoSeries(nfoContent), movies: []};
+  }
+
+  private async readNfoSeries(tvShowNfo: string): Promise<Array<Series>> {
+    const seriesId = this.getNfoId(tvShowNfo, 'tvdbid');
+
+    const nfoFiles = (await getAllFilesInFolder(path.dirname(this.metadataPath)))
+      .filter((filePath: string) => {
+        return path.extname(filePath).toLowerCase() === '.nfo' && filePath !== this.metadataPath;
+      });
+
+    const episodes: Array<Episode> = [];
+    for (const nfoFile of nfoFiles) {
+      const nfoContent = await fsPromises.readFile(nfoFile, 'utf8');
+      // multi-episode files contain several episodedetails blocks
+      const episodeBlocks = nfoContent.match(/<episodedetails>[\s\S]*?<\/episodedetails>/g) || [];
+      for (const episodeBlock of episodeBlocks) {
+        episodes.push(this.nfoToEpisode(episodeBlock, seriesId, episodes.length + 1));
+      }
+    }
+
+    return [{
+      id: seriesId,
+      seriesName: this.getNfoTag(tvShowNfo, 'title'),
+      firstAired: this.getNfoTag(tvShowNfo, 'premiered'),
+      overview: this.getNfoTag(tvShowNfo, 'plot'),
+      status: this.getNfoTag(tvShowNfo, 'status'),
+      runtime: this.getNfoTag(tvShowNfo, 'runtime'),
+      aliases: [],
+      episodes: episodes,
+    }];
+  }
+
+  private nfoToMovie(movieNfo: string): Movie {
+    const year = this.getNfoTag(movieNfo, 'year');
+    return {
+      id: this.getNfoId(movieNfo, 'tmdbid'),
+      title: this.getNfoTag(movieNfo, 'title'),
+      originalTitle: this.getNfoTag(movieNfo, 'originaltitle'),
+      releaseDate: this.getNfoTag(movieNfo, 'premiered') || (year !== undefined ? `${year}-01-01` : undefined),
+      overview: this.getNfoTag(movieNfo, 'plot'),
+      imdbId: this.getNfoTag(movieNfo, 'imdbid'),
+    };
+  }
+
+  // the provider specific id if there is one, otherwise the generic ids of kodi
+  private getNfoId(nfoContent: string, providerTagName: string): number {
+    return parseInt(
+      this.getNfoTag(nfoContent, providerTagName) || this.getNfoTag(nfoContent, 'uniqueid') || this.getNfoTag(nfoContent, 'id') || '0'
+    );
+  }
+
+  private nfoToEpisode(episodeBlock: string, seriesId: number, fallbackId: number): Episode {
+    const optionalNumber = (tagName: string): number => {
+      const value = this.getNfoTag(episodeBlock, tagName);
+      return value !== undefined ? parseInt(value) : undefined;
+    };
+
+    return {
+      id: optionalNumber('uniqueid') || optionalNumber('id') || fallbackId,
+      airedSeason: optionalNumber('season'),
+      airedEpisodeNumber: optionalNumber('episode'),
+      episodeName: this.getNfoTag(episodeBlock, 'title'),
+      firstAired: this.getNfoTag(episodeBlock, 'aired'),
+      overview: this.getNfoTag(episodeBlock, 'plot'),
+      // kodi has no dvd order, displayseason and displayepisode only place specials among the episodes
+      absoluteNumber: optionalNumber('absolute_number'),
+      seriesId: seriesId,
+    };
+  }
+
+  private getNfoTag(nfoContent: string, tagName: string): string {
+    const match = nfoContent.match(new RegExp(`<${tagName}(?:\\s[^>]*)?>([\\s\\S]*?)</${tagName}>`));
+    if (match === null) {
+      return undefined;
+    }
+
+    return match[1]
+      .trim()
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, '\'')
+      .replace(/&amp;/g, '&');
+  }
+}
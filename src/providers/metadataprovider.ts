@@ -0,0 +1,30 @@
+import {Movie, Series, SeriesLanguage} from '../types';
+
+export type MetadataProviderName = 'tvdb' | 'tmdb' | 'local';
+
+/**
+ * A source for series and episode metadata. Everything is normalized to the
+ * tvdb-shaped `Series` and `Episode` types, regardless of where it comes from.
+ * Movies are normalized to the `Movie` type.
+ */
+export interface MetadataProvider {
+  readonly name: MetadataProviderName;
+
+  getLanguages(): Promise<Array<SeriesLanguage>>;
+
+  /**
+   * Resolves to an empty list if no series matches.
+   */
+  searchSeries(seriesName: string, language: string): Promise<Array<Series>>;
+
+  /**
+   * Resolves to the series including all of its episodes.
+   */
+  getSeriesWithEpisodes(seriesId: number, language: string): Promise<Series>;
+
+  /**
+   * Resolves to an empty list if no movie matches.
+   * @param year narrows the search, undefined if unknown
+   */
+  searchMovies(title: string, year: number, language: string): Promise<Array<Movie>>;
+}
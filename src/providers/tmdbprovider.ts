@@ -0,0 +1,178 @@
+import https from 'https';
+import {URLSearchParams} from 'url';
+import {Episode, Movie, Series, SeriesLanguage} from '../types';
+import {MetadataProvider, MetadataProviderName} from './metadataprovider';
+
+const tmdbApiUrl = 'https://api.themoviedb.org/3';
+
+type TmdbLanguage = {
+  iso_639_1: string,
+  english_name: string,
+  name: string,
+}
+
+type TmdbSeries = {
+  id: number,
+  name: string,
+  original_name: string,
+  first_air_date: string,
+  overview: string,
+  status?: string,
+  networks?: Array<{name: string}>,
+  episode_run_time?: Array<number>,
+  seasons?: Array<{season_number: number}>,
+}
+
+type TmdbMovie = {
+  id: number,
+  title: string,
+  original_title: string,
+  release_date: string,
+  overview: string,
+  imdb_id?: string,
+}
+
+type TmdbEpisode = {
+  id: number,
+  name: string,
+  overview: string,
+  air_date: string,
+  season_number: number,
+  episode_number: number,
+  production_code: string,
+}
+
+type TmdbSeason = {
+  episodes: Array<TmdbEpisode>,
+}
+
+type TmdbSearchResult<T> = {
+  results: Array<T>,
+}
+
+export class TmdbProvider implements MetadataProvider {
+
+  public readonly name: MetadataProviderName = 'tmdb';
+
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    if (!apiKey) {
+      throw new Error('tmdb api key is required');
+    }
+
+    this.apiKey = apiKey;
+  }
+
+  public async getLanguages(): Promise<Array<SeriesLanguage>> {
+    const languages = await this.request<Array<TmdbLanguage>>('/configuration/languages');
+    return languages.map((language: TmdbLanguage, index: number): SeriesLanguage => {
+      return {
+        id: index,
+        abbreviation: language.iso_639_1,
+        name: language.name || language.english_name,
+        englishName: language.english_name,
+      };
+    });
+  }
+
+  public async searchSeries(seriesName: string, language: string): Promise<Array<Series>> {
+    const result = await this.request<TmdbSearchResult<TmdbSeries>>('/search/tv', {query: seriesName, language: language});
+    return result.results.map((series: TmdbSeries) => {
+      return this.toSeries(series, []);
+    });
+  }
+
+  public async getSeriesWithEpisodes(seriesId: number, language: string): Promise<Series> {
+    const series = await this.request<TmdbSeries>(`/tv/${seriesId}`, {language: language});
+    const seasons = await Promise.all((series.seasons || []).map((season: {season_number: number}) => {
+      return this.request<TmdbSeason>(`/tv/${seriesId}/season/${season.season_number}`, {language: language});
+    }));
+
+    const tmdbEpisodes: Array<TmdbEpisode> = seasons
+      .map((season: TmdbSeason) => {
+        return season.episodes;
+      })
+      .flat();
+
+    // tmdb has no absolute numbering, so it is derived from the aired order. Specials don't get one
+    let absoluteNumber = 0;
+    const episodes = tmdbEpisodes.map((episode: TmdbEpisode): Episode => {
+      return {
+        id: episode.id,
+        airedSeason: episode.season_number,
+        airedEpisodeNumber: episode.episode_number,
+        episodeName: episode.name,
+        firstAired: episode.air_date,
+        overview: episode.overview,
+        productionCode: episode.production_code,
+        absoluteNumber: episode.season_number > 0 ? ++absoluteNumber : undefined,
+        seriesId: seriesId,
+      };
+    });
+
+    return this.toSeries(series, episodes);
+  }
+
+  public async searchMovies(title: string, year: number, language: string): Promise<Array<Movie>> {
+    const parameters: {[name: string]: string} = {query: title, language: language};
+    if (year !== undefined) {
+      parameters.year = `${year}`;
+    }
+
+    const result = await this.request<TmdbSearchResult<TmdbMovie>>('/search/movie', parameters);
+    return result.results.map((movie: TmdbMovie): Movie => {
+      return {
+        id: movie.id,
+        title: movie.title,
+        originalTitle: movie.original_title !== movie.title ? movie.original_title : undefined,
+        // tmdb answers with an empty string for unknown dates
+        releaseDate: movie.release_date || undefined,
+        overview: movie.overview,
+        imdbId: movie.imdb_id,
+      };
+    });
+  }
+
+  private toSeries(series: TmdbSeries, episodes: Array<Episode>): Series {
+    return {
+      id: series.id,
+      seriesName: series.name,
+      aliases: series.original_name !== series.name ? [series.original_name] : [],
+      firstAired: series.first_air_date,
+      overview: series.overview,
+      network: series.networks !== undefined && series.networks.length > 0 ? series.networks[0].name : undefined,
+      status: series.status,
+      runtime: series.episode_run_time !== undefined && series.episode_run_time.length > 0 ? `${series.episode_run_time[0]}` : undefined,
+      episodes: episodes,
+    };
+  }
+
+  // the type of the response is what tmdb documents for the endpoint, it isn't checked
+  private request<T>(apiPath: string, parameters: {[name: string]: string} = {}): Promise<T> {
+    const query = new URLSearchParams({...parameters, api_key: this.apiKey});
+    const url = `${tmdbApiUrl}${apiPath}?${query.toString()}`;
+
+    return new Promise<T>((resolve, reject) => {
+      https.get(url, (response) => {
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          body += chunk;
+        });
+        response.on('end', () => {
+          if (response.statusCode >= 400) {
+            reject(new Error(`tmdb request ${apiPath} failed with ${response.statusCode}`));
+            return;
+          }
+
+          try {
+            resolve(JSON.parse(body));
+          } catch (error) {
+            reject(error);
+          }
+        });
+      }).on('error', reject);
+    });
+  }
+}
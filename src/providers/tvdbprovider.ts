@@ -0,0 +1,41 @@
+import TVDB from 'node-tvdb';
+import {Movie, Series, SeriesLanguage} from '../types';
+import {MetadataProvider, MetadataProviderName} from './metadataprovider';
+
+export class TvdbProvider implements MetadataProvider {
+
+  public readonly name: MetadataProviderName = 'tvdb';
+
+  private tvdb: TVDB;
+
+  constructor(apiKey: string) {
+    this.tvdb = new TVDB(apiKey);
+  }
+
+  public async getLanguages(): Promise<Array<SeriesLanguage>> {
+    return this.tvdb.getLanguages();
+  }
+
+  public async searchSeries(seriesName: string, language: string): Promise<Array<Series>> {
+    try {
+      const result: Array<Series> = await this.tvdb.getSeriesByName(seriesName, {lang: language});
+      return result;
+    } catch (error) {
+      // the tvdb api answers searches without results with a 404
+      if (error.response !== undefined && error.response.status === 404) {
+        return [];
+      }
+
+      throw error;
+    }
+  }
+
+  public async getSeriesWithEpisodes(seriesId: number, language: string): Promise<Series> {
+    return this.tvdb.getSeriesAllById(seriesId, {lang: language});
+  }
+
+  public async searchMovies(title: string, year: number, language: string): Promise<Array<Movie>> {
+    // the api of node-tvdb only knows series
+    throw new Error('the tvdb provider can\'t search movies, use tmdb or local');
+  }
+}
@@ -0,0 +1,453 @@
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+import {isCaseInsensitiveFolder, pathExists} from './fsutils';
+import {Journal, JournalBatch, JournalOperationType} from './journal';
+import {CompanionFile, Episode, EpisodeMapping, SeasonMapping} from './types';
+
+export type RenamePlanFormat = 'json' | 'text';
+
+// limits of common filesystems. Windows paths are a lot shorter than those of linux and macOS
+const maximumNameLength = 255;
+const maximumPathLength = process.platform === 'win32' ? 259 : 4095;
+
+export type RenamePlanEntry = {
+  originalPath: string,
+  updatedPath: string,
+  rename: boolean,
+  isVideo: boolean,
+  // the first episode of the file
+  episodeId: number,
+  // all episodes of the file, more than one for multi-episode files
+  episodeIds: Array<number>,
+  episodeName: string,
+  episodeNumber: string,
+  // the video of subtitles, nfos and thumbnails
+  companionOf?: string,
+  // problems that prevent applying the plan
+  conflicts: Array<string>,
+  // problems that are solved when applying the plan, e.g. through a temporary name
+  notices: Array<string>,
+}
+
+export type RenamePlanSeason = {
+  // undefined for plans that aren't about episodes
+  seasonNumber: number,
+  folderName: string,
+  entries: Array<RenamePlanEntry>,
+}
+
+// a rename of any file or folder, e.g. by a pattern
+export type PlannedRename = {
+  originalPath: string,
+  updatedPath: string,
+  // problems that the caller already knows, e.g. an invalid name
+  conflicts: Array<string>,
+  // e.g. why a file keeps its name
+  notices?: Array<string>,
+}
+
+/**
+ * A reviewable snapshot of all renames that standardizing a series folder
+ * would do, including everything that would go wrong when applying it.
+ */
+export class RenamePlan {
+
+  public readonly seriesDirectory: string;
+  public readonly seriesName: string;
+  public readonly seasons: Array<RenamePlanSeason>;
+  // season folders that are created before the files are moved into them
+  public readonly newFolders: Array<string> = [];
+
+  private caseInsensitive: boolean;
+  private description: string;
+  private operationType: JournalOperationType;
+
+  private constructor(
+    seriesDirectory: string,
+    seriesName: string,
+    seasons: Array<RenamePlanSeason>,
+    description: string = `standardize ${seriesDirectory}`,
+    operationType: JournalOperationType = 'episode-rename',
+  ) {
+    this.seriesDirectory = seriesDirectory;
+    this.seriesName = seriesName;
+    this.seasons = seasons;
+    this.description = description;
+    this.operationType = operationType;
+  }
+
+  public static async fromSeasonMapping(seriesDirectory: string, seriesName: string, seasonMapping: SeasonMapping): Promise<RenamePlan> {
+    const seasonNumbers = Object.keys(seasonMapping)
+      .map((season: string) => {
+        return parseInt(season);
+      })
+      .sort((season1: number, season2: number) => {
+        return season1 - season2;
+      });
+
+    const seasons = seasonNumbers.map((seasonNumber: number): RenamePlanSeason => {
+      return {
+        seasonNumber: seasonNumber,
+        folderName: seasonMapping[seasonNumber].folderName,
+        entries: seasonMapping[seasonNumber].episodeMappings
+          .map((episodeMapping: EpisodeMapping): Array<RenamePlanEntry> => {
+            const videoEntry: RenamePlanEntry = {
+              originalPath: episodeMapping.value.originalPath,
+              updatedPath: episodeMapping.value.updatedPath,
+              rename: episodeMapping.value.rename,
+              isVideo: episodeMapping.value.isVideo,
+              episodeId: episodeMapping.value.episode !== undefined ? episodeMapping.value.episode.id : undefined,
+              episodeIds: episodeMapping.value.episodes.map((episode: Episode) => {
+                return episode.id;
+              }),
+              episodeName: episodeMapping.value.episode !== undefined
+                ? episodeMapping.value.episodes
+                  .map((episode: Episode) => {
+                    return episode.episodeName;
+                  })
+                  .join(' & ')
+                : undefined,
+              episodeNumber: episodeMapping.value.episodeNumber,
+              conflicts: [],
+              notices: [],
+            };
+
+            // companions directly follow their video
+            const companionEntries = episodeMapping.value.companions.map((companion: CompanionFile): RenamePlanEntry => {
+              return {
+                ...videoEntry,
+                originalPath: companion.originalPath,
+                updatedPath: companion.updatedPath,
+                rename: companion.rename,
+                isVideo: false,
+                companionOf: episodeMapping.value.originalPath,
+                conflicts: [],
+                notices: [],
+              };
+            });
+
+            return [videoEntry, ...companionEntries];
+          })
+          .flat(),
+      };
+    });
+
+    const plan = new RenamePlan(seriesDirectory, seriesName, seasons);
+    await plan.detectNewFolders();
+    await plan.detectConflicts();
+    await plan.detectCycles();
+
+    return plan;
+  }
+
+  /**
+   * A plan for renames that aren't about episodes, with the same checks for conflicts and swapped names.
+   * @param directory the folder that contains all renamed files
+   */
+  public static async fromRenames(directory: string, description: string, renames: Array<PlannedRename>): Promise<RenamePlan> {
+    const entries = renames.map((plannedRename: PlannedRename): RenamePlanEntry => {
+      return {
+        originalPath: plannedRename.originalPath,
+        updatedPath: plannedRename.updatedPath,
+        rename: plannedRename.originalPath !== plannedRename.updatedPath,
+        isVideo: false,
+        episodeId: undefined,
+        episodeIds: [],
+        episodeName: undefined,
+        episodeNumber: undefined,
+        conflicts: [...plannedRename.conflicts],
+        notices: [...(plannedRename.notices || [])],
+      };
+    });
+
+    const plan = new RenamePlan(directory, undefined, [{seasonNumber: undefined, folderName: undefined, entries: entries}], description, 'rename');
+    await plan.detectNewFolders();
+    await plan.detectConflicts();
+    await plan.detectCycles();
+
+    return plan;
+  }
+
+  public get entries(): Array<RenamePlanEntry> {
+    return this.seasons
+      .map((season: RenamePlanSeason) => {
+        return season.entries;
+      })
+      .flat();
+  }
+
+  public get renameCount(): number {
+    return this.entries.filter((entry: RenamePlanEntry) => {
+      return entry.rename;
+    }).length;
+  }
+
+  public get conflictCount(): number {
+    return this.entries.filter((entry: RenamePlanEntry) => {
+      return entry.conflicts.length > 0;
+    }).length;
+  }
+
+  /**
+   * Video files that couldn't be matched to any episode of the series.
+   */
+  public get unmatchedEntries(): Array<RenamePlanEntry> {
+    return this.entries.filter((entry: RenamePlanEntry) => {
+      return entry.isVideo && entry.episodeId === undefined;
+    });
+  }
+
+  /**
+   * Creates the new folders and executes all renames of the plan as one journal batch.
+   */
+  public async apply(journal: Journal): Promise<JournalBatch> {
+    const batch = journal.beginBatch(this.description);
+
+    try {
+      for (const newFolder of this.newFolders) {
+        await journal.createFolder(batch, newFolder);
+      }
+
+      await this.executeRenames(journal, batch);
+    } finally {
+      await journal.commit(batch);
+    }
+
+    return batch;
+  }
+
+  public toJSON(): object {
+    return {
+      seriesDirectory: this.seriesDirectory,
+      seriesName: this.seriesName,
+      renameCount: this.renameCount,
+      conflictCount: this.conflictCount,
+      newFolders: this.newFolders,
+      seasons: this.seasons,
+    };
+  }
+
+  /**
+   * Renders the plan as a diff: '-' is the current name, '+' the new one.
+   * Files that stay untouched are prefixed with '=', conflicts with '!'.
+   */
+  public toText(): string {
+    const lines = [
+      this.seriesName !== undefined ? `Series: ${this.seriesName}` : undefined,
+      `Folder: ${this.seriesDirectory}`,
+      `${this.renameCount} renames, ${this.conflictCount} conflicts`,
+    ].filter((line: string) => {
+      return line !== undefined;
+    });
+
+    for (const newFolder of this.newFolders) {
+      lines.push(`+ ${path.relative(this.seriesDirectory, newFolder)}${path.sep} (new folder)`);
+    }
+
+    for (const season of this.seasons) {
+      const seasonHeader = season.seasonNumber !== undefined ? [`--- Season ${season.seasonNumber} (${season.folderName || 'series folder'}) ---`] : [];
+      lines.push('', ...seasonHeader);
+      for (const entry of season.entries) {
+        lines.push(...this.formatEntry(entry));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  public async export(filePath: string, format: RenamePlanFormat): Promise<void> {
+    const content = format === 'json'
+      ? JSON.stringify(this, null, 2)
+      : this.toText();
+
+    await fsPromises.writeFile(filePath, `${content}\n`);
+  }
+
+  private formatEntry(entry: RenamePlanEntry): Array<string> {
+    const originalName = path.relative(this.seriesDirectory, entry.originalPath);
+    const updatedName = path.relative(this.seriesDirectory, entry.updatedPath);
+
+    // companions are indented below their video
+    const indent = entry.companionOf !== undefined ? '  ' : '';
+    const lines = entry.rename
+      ? [`- ${indent}${originalName}`, `+ ${indent}${updatedName}`]
+      : [`= ${indent}${originalName}`];
+
+    if (path.dirname(entry.originalPath) !== path.dirname(entry.updatedPath)) {
+      lines.push(`  (moved from ${path.dirname(originalName)} to ${path.dirname(updatedName)})`);
+    }
+
+    for (const conflict of entry.conflicts) {
+      lines.push(`! ${conflict}`);
+    }
+
+    for (const notice of entry.notices) {
+      lines.push(`  (${notice})`);
+    }
+
+    return lines;
+  }
+
+  private async detectNewFolders(): Promise<void> {
+    const targetFolders = new Set(this.entries
+      .filter((entry: RenamePlanEntry) => {
+        return entry.rename;
+      })
+      .map((entry: RenamePlanEntry) => {
+        return path.dirname(entry.updatedPath);
+      }));
+
+    for (const targetFolder of targetFolders) {
+      if (!await pathExists(targetFolder)) {
+        this.newFolders.push(targetFolder);
+      }
+    }
+  }
+
+  private async detectConflicts(): Promise<void> {
+    const entries = this.entries;
+    const normalizePath = await this.getPathNormalizer();
+    const sourcePaths = new Set(entries.map((entry: RenamePlanEntry) => {
+      return normalizePath(entry.originalPath);
+    }));
+
+    // on case-insensitive filesystems, names that only differ in case are the same file
+    const entriesByTarget = new Map<string, Array<RenamePlanEntry>>();
+    for (const entry of entries) {
+      const targetPath = normalizePath(entry.updatedPath);
+      const entriesWithSameTarget = entriesByTarget.get(targetPath) || [];
+      entriesWithSameTarget.push(entry);
+      entriesByTarget.set(targetPath, entriesWithSameTarget);
+    }
+
+    for (const entriesWithSameTarget of entriesByTarget.values()) {
+      if (entriesWithSameTarget.length < 2) {
+        continue;
+      }
+
+      for (const entry of entriesWithSameTarget) {
+        entry.conflicts.push(`${entriesWithSameTarget.length} files would be renamed to ${path.basename(entry.updatedPath)}`);
+      }
+    }
+
+    for (const entry of entries) {
+      if (!entry.rename) {
+        continue;
+      }
+
+      if (Buffer.byteLength(path.basename(entry.updatedPath)) > maximumNameLength) {
+        entry.conflicts.push(`${path.basename(entry.updatedPath)} is longer than ${maximumNameLength} bytes`);
+      }
+
+      if (entry.updatedPath.length > maximumPathLength) {
+        entry.conflicts.push(`the new path is longer than ${maximumPathLength} characters`);
+      }
+    }
+
+    await Promise.all(entries.map(async(entry: RenamePlanEntry): Promise<void> => {
+      // files that are part of the plan are either moved away or reported as duplicate target above
+      if (!entry.rename || sourcePaths.has(normalizePath(entry.updatedPath))) {
+        return;
+      }
+
+      if (await pathExists(entry.updatedPath)) {
+        entry.conflicts.push(`${path.basename(entry.updatedPath)} already exists`);
+      }
+    }));
+  }
+
+  /**
+   * Renames like A → B, B → A (or A → a on case-insensitive filesystems) can't be done
+   * directly. They are done through a temporary name when applying the plan.
+   */
+  private async detectCycles(): Promise<void> {
+    const normalizePath = await this.getPathNormalizer();
+    const renamedEntries = this.entries.filter((entry: RenamePlanEntry) => {
+      return entry.rename;
+    });
+    const entriesBySource = new Map(renamedEntries.map((entry: RenamePlanEntry): [string, RenamePlanEntry] => {
+      return [normalizePath(entry.originalPath), entry];
+    }));
+
+    for (const entry of renamedEntries) {
+      const cycle = [entry];
+      let nextEntry = entriesBySource.get(normalizePath(entry.updatedPath));
+      while (nextEntry !== undefined && !cycle.includes(nextEntry)) {
+        cycle.push(nextEntry);
+        nextEntry = entriesBySource.get(normalizePath(nextEntry.updatedPath));
+      }
+
+      if (nextEntry !== entry) {
+        continue;
+      }
+
+      if (cycle.length === 1) {
+        entry.notices.push('only the case changes, renamed through a temporary name');
+        continue;
+      }
+
+      const cycleNames = [...cycle, entry].map((cycleEntry: RenamePlanEntry) => {
+        return path.basename(cycleEntry.originalPath);
+      });
+      entry.notices.push(`names are swapped (${cycleNames.join(' > ')}), renamed through a temporary name`);
+    }
+  }
+
+  /**
+   * Renames in an order that never overwrites a file of the plan: a file is only renamed
+   * after the file at its new path has been moved away. Cycles are broken by moving
+   * one of their files to a temporary name first.
+   */
+  private async executeRenames(journal: Journal, batch: JournalBatch): Promise<void> {
+    const normalizePath = await this.getPathNormalizer();
+    let pendingRenames = this.entries
+      .filter((entry: RenamePlanEntry) => {
+        return entry.rename;
+      })
+      .map((entry: RenamePlanEntry) => {
+        return {sourcePath: entry.originalPath, targetPath: entry.updatedPath};
+      });
+
+    let temporaryNameCount = 0;
+    while (pendingRenames.length > 0) {
+      const pendingSourcePaths = new Set(pendingRenames.map((rename: {sourcePath: string}) => {
+        return normalizePath(rename.sourcePath);
+      }));
+      // a folder is only renamed after the files inside it, e.g. the folder of a movie
+      const isEmptied = (rename: {sourcePath: string}): boolean => {
+        return !Array.from(pendingSourcePaths).some((pendingSourcePath: string) => {
+          return pendingSourcePath.startsWith(`${normalizePath(rename.sourcePath)}${path.sep}`);
+        });
+      };
+      const readyRenames = pendingRenames.filter((rename: {sourcePath: string, targetPath: string}) => {
+        return !pendingSourcePaths.has(normalizePath(rename.targetPath)) && isEmptied(rename);
+      });
+
+      if (readyRenames.length === 0) {
+        const rename = pendingRenames.find(isEmptied) || pendingRenames[0];
+        const temporaryPath = path.join(path.dirname(rename.sourcePath), `.series-rename-${batch.id}-${temporaryNameCount++}`);
+        await journal.rename(batch, this.operationType, rename.sourcePath, temporaryPath);
+        rename.sourcePath = temporaryPath;
+        continue;
+      }
+
+      for (const rename of readyRenames) {
+        await journal.rename(batch, this.operationType, rename.sourcePath, rename.targetPath);
+      }
+
+      pendingRenames = pendingRenames.filter((rename: {sourcePath: string, targetPath: string}) => {
+        return !readyRenames.includes(rename);
+      });
+    }
+  }
+
+  private async getPathNormalizer(): Promise<(filePath: string) => string> {
+    if (this.caseInsensitive === undefined) {
+      this.caseInsensitive = await isCaseInsensitiveFolder(this.seriesDirectory);
+    }
+
+    return (filePath: string): string => {
+      return this.caseInsensitive ? filePath.toLowerCase() : filePath;
+    };
+  }
+}
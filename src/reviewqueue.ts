@@ -0,0 +1,81 @@
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+import {configFileName} from './config';
+import {pathExists} from './fsutils';
+import {SeriesCandidate} from './librarysorter';
+import {seriesSidecarFileName} from './seriessidecar';
+
+export const reviewQueueFileName = '.series-rename-review.json';
+
+// files of the tool itself, they are neither junk nor renamed
+export const toolFileNames = [configFileName, seriesSidecarFileName, reviewQueueFileName];
+
+export type ReviewItem = {
+  path: string,
+  // why the video wasn't sorted, e.g. 'probably Show (2019), 60% (2 series are called "Show")'
+  reason: string,
+  candidates: Array<SeriesCandidate>,
+  // when it was queued, in milliseconds
+  added: number,
+};
+
+/**
+ * Downloads the watch folder couldn't sort with enough confidence. The queue is a file
+ * in the library, so that the file browser finds it from any folder of the library.
+ */
+export class ReviewQueue {
+
+  public readonly libraryDirectory: string;
+
+  private queueFile: string;
+
+  constructor(libraryDirectory: string) {
+    this.libraryDirectory = libraryDirectory;
+    this.queueFile = path.join(libraryDirectory, reviewQueueFileName);
+  }
+
+  /**
+   * The queue of the library that contains the directory, undefined if there is none.
+   */
+  public static async find(directory: string): Promise<ReviewQueue> {
+    for (let folder = directory; ; folder = path.dirname(folder)) {
+      if (await pathExists(path.join(folder, reviewQueueFileName))) {
+        return new ReviewQueue(folder);
+      }
+
+      if (path.dirname(folder) === folder) {
+        return undefined;
+      }
+    }
+  }
+
+  public async getItems(): Promise<Array<ReviewItem>> {
+    try {
+      return JSON.parse(await fsPromises.readFile(this.queueFile, 'utf8'));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * A video that is queued again replaces its old item, e.g. with a new reason.
+   */
+  public async add(items: Array<ReviewItem>): Promise<void> {
+    const addedPaths = items.map((item: ReviewItem) => {
+      return item.path;
+    });
+    await this.write([...(await this.getItems()).filter((item: ReviewItem) => {
+      return !addedPaths.includes(item.path);
+    }), ...items]);
+  }
+
+  public async remove(paths: Array<string>): Promise<void> {
+    await this.write((await this.getItems()).filter((item: ReviewItem) => {
+      return !paths.includes(item.path);
+    }));
+  }
+
+  private async write(items: Array<ReviewItem>): Promise<void> {
+    await fsPromises.writeFile(this.queueFile, `${JSON.stringify(items, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,122 @@
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+import {ConfigError, Settings} from './config';
+import {EpisodeOrder, episodeOrders} from './episodeorder';
+import {namingPresets, resolveNamingScheme} from './filenametemplate';
+import {MetadataProviderName, metadataProviderNames} from './providers';
+
+export const seriesSidecarFileName = '.series-rename-series.json';
+
+/**
+ * Remembers which series a folder contains, so that it doesn't have to be searched
+ * again on the next standardize. Everything but the series id is optional and
+ * overrides the configured settings for this folder.
+ */
+export type SeriesSidecar = {
+  seriesId: number,
+  // only for humans reading the file
+  seriesName?: string,
+  provider?: MetadataProviderName,
+  language?: string,
+  order?: EpisodeOrder,
+  template?: string,
+};
+
+/**
+ * Resolves to undefined if the folder has no sidecar.
+ */
+export async function readSeriesSidecar(seriesDirectory: string): Promise<SeriesSidecar> {
+  const sidecarFile = path.join(seriesDirectory, seriesSidecarFileName);
+  let content: string;
+  try {
+    content = await fsPromises.readFile(sidecarFile, 'utf8');
+  } catch {
+    return undefined;
+  }
+
+  let sidecar: SeriesSidecar;
+  try {
+    sidecar = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`${sidecarFile}: invalid JSON (${error.message})`);
+  }
+
+  validateSeriesSidecar(sidecar, sidecarFile);
+  return sidecar;
+}
+
+export async function writeSeriesSidecar(seriesDirectory: string, sidecar: SeriesSidecar): Promise<void> {
+  const sidecarFile = path.join(seriesDirectory, seriesSidecarFileName);
+  await fsPromises.writeFile(sidecarFile, formatSeriesSidecar(sidecar));
+}
+
+// the content of a sidecar file
+export function formatSeriesSidecar(sidecar: SeriesSidecar): string {
+  return `${JSON.stringify(sidecar, null, 2)}\n`;
+}
+
+/**
+ * The settings for the folder of the sidecar.
+ */
+export function applySeriesSidecar(settings: Settings, sidecar: SeriesSidecar): Settings {
+  if (sidecar === undefined) {
+    return settings;
+  }
+
+  return {
+    ...settings,
+    provider: sidecar.provider || settings.provider,
+    language: sidecar.language || settings.language,
+    order: sidecar.order || settings.order,
+    template: sidecar.template || settings.template,
+  };
+}
+
+function validateSeriesSidecar(sidecar: SeriesSidecar, source: string): void {
+  const fail = (message: string): never => {
+    throw new ConfigError(`${source}: ${message}`);
+  };
+
+  if (typeof sidecar !== 'object' || sidecar === null || Array.isArray(sidecar)) {
+    fail('must contain a JSON object like {"seriesId": 12345}');
+  }
+
+  const knownKeys = ['seriesId', 'seriesName', 'provider', 'language', 'order', 'template'];
+  for (const key of Object.keys(sidecar)) {
+    if (!knownKeys.includes(key)) {
+      fail(`unknown key "${key}". Known keys are ${knownKeys.join(', ')}`);
+    }
+  }
+
+  if (!Number.isInteger(sidecar.seriesId)) {
+    fail('"seriesId" must be the id of the series at its provider');
+  }
+
+  if (sidecar.seriesName !== undefined && typeof sidecar.seriesName !== 'string') {
+    fail('"seriesName" must be a string');
+  }
+
+  if (sidecar.provider !== undefined && !metadataProviderNames.includes(sidecar.provider)) {
+    fail(`"provider" must be one of ${metadataProviderNames.join(', ')}`);
+  }
+
+  if (sidecar.language !== undefined && (typeof sidecar.language !== 'string' || sidecar.language.length === 0)) {
+    fail('"language" must be a language abbreviation like "de"');
+  }
+
+  if (sidecar.order !== undefined && !episodeOrders.includes(sidecar.order)) {
+    fail(`"order" must be one of ${episodeOrders.join(', ')}`);
+  }
+
+  if (sidecar.template !== undefined) {
+    if (typeof sidecar.template !== 'string') {
+      fail(`"template" must be a preset (${Object.keys(namingPresets).join(', ')}) or a template`);
+    }
+
+    try {
+      resolveNamingScheme(sidecar.template);
+    } catch (error) {
+      fail(error.message);
+    }
+  }
+}
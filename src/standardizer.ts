@@ -0,0 +1,136 @@
+import {formatEpisodeNumber} from './completeness';
+import {getTranslatedSeries} from './episodematcher';
+import {EpisodeNamer} from './episodenamer';
+import {EpisodeOrder, getEpisodeNumber, getSeasonNumber} from './episodeorder';
+import {NamingScheme} from './filenametemplate';
+import {Journal} from './journal';
+import {MetadataProvider} from './providers';
+import {RenamePlan, RenamePlanEntry} from './renameplan';
+import {EpisodeMapping, Series} from './types';
+
+export type StandardizeOptions = {
+  seriesId: number,
+  language: string,
+  namingScheme?: NamingScheme,
+  videoFileExtensions?: Array<string>,
+  companionFileExtensions?: Array<string>,
+  // e.g. 'Season {season:00}', for series without season folders
+  seasonFolder?: string,
+  // defaults to aired
+  order?: EpisodeOrder,
+  // without this, only the plan is generated
+  apply: boolean,
+  // suggestions for unmatched videos with at least this confidence are renamed, too
+  acceptConfidence?: number,
+}
+
+export type StandardizeSummary = {
+  seriesDirectory: string,
+  seriesId: number,
+  seriesName: string,
+  language: string,
+  applied: boolean,
+  journalBatch: string,
+  // season folders that are (or would be) created
+  newFolders: Array<string>,
+  renamed: Array<{from: string, to: string}>,
+  unchangedCount: number,
+  unmatched: Array<string>,
+  // guesses for unmatched videos that weren't accepted
+  suggestions: Array<{path: string, episode: string, confidence: number, reasons: Array<string>}>,
+  conflicts: Array<{path: string, conflicts: Array<string>}>,
+}
+
+/**
+ * Standardizes a series folder without any prompts, e.g. for scripts and cron jobs.
+ */
+export class HeadlessStandardizer {
+
+  private journal: Journal;
+  private metadataProvider: MetadataProvider;
+
+  constructor(journal: Journal, metadataProvider: MetadataProvider) {
+    this.journal = journal;
+    this.metadataProvider = metadataProvider;
+  }
+
+  public async standardize(seriesDirectory: string, options: StandardizeOptions): Promise<StandardizeSummary> {
+    const seriesDetails: Series = await this.metadataProvider.getSeriesWithEpisodes(options.seriesId, options.language);
+    const episodeNamer = new EpisodeNamer({
+      namingScheme: options.namingScheme,
+      videoFileExtensions: options.videoFileExtensions,
+      companionFileExtensions: options.companionFileExtensions,
+      seasonFolder: options.seasonFolder,
+      order: options.order,
+    });
+    const translations = await getTranslatedSeries(this.metadataProvider, options.seriesId, options.language);
+    const episodeRenames = await episodeNamer.generateEpisodeNames(seriesDirectory, seriesDetails, translations);
+    const suggestions: Array<EpisodeMapping> = [];
+    for (const season of Object.values(episodeRenames)) {
+      season.episodeMappings = season.episodeMappings.map((episodeMapping: EpisodeMapping) => {
+        const suggestion = episodeMapping.value.suggestion;
+        if (suggestion === undefined) {
+          return episodeMapping;
+        }
+
+        if (options.acceptConfidence !== undefined && suggestion.confidence >= options.acceptConfidence) {
+          return episodeNamer.acceptSuggestion(seriesDetails, episodeMapping);
+        }
+
+        suggestions.push(episodeMapping);
+        return episodeMapping;
+      });
+    }
+    const plan = await RenamePlan.fromSeasonMapping(seriesDirectory, seriesDetails.seriesName, episodeRenames);
+
+    // a plan with conflicts would overwrite files, so it is never applied
+    const shouldApply = options.apply && plan.conflictCount === 0;
+    const batch = shouldApply
+      ? await plan.apply(this.journal)
+      : undefined;
+
+    const renamedEntries = plan.entries.filter((entry: RenamePlanEntry) => {
+      return entry.rename;
+    });
+
+    return {
+      seriesDirectory: seriesDirectory,
+      seriesId: options.seriesId,
+      seriesName: seriesDetails.seriesName,
+      language: options.language,
+      applied: shouldApply,
+      // batches without entries aren't stored in the journal, so there is nothing to undo
+      journalBatch: batch !== undefined && batch.entries.length > 0 ? batch.id : undefined,
+      newFolders: plan.newFolders,
+      renamed: renamedEntries.map((entry: RenamePlanEntry) => {
+        return {from: entry.originalPath, to: entry.updatedPath};
+      }),
+      unchangedCount: plan.entries.length - renamedEntries.length,
+      unmatched: plan.unmatchedEntries.map((entry: RenamePlanEntry) => {
+        return entry.originalPath;
+      }),
+      suggestions: suggestions.map((episodeMapping: EpisodeMapping) => {
+        const suggestion = episodeMapping.value.suggestion;
+        const order = options.order || 'aired';
+        const episodeNumber = formatEpisodeNumber({
+          seasonNumber: getSeasonNumber(suggestion.episode, order),
+          episodeNumber: getEpisodeNumber(suggestion.episode, order),
+        });
+
+        return {
+          path: episodeMapping.value.originalPath,
+          episode: `${episodeNumber} ${suggestion.episode.episodeName}`,
+          confidence: suggestion.confidence,
+          reasons: suggestion.reasons,
+        };
+      }),
+      conflicts: plan.entries
+        .filter((entry: RenamePlanEntry) => {
+          return entry.conflicts.length > 0;
+        })
+        .map((entry: RenamePlanEntry) => {
+          return {path: entry.originalPath, conflicts: entry.conflicts};
+        }),
+    };
+  }
+}
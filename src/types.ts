@@ -0,0 +1,129 @@
+import {MediaInfo} from './mediaprobe';
+
+export type SeriesLanguage = {
+  id: number,
+  abbreviation: string,
+  name: string,
+  englishName: string,
+}
+
+// the shape follows the tvdb api. Fields that other metadata providers can't
+// deliver are optional
+export type Episode = {
+  id: number,
+  airedSeason: number,
+  airedSeasonID?: number,
+  airedEpisodeNumber: number,
+  episodeName: string,
+  firstAired: string,
+  overview: string,
+  productionCode?: string,
+  showUrl?: string,
+  lastUpdated?: number,
+  dvdDiscid?: string,
+  dvdSeason?: number,
+  dvdEpisodeNumber?: number
+  dvdChapter?: number,
+  absoluteNumber?: number,
+  filename?: string,
+  seriesId?: number,
+  lastUpdatedBy?: number,
+  thumbAuthor?: number,
+  thumbAdded?: string,
+  thumbWidth?: string,
+  thumbHeight?: string,
+  imdbId?: string,
+  siteRating?: number,
+  siteRatingCount?: number
+}
+
+export type Series = {
+  aliases?: Array<string>,
+  banner?: string,
+  firstAired: string,
+  id: number,
+  network?: string,
+  overview: string,
+  // the typical length of an episode in minutes, e.g. '45'
+  runtime?: string,
+  seriesName: string,
+  slug?: string,
+  status?: string,
+  episodes: Array<Episode>
+}
+
+// the shape follows the tmdb api, normalized like series
+export type Movie = {
+  id: number,
+  title: string,
+  originalTitle?: string,
+  // e.g. '1999-03-31', undefined if unknown
+  releaseDate: string,
+  overview: string,
+  imdbId?: string,
+}
+
+export type ArrayPromptOption = {
+  name: string,
+  message: string,
+  value: any,
+  disabled?: boolean | string,
+}
+
+export type FolderSeasonMatch = {
+  folderName: string,
+  season: number,
+}
+
+// a subtitle, nfo or thumbnail that is renamed together with its video
+export type CompanionFile = {
+  originalPath: string,
+  updatedPath: string,
+  rename: boolean,
+  // everything after the name of the video, e.g. '.de.forced.srt' or '-thumb.jpg'
+  suffix: string,
+}
+
+/**
+ * An episode that a file name probably belongs to, although it contains no number
+ * of an episode of the series.
+ */
+export type EpisodeMatch = {
+  episode: Episode,
+  // 0 to 100
+  confidence: number,
+  // e.g. ['title "Zwei"', 'aired 2019-01-08']
+  reasons: Array<string>,
+};
+
+export interface EpisodeMapping extends ArrayPromptOption {
+  value: {
+    originalPath: string,
+    updatedPath: string,
+    rename: boolean,
+    isVideo: boolean,
+    // the first episode of the file
+    episode: Episode,
+    // all episodes of the file, more than one for multi-episode files like S01E01-E02
+    episodes: Array<Episode>,
+    // e.g. '01', or '01-02' for multi-episode files
+    episodeNumber: string,
+    seasonNumber: number,
+    seasonFolder: string,
+    // only videos have companions
+    companions: Array<CompanionFile>,
+    // a guess for unmatched videos, that is only renamed once accepted
+    suggestion?: EpisodeMatch,
+    // videos only, undefined if the container is unknown or probing is off
+    mediaInfo?: MediaInfo,
+    // why the video is probably incomplete, e.g. 'only 12 of 45 minutes'
+    truncation?: string,
+  }
+}
+
+export interface SeasonMapping {
+  [season: number]: {
+    folderName?: string,
+    episodeMappings: Array<EpisodeMapping>
+  }
+}
@@ -0,0 +1,163 @@
+import assert from 'assert';
+import {ParsedFileName, ParsedMovieName, parseFileName, parseMovieName} from '../src/filenameparser';
+
+type FileNameCase = {
+  fileName: string,
+  expected: Partial<ParsedFileName>,
+};
+
+type MovieNameCase = {
+  name: string,
+  expected: Partial<ParsedMovieName>,
+};
+
+// only the fields of `expected` are compared, undefined means the name must not contain it
+function assertParsed<T>(parsed: T, expected: Partial<T>): void {
+  const actual: Partial<T> = {};
+  for (const field of Object.keys(expected) as Array<keyof T>) {
+    actual[field] = parsed[field];
+  }
+
+  assert.deepStrictEqual(actual, expected);
+}
+
+function describeCases(title: string, cases: Array<FileNameCase>): void {
+  describe(title, () => {
+    for (const {fileName, expected} of cases) {
+      it(fileName, () => {
+        assertParsed(parseFileName(fileName), expected);
+      });
+    }
+  });
+}
+
+describe('parseFileName', () => {
+
+  describeCases('SxxEyy', [
+    {fileName: 'Show.Name.S01E05.mkv', expected: {title: 'Show Name', season: 1, episodes: [5]}},
+    {fileName: 'Show Name - S02E10 - Episode Title.mkv', expected: {title: 'Show Name', season: 2, episodes: [10]}},
+    {fileName: 'show.name.s03e07.720p.hdtv.x264-lol.mkv', expected: {title: 'show name', season: 3, episodes: [7]}},
+    {fileName: 'Show_Name_S10E100.avi', expected: {title: 'Show Name', season: 10, episodes: [100]}},
+    {fileName: 'Show Name S01 E02.mp4', expected: {title: 'Show Name', season: 1, episodes: [2]}},
+    {fileName: 'Show.Name.S00E03.Special.mkv', expected: {title: 'Show Name', season: 0, episodes: [3]}},
+    {fileName: 'S04E01.mkv', expected: {title: undefined, season: 4, episodes: [1]}},
+  ]);
+
+  describeCases('1x01', [
+    {fileName: 'Show Name 1x01.avi', expected: {title: 'Show Name', season: 1, episodes: [1]}},
+    {fileName: 'Show.Name.2x13.Episode.Title.avi', expected: {title: 'Show Name', season: 2, episodes: [13]}},
+    {fileName: 'Show Name - 10x05 - Title.mkv', expected: {title: 'Show Name', season: 10, episodes: [5]}},
+  ]);
+
+  describeCases('other season and episode markers', [
+    {fileName: 'Show Name Season 1 Episode 2.mkv', expected: {title: 'Show Name', season: 1, episodes: [2]}},
+    {fileName: 'Serie Staffel 2 Folge 7.mkv', expected: {title: 'Serie', season: 2, episodes: [7]}},
+    {fileName: 'Show Name E05.mkv', expected: {title: 'Show Name', season: undefined, episodes: [5]}},
+    {fileName: 'Show Name Ep 12.mkv', expected: {title: 'Show Name', season: undefined, episodes: [12]}},
+    {fileName: 'Show Name 105.avi', expected: {title: 'Show Name', episodes: [105]}},
+  ]);
+
+  describeCases('multi-episode files', [
+    {fileName: 'Show.Name.S01E01E02.mkv', expected: {season: 1, episodes: [1, 2]}},
+    {fileName: 'Show.Name.S01E01-E03.mkv', expected: {season: 1, episodes: [1, 2, 3]}},
+    {fileName: 'Show.Name.S01E01-03.mkv', expected: {season: 1, episodes: [1, 2, 3]}},
+    {fileName: 'Show.Name.S01E01E03.mkv', expected: {season: 1, episodes: [1, 3]}},
+    {fileName: 'Show Name 1x01-1x02.avi', expected: {season: 1, episodes: [1, 2]}},
+    {fileName: 'Show Name 1x01-03.avi', expected: {season: 1, episodes: [1, 2, 3]}},
+    {fileName: 'Show Name E01-E02.mkv', expected: {season: undefined, episodes: [1, 2]}},
+    // a year after the episode isn't the end of a range
+    {fileName: 'Show.Name.S01E01-2019.mkv', expected: {season: 1, episodes: [1], year: 2019}},
+    // descending numbers aren't a range either
+    {fileName: 'Show.Name.S01E05-E02.mkv', expected: {season: 1, episodes: [5]}},
+  ]);
+
+  describeCases('date-based names', [
+    {fileName: 'Daily.Show.2019.03.14.Guest.Name.mkv', expected: {title: 'Daily Show', airDate: '2019-03-14', season: undefined, episodes: []}},
+    {fileName: 'Daily Show 2019-03-14.mkv', expected: {title: 'Daily Show', airDate: '2019-03-14', episodes: []}},
+    {fileName: 'Daily_Show_14.03.2019.mkv', expected: {title: 'Daily Show', airDate: '2019-03-14', episodes: []}},
+    {fileName: 'Daily.Show.2019.03.14.720p.WEB.h264-GRP.mkv', expected: {airDate: '2019-03-14', resolution: '720p', releaseGroup: 'GRP'}},
+    // not a valid month, so it isn't a date
+    {fileName: 'Show.Name.2019.13.01.mkv', expected: {airDate: undefined}},
+  ]);
+
+  describeCases('years in titles', [
+    {fileName: 'Show.Name.2019.S02E05.mkv', expected: {title: 'Show Name', year: 2019, season: 2, episodes: [5]}},
+    {fileName: 'Show Name (2005) - S01E01.mkv', expected: {title: 'Show Name', year: 2005, season: 1, episodes: [1]}},
+    {fileName: 'Doctor.Who.2005.S10E01.720p.mkv', expected: {title: 'Doctor Who', year: 2005, season: 10, episodes: [1]}},
+    {fileName: 'Show.Name.S01E02.mkv', expected: {year: undefined}},
+  ]);
+
+  describeCases('resolution and codec noise', [
+    {fileName: 'Show.Name.S01E02.1080p.WEB-DL.DD5.1.H.264-GRP.mkv', expected: {
+      title: 'Show Name', season: 1, episodes: [2], resolution: '1080p', codec: 'h.264', releaseGroup: 'GRP',
+    }},
+    {fileName: 'Show.Name.S01E02.2160p.UHD.BluRay.x265.10bit.HDR.DTS-HD.MA.5.1-GRP.mkv', expected: {
+      season: 1, episodes: [2], resolution: '2160p', codec: 'x265', releaseGroup: 'GRP',
+    }},
+    {fileName: 'Show.Name.S01E02.4K.HEVC.mkv', expected: {resolution: '2160p', codec: 'hevc'}},
+    {fileName: 'Show.Name.S03E04.720p.HDTV.x264.AAC2.0.mkv', expected: {season: 3, episodes: [4], resolution: '720p', codec: 'x264'}},
+    // the numbers of resolution, codec and audio aren't episodes
+    {fileName: 'Show Name 07 1080p x264 AAC5.1.mkv', expected: {title: 'Show Name', season: undefined, episodes: [7]}},
+    {fileName: 'Show.Name.S01E02.480p.XviD.avi', expected: {resolution: '480p', codec: 'xvid'}},
+  ]);
+
+  describeCases('release groups', [
+    {fileName: 'Show.Name.S01E02.720p.HDTV.x264-KILLERS.mkv', expected: {title: 'Show Name', releaseGroup: 'KILLERS'}},
+    {fileName: '[SubGroup] Show Name - 05 [1080p].mkv', expected: {title: 'Show Name', releaseGroup: 'SubGroup', episodes: [5]}},
+    // without release tags a trailing dash is part of the name
+    {fileName: 'Show Name - S01E02 - Pilot-Part.mkv', expected: {releaseGroup: undefined}},
+  ]);
+
+  describeCases('anime and absolute numbering', [
+    {fileName: '[HorribleSubs] One Piece - 890 [720p].mkv', expected: {
+      title: 'One Piece', season: undefined, episodes: [890], resolution: '720p', releaseGroup: 'HorribleSubs',
+    }},
+    {fileName: '[Group] Show Name - 12 [1080p][ABCD1234].mkv', expected: {title: 'Show Name', season: undefined, episodes: [12]}},
+    {fileName: '[Group] Show Name - 1001 (1080p) [8-bit].mkv', expected: {title: 'Show Name', episodes: [1001]}},
+    {fileName: 'Show Name - 003.mkv', expected: {title: 'Show Name', season: undefined, episodes: [3]}},
+    {fileName: 'Show.Name.E1045.mkv', expected: {title: 'Show Name', season: undefined, episodes: [1045]}},
+  ]);
+
+  describe('interpretations', () => {
+    it('keeps the weaker readings of ambiguous names', () => {
+      const parsed = parseFileName('Show Name 105.avi');
+      const readings = parsed.interpretations.map((interpretation: {season: number, episodes: Array<number>}) => {
+        return [interpretation.season, interpretation.episodes];
+      });
+
+      assert.deepStrictEqual(readings, [[undefined, [105]], [1, [5]]]);
+    });
+
+    it('prefers SxxEyy over plain numbers', () => {
+      const parsed = parseFileName('Show 24 S02E03.mkv');
+
+      assert.deepStrictEqual([parsed.season, parsed.episodes], [2, [3]]);
+      assert.ok(parsed.interpretations.length > 1);
+    });
+  });
+});
+
+describe('parseMovieName', () => {
+  const cases: Array<MovieNameCase> = [
+    {name: 'The.Matrix.1999.1080p.BluRay.x264-GROUP', expected: {title: 'The Matrix', year: 1999, part: undefined, edition: undefined}},
+    {name: 'The Matrix (1999)', expected: {title: 'The Matrix', year: 1999}},
+    {name: 'Blade Runner 2049 (2017)', expected: {title: 'Blade Runner 2049', year: 2017}},
+    {name: '1917 (2019)', expected: {title: '1917', year: 2019}},
+    {name: '2001.A.Space.Odyssey.1968', expected: {title: '2001 A Space Odyssey', year: 1968}},
+    {name: 'Movie.Title.2004.cd1', expected: {title: 'Movie Title', year: 2004, part: 1}},
+    {name: 'Movie Title (2004) - part2', expected: {title: 'Movie Title', part: 2}},
+    {name: 'Movie.Title.2004.DVDRip.XviD.CD 2', expected: {title: 'Movie Title', part: 2}},
+    {name: 'Apocalypse.Now.1979.Final.Cut.720p', expected: {title: 'Apocalypse Now', edition: 'Final Cut'}},
+    {name: 'Movie.Title.2001.Directors.Cut.cd1', expected: {title: 'Movie Title', year: 2001, part: 1, edition: 'Director\'s Cut'}},
+    {name: 'Movie Title (2001) {edition-Extended Edition}', expected: {title: 'Movie Title', year: 2001, edition: 'Extended Edition'}},
+    {name: 'Movie.Title.2001.EXTENDED.REMASTERED.1080p', expected: {edition: 'Extended Edition Remastered'}},
+    {name: '[Group] Movie Title (2010) [1080p]', expected: {title: 'Movie Title', year: 2010}},
+    {name: 'Movie Title', expected: {title: 'Movie Title', year: undefined}},
+  ];
+
+  for (const {name, expected} of cases) {
+    it(name, () => {
+      assertParsed(parseMovieName(name), expected);
+    });
+  }
+});
@@ -0,0 +1,131 @@
+import assert from 'assert';
+import {
+  FilenameTemplate,
+  TemplateValues,
+  filesystemReplacements,
+  namingPresets,
+  resolveNamingScheme,
+  validateFolderTemplate,
+} from '../src/filenametemplate';
+
+type RenderCase = {
+  template: string,
+  values: TemplateValues,
+  expected: string,
+};
+
+const episodeValues: TemplateValues = {
+  series: 'Show',
+  year: 2019,
+  season: 1,
+  episode: 5,
+  title: 'Pilot',
+  ext: '.mkv',
+};
+
+function describeRenderCases(title: string, cases: Array<RenderCase>): void {
+  describe(title, () => {
+    for (const {template, values, expected} of cases) {
+      it(`${template} > ${expected}`, () => {
+        assert.strictEqual(new FilenameTemplate(template, filesystemReplacements).render(values), expected);
+      });
+    }
+  });
+}
+
+describe('FilenameTemplate', () => {
+
+  describeRenderCases('tokens and padding', [
+    {template: '{series} - S{season:00}E{episode:00} - {title}{ext}', values: episodeValues, expected: 'Show - S01E05 - Pilot.mkv'},
+    {template: '{series} {season}x{episode:000}{ext}', values: episodeValues, expected: 'Show 1x005.mkv'},
+    // wider numbers aren't cut
+    {template: 'E{episode:0}{ext}', values: {...episodeValues, episode: 105}, expected: 'E105.mkv'},
+  ]);
+
+  describeRenderCases('conditional sections', [
+    {template: '{series}< ({year})>{ext}', values: episodeValues, expected: 'Show (2019).mkv'},
+    {template: '{series}< ({year})>{ext}', values: {...episodeValues, year: undefined}, expected: 'Show.mkv'},
+    // a section is left out as soon as one of its tokens is empty
+    {template: '{series}< - {year} {title}>{ext}', values: {...episodeValues, title: ''}, expected: 'Show.mkv'},
+    {template: '{series}< [{productionCode}]>< ({year})>{ext}', values: episodeValues, expected: 'Show (2019).mkv'},
+    // sections without tokens are always rendered
+    {template: '{series}< - >{title}{ext}', values: episodeValues, expected: 'Show - Pilot.mkv'},
+  ]);
+
+  describeRenderCases('ranges of multi-episode files', [
+    {template: 'S{season:00}E{episode:00}{ext}', values: {...episodeValues, episode: [1, 2]}, expected: 'S01E01-E02.mkv'},
+    {template: '{season}x{episode:00}{ext}', values: {...episodeValues, episode: [1, 2, 3]}, expected: '1x01-x02-x03.mkv'},
+    {template: 'Episode {episode}{ext}', values: {...episodeValues, episode: [7, 8]}, expected: 'Episode 7-8.mkv'},
+    {template: 'S01E{episode:00}< ({absolute:000})>{ext}', values: {...episodeValues, episode: [1, 2], absolute: []}, expected: 'S01E01-E02.mkv'},
+  ]);
+
+  describe('replacements', () => {
+    it('apply to token values, not to the literal parts', () => {
+      const template = new FilenameTemplate('{series}: {title}{ext}', filesystemReplacements);
+
+      assert.strictEqual(template.render({...episodeValues, series: 'What?', title: 'A/B: C'}), 'What: A-B - C.mkv');
+    });
+
+    it('leave extensions and air dates alone', () => {
+      const scheme = namingPresets.default;
+      const template = FilenameTemplate.fromNamingScheme({...scheme, template: '{series} {airdate}{ext}'});
+
+      assert.strictEqual(template.render({...episodeValues, series: 'Daily Show', airdate: '2019-03-14'}), 'Daily.Show 2019-03-14.mkv');
+    });
+  });
+
+  it('pads to the minimum width of the season', () => {
+    const template = new FilenameTemplate('E{episode:00}');
+
+    assert.strictEqual(template.render({episode: 5}, {episode: 3}), 'E005');
+  });
+
+  it('lists each token once', () => {
+    assert.deepStrictEqual(new FilenameTemplate('{series}< ({year})> {series} {title}').tokens, ['series', 'year', 'title']);
+  });
+
+  describe('syntax errors', () => {
+    const invalidTemplates = [
+      '{series',
+      'series}',
+      '{unknown}',
+      '{episode:xx}',
+      '{series}<< ({year})>>',
+      '{series}< ({year})',
+      '{series} ({year})>',
+    ];
+
+    for (const template of invalidTemplates) {
+      it(template, () => {
+        assert.throws(() => {
+          return new FilenameTemplate(template);
+        });
+      });
+    }
+  });
+});
+
+describe('resolveNamingScheme', () => {
+  it('resolves presets by name', () => {
+    const namingScheme = resolveNamingScheme('plex');
+    const template = FilenameTemplate.fromNamingScheme(namingScheme);
+
+    assert.strictEqual(template.render(episodeValues), 'Show (2019) - s01e05 - Pilot.mkv');
+  });
+
+  it('takes everything else as a template', () => {
+    assert.strictEqual(resolveNamingScheme('{series}{ext}').template, '{series}{ext}');
+  });
+});
+
+describe('validateFolderTemplate', () => {
+  it('rejects path separators', () => {
+    assert.throws(() => {
+      validateFolderTemplate('Season {season}/Extras');
+    });
+  });
+
+  it('accepts single folders', () => {
+    validateFolderTemplate('Season {season:00}');
+  });
+});
@@ -0,0 +1,103 @@
+import assert from 'assert';
+import {promises as fsPromises} from 'fs';
+import path from 'path';
+import {pathExists} from '../src/fsutils';
+import {Journal, JournalBatch} from '../src/journal';
+import {createTempFolder, readTempFolder, removeTempFolder} from './tempfolder';
+
+describe('Journal', () => {
+  let folder: string;
+  let journal: Journal;
+
+  const file = (relativePath: string): string => {
+    return path.join(folder, relativePath);
+  };
+
+  const readFiles = (): Promise<{[relativePath: string]: string}> => {
+    return readTempFolder(folder, ['.journal']);
+  };
+
+  beforeEach(async () => {
+    folder = await createTempFolder({'a.mkv': 'a', 'b.srt': 'b'});
+    journal = new Journal(file('.journal'));
+  });
+
+  afterEach(async () => {
+    await removeTempFolder(folder);
+  });
+
+  it('undoes renames, trashed files and created folders and files', async () => {
+    const batch = journal.beginBatch('test');
+    await journal.createFolder(batch, file('Season 01'));
+    await journal.rename(batch, 'rename', file('a.mkv'), file('Season 01/Show S01E01.mkv'));
+    await journal.trash(batch, 'delete', file('b.srt'));
+    await journal.createFile(batch, file('sidecar.json'), '{}');
+    await journal.commit(batch);
+
+    assert.deepStrictEqual(await readFiles(), {'Season 01/Show S01E01.mkv': 'a', 'sidecar.json': '{}'});
+
+    const result = await journal.undo(batch.id);
+
+    assert.deepStrictEqual([result.restoredCount, result.errors], [4, []]);
+    assert.deepStrictEqual(await readFiles(), {'a.mkv': 'a', 'b.srt': 'b'});
+    assert.strictEqual(await pathExists(file('Season 01')), false);
+    assert.strictEqual(await journal.getLastUndoableBatch(), undefined);
+  });
+
+  it('refuses to replace existing files', async () => {
+    const batch = journal.beginBatch('test');
+
+    await assert.rejects(journal.rename(batch, 'rename', file('a.mkv'), file('b.srt')));
+    assert.deepStrictEqual(await readFiles(), {'a.mkv': 'a', 'b.srt': 'b'});
+    assert.strictEqual(batch.entries.length, 0);
+  });
+
+  it('refuses to move the folder that holds the journal', async () => {
+    const batch = journal.beginBatch('test');
+
+    await assert.rejects(journal.rename(batch, 'rename', folder, `${folder}-renamed`));
+    await assert.rejects(journal.trash(batch, 'delete', folder));
+    assert.strictEqual(await pathExists(folder), true);
+    assert.strictEqual(batch.entries.length, 0);
+  });
+
+  it('keeps failed entries for another undo', async () => {
+    const batch = journal.beginBatch('test');
+    await journal.rename(batch, 'rename', file('a.mkv'), file('c.mkv'));
+    await journal.rename(batch, 'rename', file('b.srt'), file('d.srt'));
+    await journal.commit(batch);
+    await fsPromises.writeFile(file('a.mkv'), 'new');
+
+    const firstResult = await journal.undo(batch.id);
+
+    assert.deepStrictEqual([firstResult.operationCount, firstResult.restoredCount, firstResult.errors.length], [2, 1, 1]);
+    assert.strictEqual((await journal.getLastUndoableBatch()).id, batch.id);
+
+    await fsPromises.unlink(file('a.mkv'));
+    const secondResult = await journal.undo(batch.id);
+
+    assert.deepStrictEqual([secondResult.operationCount, secondResult.restoredCount, secondResult.errors], [1, 1, []]);
+    assert.deepStrictEqual(await readFiles(), {'a.mkv': 'a', 'b.srt': 'b'});
+    assert.strictEqual(await journal.getLastUndoableBatch(), undefined);
+  });
+
+  it('stores entries before the batch is committed', async () => {
+    const batch = journal.beginBatch('interrupted');
+    await journal.rename(batch, 'rename', file('a.mkv'), file('c.mkv'));
+
+    // a second journal reads what a crashed process left behind
+    const storedBatches = await new Journal(file('.journal')).getBatches();
+
+    assert.deepStrictEqual(storedBatches.map((storedBatch: JournalBatch) => {
+      return [storedBatch.description, storedBatch.entries.length];
+    }), [['interrupted', 1]]);
+  });
+
+  it('doesn\'t store batches without entries', async () => {
+    const batch = journal.beginBatch('nothing');
+    await assert.rejects(journal.rename(batch, 'rename', file('missing.mkv'), file('c.mkv')));
+    await journal.commit(batch);
+
+    assert.deepStrictEqual(await journal.getBatches(), []);
+  });
+});
@@ -0,0 +1,111 @@
+import assert from 'assert';
+import path from 'path';
+import {Journal} from '../src/journal';
+import {RenamePlan, RenamePlanEntry} from '../src/renameplan';
+import {createTempFolder, readTempFolder, removeTempFolder} from './tempfolder';
+
+describe('RenamePlan', () => {
+  let folder: string;
+  let journal: Journal;
+
+  const file = (relativePath: string): string => {
+    return path.join(folder, relativePath);
+  };
+
+  const readFiles = (): Promise<{[relativePath: string]: string}> => {
+    return readTempFolder(folder, ['.journal']);
+  };
+
+  // e.g. {'a.mkv': 'b.mkv'} renames a.mkv to b.mkv
+  const planRenames = (renames: {[originalName: string]: string}): Promise<RenamePlan> => {
+    return RenamePlan.fromRenames(folder, 'test', Object.entries(renames).map(([originalName, updatedName]: [string, string]) => {
+      return {originalPath: file(originalName), updatedPath: file(updatedName), conflicts: []};
+    }));
+  };
+
+  const applyAndUndo = async (renames: {[originalName: string]: string}, renamedFiles: {[relativePath: string]: string}): Promise<void> => {
+    const originalFiles = await readFiles();
+    const plan = await planRenames(renames);
+    assert.strictEqual(plan.conflictCount, 0);
+
+    const batch = await plan.apply(journal);
+    assert.deepStrictEqual(await readFiles(), renamedFiles);
+
+    const result = await journal.undo(batch.id);
+    assert.deepStrictEqual(result.errors, []);
+    assert.deepStrictEqual(await readFiles(), originalFiles);
+  };
+
+  beforeEach(async () => {
+    folder = await createTempFolder({'a.mkv': 'a', 'b.mkv': 'b', 'c.mkv': 'c'});
+    journal = new Journal(file('.journal'));
+  });
+
+  afterEach(async () => {
+    await removeTempFolder(folder);
+  });
+
+  describe('apply and undo', () => {
+    it('swaps two names', async () => {
+      await applyAndUndo({'a.mkv': 'b.mkv', 'b.mkv': 'a.mkv'}, {'a.mkv': 'b', 'b.mkv': 'a', 'c.mkv': 'c'});
+    });
+
+    it('rotates names in a cycle', async () => {
+      await applyAndUndo({'a.mkv': 'b.mkv', 'b.mkv': 'c.mkv', 'c.mkv': 'a.mkv'}, {'a.mkv': 'c', 'b.mkv': 'a', 'c.mkv': 'b'});
+    });
+
+    it('renames chains in an order that overwrites nothing', async () => {
+      await applyAndUndo({'a.mkv': 'b.mkv', 'b.mkv': 'c.mkv', 'c.mkv': 'd.mkv'}, {'b.mkv': 'a', 'c.mkv': 'b', 'd.mkv': 'c'});
+    });
+
+    it('changes only the case', async () => {
+      await applyAndUndo({'a.mkv': 'A.mkv'}, {'A.mkv': 'a', 'b.mkv': 'b', 'c.mkv': 'c'});
+    });
+
+    it('creates new folders and moves files into them', async () => {
+      const plan = await planRenames({'a.mkv': 'Season 01/a.mkv'});
+      assert.deepStrictEqual(plan.newFolders, [file('Season 01')]);
+
+      await applyAndUndo({'a.mkv': 'Season 01/a.mkv'}, {'Season 01/a.mkv': 'a', 'b.mkv': 'b', 'c.mkv': 'c'});
+    });
+  });
+
+  it('notes swapped names', async () => {
+    const plan = await planRenames({'a.mkv': 'b.mkv', 'b.mkv': 'a.mkv'});
+
+    assert.deepStrictEqual(plan.entries.map((entry: RenamePlanEntry) => {
+      return entry.notices;
+    }), [
+      ['names are swapped (a.mkv > b.mkv > a.mkv), renamed through a temporary name'],
+      ['names are swapped (b.mkv > a.mkv > b.mkv), renamed through a temporary name'],
+    ]);
+  });
+
+  describe('conflicts', () => {
+    it('two files with the same new name', async () => {
+      const plan = await planRenames({'a.mkv': 'd.mkv', 'b.mkv': 'd.mkv'});
+
+      assert.deepStrictEqual(plan.entries.map((entry: RenamePlanEntry) => {
+        return entry.conflicts;
+      }), [['2 files would be renamed to d.mkv'], ['2 files would be renamed to d.mkv']]);
+    });
+
+    it('a new name that is taken by a file outside the plan', async () => {
+      const plan = await planRenames({'a.mkv': 'b.mkv'});
+
+      assert.deepStrictEqual(plan.entries[0].conflicts, ['b.mkv already exists']);
+    });
+
+    it('a new name that is taken by a file that is moved away', async () => {
+      const plan = await planRenames({'a.mkv': 'b.mkv', 'b.mkv': 'd.mkv'});
+
+      assert.strictEqual(plan.conflictCount, 0);
+    });
+
+    it('names that are too long', async () => {
+      const plan = await planRenames({'a.mkv': `${'a'.repeat(256)}.mkv`});
+
+      assert.deepStrictEqual(plan.entries[0].conflicts, [`${'a'.repeat(256)}.mkv is longer than 255 bytes`]);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import {promises as fsPromises} from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * A folder in the temp directory for specs that work on real files.
+ */
+export async function createTempFolder(files: {[relativePath: string]: string} = {}): Promise<string> {
+  const folder = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'series-rename-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    await fsPromises.mkdir(path.dirname(path.join(folder, relativePath)), {recursive: true});
+    await fsPromises.writeFile(path.join(folder, relativePath), content);
+  }
+
+  return folder;
+}
+
+// the contents of all files below the folder by their relative paths, e.g. {'Season 01/a.mkv': 'a'}
+export async function readTempFolder(folder: string, ignoredNames: Array<string> = []): Promise<{[relativePath: string]: string}> {
+  const files: {[relativePath: string]: string} = {};
+  const readFolder = async (currentFolder: string): Promise<void> => {
+    for (const entry of await fsPromises.readdir(currentFolder, {withFileTypes: true})) {
+      const entryPath = path.join(currentFolder, entry.name);
+      if (ignoredNames.includes(entry.name)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        await readFolder(entryPath);
+      } else {
+        files[path.relative(folder, entryPath)] = await fsPromises.readFile(entryPath, 'utf8');
+      }
+    }
+  };
+
+  await readFolder(folder);
+  return files;
+}
+
+export async function removeTempFolder(folder: string): Promise<void> {
+  for (const entry of await fsPromises.readdir(folder, {withFileTypes: true})) {
+    const entryPath = path.join(folder, entry.name);
+    if (entry.isDirectory()) {
+      await removeTempFolder(entryPath);
+    } else {
+      await fsPromises.unlink(entryPath);
+    }
+  }
+
+  await fsPromises.rmdir(folder);
+}